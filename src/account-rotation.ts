@@ -10,6 +10,10 @@
  * This enables longer uninterrupted usage by cycling through multiple
  * Puter accounts when individual accounts hit rate limits.
  * 
+ * With the 'most-remaining-credits' strategy the manager also polls each
+ * account's monthly usage, rotates away from an account before its credits
+ * run out, and skips exhausted accounts until the monthly reset.
+ * 
  * @example
  * ```ts
  * const rotation = new AccountRotationManager(authManager, {
@@ -25,8 +29,11 @@
  * ```
  */
 
-import type { PuterAccount } from './types.js';
+import type { PuterAccount, PuterCooldownState, PuterMonthlyUsage } from './types.js';
 import type { Logger } from './logger.js';
+import { PuterClient } from './client.js';
+import { getRetryAfterMs } from './retry.js';
+import type { CooldownStateStore } from './cooldown-state.js';
 
 /**
  * Default cooldown duration for rate-limited accounts (5 minutes)
@@ -35,6 +42,27 @@ import type { Logger } from './logger.js';
  */
 export const DEFAULT_ACCOUNT_COOLDOWN_MS = 300000;
 
+/**
+ * Default fraction of the monthly allowance below which the
+ * 'most-remaining-credits' strategy rotates away from an account (5%)
+ */
+export const DEFAULT_CREDIT_THRESHOLD = 0.05;
+
+/**
+ * Default time to cache an account's monthly usage (1 minute)
+ */
+export const DEFAULT_USAGE_CACHE_TTL_MS = 60000;
+
+/**
+ * Strategy for selecting the next account
+ */
+export type AccountRotationStrategy = 'round-robin' | 'least-recently-used' | 'most-remaining-credits';
+
+/**
+ * Fetches the monthly usage of an account (used by 'most-remaining-credits')
+ */
+export type AccountUsageFetcher = (account: PuterAccount) => Promise<PuterMonthlyUsage>;
+
 /**
  * Configuration options for AccountRotationManager
  */
@@ -43,8 +71,16 @@ export interface AccountRotationOptions {
   cooldownMs?: number;
   /** Whether account rotation is enabled (default: true) */
   enabled?: boolean;
-  /** Strategy for selecting next account: 'round-robin' | 'least-recently-used' */
-  strategy?: 'round-robin' | 'least-recently-used';
+  /** Strategy for selecting next account: 'round-robin' | 'least-recently-used' | 'most-remaining-credits' */
+  strategy?: AccountRotationStrategy;
+  /** Fraction of the monthly allowance (0-1) below which an account is rotated away from (default: 0.05) */
+  creditThreshold?: number;
+  /** How long to cache an account's monthly usage in milliseconds (default: 1 minute) */
+  usageCacheTtlMs?: number;
+  /** Custom usage fetcher (default: PuterClient.getMonthlyUsage with the account's token) */
+  usageFetcher?: AccountUsageFetcher;
+  /** Persist cooldowns and rate-limit counters to (and load them from) this store, shared across processes */
+  stateStore?: CooldownStateStore;
 }
 
 /**
@@ -63,6 +99,8 @@ export interface AccountStatus {
   lastUsedAt?: number;
   /** Number of times this account has been rate-limited */
   rateLimitCount: number;
+  /** Remaining monthly credits in microcents (if usage has been polled) */
+  remainingCredits?: number;
 }
 
 /**
@@ -77,6 +115,26 @@ interface AccountCooldownEntry {
   consecutiveRateLimits: number;
 }
 
+/**
+ * Cached monthly usage for an account
+ */
+interface AccountUsageEntry {
+  /** Remaining allowance in microcents (undefined if never fetched successfully) */
+  remaining?: number;
+  /** Total monthly allowance in microcents */
+  allowance?: number;
+  /** When the usage was last fetched (or last attempted) */
+  fetchedAt: number;
+}
+
+/**
+ * Get the start of the next calendar month (UTC), when Puter resets monthly usage
+ */
+function getNextMonthlyReset(now: number = Date.now()): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
 /**
  * Result of account rotation attempt
  */
@@ -133,7 +191,12 @@ export class AccountRotationManager {
   private usageStats: Map<string, { lastUsedAt: number; rateLimitCount: number }> = new Map();
   private cooldownMs: number;
   private enabled: boolean;
-  private strategy: 'round-robin' | 'least-recently-used';
+  private strategy: AccountRotationStrategy;
+  private creditThreshold: number;
+  private usageCacheTtlMs: number;
+  private usageFetcher: AccountUsageFetcher;
+  private usageCache: Map<string, AccountUsageEntry> = new Map();
+  private stateStore?: CooldownStateStore;
   private currentIndex: number = 0;
   private logger?: Logger;
   
@@ -153,7 +216,72 @@ export class AccountRotationManager {
     this.cooldownMs = options.cooldownMs ?? DEFAULT_ACCOUNT_COOLDOWN_MS;
     this.enabled = options.enabled ?? true;
     this.strategy = options.strategy ?? 'round-robin';
+    this.creditThreshold = options.creditThreshold ?? DEFAULT_CREDIT_THRESHOLD;
+    this.usageCacheTtlMs = options.usageCacheTtlMs ?? DEFAULT_USAGE_CACHE_TTL_MS;
+    this.usageFetcher = options.usageFetcher ?? (account => new PuterClient(account.authToken).getMonthlyUsage());
     this.logger = logger;
+    if (options.stateStore) {
+      this.attachStateStore(options.stateStore);
+    }
+  }
+  
+  /**
+   * Start persisting cooldowns to a state store, loading the stored ones
+   * 
+   * @param store - Store shared with other processes
+   */
+  private attachStateStore(store: CooldownStateStore): void {
+    this.stateStore = store;
+    this.applyStoredState(store.load());
+  }
+  
+  /**
+   * Pick up cooldowns written or cleared by other processes since the last read
+   */
+  private syncFromStateStore(): void {
+    const state = this.stateStore?.loadIfChanged();
+    if (state) {
+      this.applyStoredState(state);
+    }
+  }
+  
+  /**
+   * Replace the in-memory cooldowns with the stored ones (so a cleared file
+   * clears them here too) and merge in the stored counters, keeping the higher
+   */
+  private applyStoredState(state: PuterCooldownState): void {
+    this.cooldownMap = new Map(
+      Object.entries(state.accounts).map(([username, entry]) => [username, { ...entry }])
+    );
+    for (const [username, stored] of Object.entries(state.accountStats)) {
+      const stats = this.usageStats.get(username) ?? { lastUsedAt: 0, rateLimitCount: 0 };
+      this.usageStats.set(username, {
+        lastUsedAt: Math.max(stats.lastUsedAt, stored.lastUsedAt),
+        rateLimitCount: Math.max(stats.rateLimitCount, stored.rateLimitCount),
+      });
+    }
+  }
+  
+  /**
+   * Write an account's cooldown entry and counters to the state store
+   * 
+   * @param username - Account to persist
+   */
+  private persistAccount(username: string): void {
+    if (!this.stateStore) return;
+    const entry = this.cooldownMap.get(username);
+    const stats = this.usageStats.get(username);
+    
+    void this.stateStore.update(state => {
+      if (entry) {
+        state.accounts[username] = { ...entry };
+      } else {
+        delete state.accounts[username];
+      }
+      if (stats) {
+        state.accountStats[username] = { ...stats };
+      }
+    });
   }
   
   /**
@@ -197,18 +325,19 @@ export class AccountRotationManager {
    * Add an account to the cooldown list
    * 
    * Each consecutive rate limit increases the cooldown duration
-   * exponentially (up to 4x base cooldown).
+   * exponentially (up to 4x base cooldown), unless the server said how long to wait.
    * 
    * @param username - Account username to add to cooldown
    * @param reason - Reason for the cooldown
+   * @param durationMs - Optional cooldown duration (e.g. from a Retry-After header)
    */
-  public addToCooldown(username: string, reason: string): void {
+  public addToCooldown(username: string, reason: string, durationMs?: number): void {
     const existing = this.cooldownMap.get(username);
     const consecutiveRateLimits = (existing?.consecutiveRateLimits ?? 0) + 1;
     
     // Exponential backoff: 1x, 2x, 3x, 4x (max)
     const multiplier = Math.min(consecutiveRateLimits, 4);
-    const duration = this.cooldownMs * multiplier;
+    const duration = durationMs ?? this.cooldownMs * multiplier;
     
     this.cooldownMap.set(username, {
       expiresAt: Date.now() + duration,
@@ -221,6 +350,8 @@ export class AccountRotationManager {
     stats.rateLimitCount++;
     this.usageStats.set(username, stats);
     
+    this.persistAccount(username);
+    
     const durationSecs = Math.round(duration / 1000);
     this.logger?.warn(`Account ${username} cooldown: ${durationSecs}s (${consecutiveRateLimits}x)`);
   }
@@ -233,6 +364,7 @@ export class AccountRotationManager {
   public removeFromCooldown(username: string): void {
     if (this.cooldownMap.has(username)) {
       this.cooldownMap.delete(username);
+      this.persistAccount(username);
       this.logger?.debug(`Account ${username} removed from cooldown`);
     }
   }
@@ -255,6 +387,7 @@ export class AccountRotationManager {
    */
   public getAccountStatuses(): AccountStatus[] {
     const accounts = this.authManager.getAllAccounts();
+    this.syncFromStateStore();
     
     return accounts.map(account => {
       const cooldownRemaining = this.getCooldownRemaining(account.username);
@@ -268,6 +401,7 @@ export class AccountRotationManager {
         cooldownReason: entry?.reason,
         lastUsedAt: stats?.lastUsedAt ?? account.lastUsed,
         rateLimitCount: stats?.rateLimitCount ?? 0,
+        remainingCredits: this.usageCache.get(account.username)?.remaining,
       };
     });
   }
@@ -325,6 +459,22 @@ export class AccountRotationManager {
         return oldest;
       }
       
+      case 'most-remaining-credits': {
+        // Pick the account with the most remaining credits (unknown usage ranks last)
+        let best = availableAccounts[0];
+        let bestRemaining = this.usageCache.get(best.username)?.remaining ?? -Infinity;
+        
+        for (const account of availableAccounts) {
+          const remaining = this.usageCache.get(account.username)?.remaining ?? -Infinity;
+          if (remaining > bestRemaining) {
+            best = account;
+            bestRemaining = remaining;
+          }
+        }
+        
+        return best;
+      }
+      
       case 'round-robin':
       default: {
         // Cycle through accounts in order
@@ -378,6 +528,11 @@ export class AccountRotationManager {
       };
     }
     
+    this.syncFromStateStore();
+    if (this.strategy === 'most-remaining-credits') {
+      await this.refreshUsage(allAccounts);
+    }
+    
     const availableAccounts = this.getAvailableAccounts();
     const accountsOnCooldown = totalAccounts - availableAccounts.length;
     
@@ -394,12 +549,16 @@ export class AccountRotationManager {
     const currentIsAvailable = currentAccount && 
       availableAccounts.some(a => a.username === currentAccount.username);
     
-    if (currentIsAvailable && accountsOnCooldown === 0) {
+    const keepCurrent = this.strategy === 'most-remaining-credits'
+      ? currentIsAvailable && !this.isLowOnCredits(currentAccount!.username)
+      : currentIsAvailable && accountsOnCooldown === 0;
+    
+    if (keepCurrent) {
       // Current account is fine and no rotation needed
       return {
         account: currentAccount!,
         wasRotated: false,
-        accountsOnCooldown: 0,
+        accountsOnCooldown,
         totalAccounts,
       };
     }
@@ -440,7 +599,9 @@ export class AccountRotationManager {
     const currentAccount = this.authManager.getActiveAccount();
     
     if (currentAccount) {
-      this.addToCooldown(currentAccount.username, error.message);
+      this.addToCooldown(currentAccount.username, error.message, getRetryAfterMs(error));
+      // Usage is likely stale - re-poll before picking by remaining credits
+      this.usageCache.delete(currentAccount.username);
     }
     
     try {
@@ -458,6 +619,9 @@ export class AccountRotationManager {
    */
   public clearCooldowns(): void {
     this.cooldownMap.clear();
+    void this.stateStore?.update(state => {
+      state.accounts = {};
+    });
     this.logger?.debug('All account cooldowns cleared');
   }
   
@@ -466,7 +630,11 @@ export class AccountRotationManager {
    */
   public resetStats(): void {
     this.usageStats.clear();
+    this.usageCache.clear();
     this.currentIndex = 0;
+    void this.stateStore?.update(state => {
+      state.accountStats = {};
+    });
     this.logger?.debug('Account rotation stats reset');
   }
   
@@ -483,19 +651,129 @@ export class AccountRotationManager {
     if (options.strategy !== undefined) {
       this.strategy = options.strategy;
     }
+    if (options.creditThreshold !== undefined) {
+      this.creditThreshold = options.creditThreshold;
+    }
+    if (options.usageCacheTtlMs !== undefined) {
+      this.usageCacheTtlMs = options.usageCacheTtlMs;
+    }
+    if (options.usageFetcher !== undefined) {
+      this.usageFetcher = options.usageFetcher;
+    }
+    if (options.stateStore !== undefined && options.stateStore !== this.stateStore) {
+      this.attachStateStore(options.stateStore);
+    }
   }
   
   /**
    * Get current configuration
    */
-  public getConfig(): Required<AccountRotationOptions> {
+  public getConfig(): Required<Omit<AccountRotationOptions, 'usageFetcher' | 'stateStore'>> {
     return {
       cooldownMs: this.cooldownMs,
       enabled: this.enabled,
       strategy: this.strategy,
+      creditThreshold: this.creditThreshold,
+      usageCacheTtlMs: this.usageCacheTtlMs,
     };
   }
   
+  /**
+   * Poll monthly usage for accounts whose cached usage has expired
+   * 
+   * Accounts reported as exhausted are put on cooldown until the
+   * monthly reset. Failed polls keep the previous value and are not
+   * retried until the cache TTL passes again.
+   * 
+   * @param accounts - Accounts to refresh
+   */
+  public async refreshUsage(accounts: PuterAccount[] = this.authManager.getAllAccounts()): Promise<void> {
+    const now = Date.now();
+    const stale = accounts.filter(account => {
+      const entry = this.usageCache.get(account.username);
+      return !entry || now - entry.fetchedAt >= this.usageCacheTtlMs;
+    });
+    
+    await Promise.all(stale.map(async account => {
+      const previous = this.usageCache.get(account.username);
+      try {
+        const usage = await this.usageFetcher(account);
+        const { remaining, monthUsageAllowance } = usage.allowanceInfo;
+        this.usageCache.set(account.username, {
+          remaining,
+          allowance: monthUsageAllowance,
+          fetchedAt: Date.now(),
+        });
+        
+        if (remaining <= 0) {
+          this.markCreditsExhausted(account.username);
+        }
+      } catch (error) {
+        this.usageCache.set(account.username, { ...previous, fetchedAt: Date.now() });
+        this.logger?.debug(
+          `Failed to get monthly usage for ${account.username}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }));
+  }
+  
+  /**
+   * Check if an account's remaining credits are below the configured threshold
+   * 
+   * @param username - Account username to check
+   * @returns true if the account is low on credits (false if usage is unknown)
+   */
+  public isLowOnCredits(username: string): boolean {
+    const entry = this.usageCache.get(username);
+    if (entry?.remaining === undefined) return false;
+    if (entry.remaining <= 0) return true;
+    if (!entry.allowance) return false;
+    
+    return entry.remaining / entry.allowance < this.creditThreshold;
+  }
+  
+  /**
+   * Proactively rotate away from the active account before it runs out of credits
+   * 
+   * Only acts with the 'most-remaining-credits' strategy; call it before
+   * sending a request.
+   * 
+   * @returns Rotation result, or null if the strategy doesn't apply or all accounts are on cooldown
+   */
+  public async rotateIfLowOnCredits(): Promise<AccountRotationResult | null> {
+    if (!this.enabled || this.strategy !== 'most-remaining-credits') {
+      return null;
+    }
+    
+    try {
+      return await this.getNextAvailableAccount();
+    } catch (e) {
+      if (e instanceof AllAccountsOnCooldownError) {
+        return null;
+      }
+      throw e;
+    }
+  }
+  
+  /**
+   * Put an account on cooldown until its monthly credits reset
+   * 
+   * @param username - Account username whose credits are exhausted
+   */
+  private markCreditsExhausted(username: string): void {
+    const resetAt = getNextMonthlyReset();
+    const existing = this.cooldownMap.get(username);
+    if (existing && existing.expiresAt >= resetAt) return;
+    
+    this.cooldownMap.set(username, {
+      expiresAt: resetAt,
+      reason: 'Monthly credits exhausted',
+      consecutiveRateLimits: existing?.consecutiveRateLimits ?? 0,
+    });
+    this.persistAccount(username);
+    this.logger?.warn(`Account ${username} has no credits left until ${new Date(resetAt).toISOString()}`);
+  }
+  
   /**
    * Check if rotation is needed (current account on cooldown)
    */
@@ -34,9 +34,23 @@ export type { PuterProvider } from './puter-provider.js';
 // iterating over the class and calling .config() on it (causes TypeError)
 export type { PuterChatLanguageModel } from './puter-chat-language-model.js';
 
+// Error classes - thrown for failed Puter requests, so callers can use instanceof
+export {
+  PuterApiError,
+  PuterAuthError,
+  PuterForbiddenError,
+  PuterNotFoundError,
+  PuterRateLimitError,
+  PuterServerError,
+} from '../errors.js';
+export type { PuterApiErrorDetails } from '../errors.js';
+
 // Settings exports - only types, no classes
 export type {
   PuterChatSettings,
   PuterProviderConfig,
   PuterChatConfig,
+  PuterStreamTimeouts,
+  PuterReasoningOptions,
+  PuterProviderOptions,
 } from './puter-chat-settings.js';
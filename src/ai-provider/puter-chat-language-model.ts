@@ -18,24 +18,45 @@ import type {
   LanguageModelV2Usage,
   LanguageModelV2Message,
   LanguageModelV2TextPart,
+  LanguageModelV2ReasoningPart,
+  LanguageModelV2FilePart,
   LanguageModelV2ToolCallPart,
   LanguageModelV2ToolResultPart,
   LanguageModelV2FunctionTool,
   LanguageModelV2CallWarning,
+  SharedV2ProviderMetadata,
 } from '@ai-sdk/provider';
-import type { PuterChatSettings, PuterChatConfig } from './puter-chat-settings.js';
+import { convertUint8ArrayToBase64 } from '@ai-sdk/provider-utils';
+import type {
+  PuterChatSettings,
+  PuterChatConfig,
+  PuterStreamTimeouts,
+  PuterReasoningOptions,
+} from './puter-chat-settings.js';
+import type { PuterContentPart } from '../types.js';
 import { 
   getGlobalFallbackManager, 
   type FallbackManager,
+  type FallbackOptions,
+  type ModelRequirements,
+  type FallbackAttempt,
   classifyError,
+  findModelEntry,
+  FallbackExhaustedError,
 } from '../fallback.js';
 import { 
   getGlobalAccountRotationManager, 
   type AccountRotationManager,
+  type AccountRotationOptions,
   type IAuthManager,
   AllAccountsOnCooldownError,
 } from '../account-rotation.js';
 import { createLogger, type Logger } from '../logger.js';
+import { getConfigDir, loadConfig, resolveStreamTimeouts } from '../config.js';
+import { getCooldownStateStore } from '../cooldown-state.js';
+import { PuterClient } from '../client.js';
+import { createAbortError, isAbortError, nextChunkWithTimeout, raceWithAbort, throwIfAborted } from '../retry.js';
+import { PuterForbiddenError, PuterApiError, toPuterApiError } from '../errors.js';
 
 // Type definitions for Puter SDK responses
 interface PuterUsage {
@@ -59,8 +80,11 @@ interface PuterToolCall {
 
 // Content block from Claude-style response
 interface PuterContentBlock {
-  type: 'text' | 'tool_use';
+  type: 'text' | 'tool_use' | 'thinking' | 'reasoning';
   text?: string;
+  // For thinking blocks
+  thinking?: string;
+  signature?: string;
   // For tool_use blocks
   id?: string;
   name?: string;
@@ -75,6 +99,9 @@ interface PuterChatResponse {
     content: string | PuterContentBlock[] | null;
     tool_calls?: PuterToolCall[];
     refusal?: string | null;
+    // Reasoning from OpenAI-compatible providers (DeepSeek, OpenRouter)
+    reasoning?: string | null;
+    reasoning_content?: string | null;
   };
   finish_reason?: string;
   usage?: PuterUsage;
@@ -95,17 +122,39 @@ interface PuterStreamChunk {
   reasoning?: string;    // Reasoning/thinking content
 }
 
+// How a request was served, reported as providerMetadata.puter
+interface PuterRequestInfo {
+  requestedModel: string;
+  usedModel: string | null;
+  wasFallback: boolean;
+  attempts: FallbackAttempt[];
+  accountUsed?: string;
+  wasRotated: boolean;
+  latencyMs: number;
+  durationMs?: number;
+}
+
+// A stream whose first chunk has already arrived
+interface StartedStream {
+  iterator: AsyncIterator<PuterStreamChunk>;
+  first: IteratorResult<PuterStreamChunk>;
+  chunkTimeoutMs: number;
+  deadline: number; // 0 = no total limit
+}
+
 // Puter SDK message format
 interface PuterSDKMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string | PuterSDKContentPart[];
+  content: string | Array<PuterSDKContentPart | PuterContentPart>;
   tool_call_id?: string;
   tool_calls?: PuterToolCall[];
 }
 
 interface PuterSDKContentPart {
-  type: 'text' | 'tool_result';
+  type: 'text' | 'tool_result' | 'thinking';
   text?: string;
+  thinking?: string;
+  signature?: string;
   tool_use_id?: string;
   content?: string;
 }
@@ -119,7 +168,30 @@ interface PuterSDKTool {
   };
 }
 
-interface PuterSDKOptions {
+// OpenAI-style tool choice (Puter translates it for each provider)
+type PuterSDKToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+// OpenAI-style response format
+type PuterSDKResponseFormat =
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: { name: string; description?: string; schema: Record<string, unknown> };
+    };
+
+// Reasoning parameters, one shape per model family
+type PuterSDKReasoningOptions = {
+  thinking?: { type: 'enabled'; budget_tokens: number };
+  reasoning_effort?: 'low' | 'medium' | 'high';
+  thinking_config?: { thinking_budget: number; include_thoughts: boolean };
+  reasoning?: { effort: 'low' | 'medium' | 'high' } | { max_tokens: number };
+};
+
+interface PuterSDKOptions extends PuterSDKReasoningOptions {
   model: string;
   stream?: boolean;
   max_tokens?: number;
@@ -127,7 +199,12 @@ interface PuterSDKOptions {
   top_p?: number;
   top_k?: number;
   stop?: string[];
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  seed?: number;
   tools?: PuterSDKTool[];
+  tool_choice?: PuterSDKToolChoice;
+  response_format?: PuterSDKResponseFormat;
 }
 
 // Type for the Puter SDK instance
@@ -142,6 +219,143 @@ interface PuterSDK {
   print: (message: unknown) => void;
 }
 
+/**
+ * Model ID patterns known to accept image/PDF input.
+ * Models not matching any pattern get a call warning when files are attached.
+ */
+const VISION_MODEL_PATTERNS: RegExp[] = [
+  /^claude-/,
+  /^gpt-4o/,
+  /^gpt-4\.1/,
+  /^gpt-5/,
+  /^o1$/,
+  /^o3$/,
+  /^o4/,
+  /^gemini-/,
+  /^openrouter:google\/gemini/,
+  /^openrouter:meta-llama\/llama-4/,
+  /^openrouter:google\/gemma-3/,
+];
+
+/**
+ * Model ID patterns known to accept `response_format` (JSON mode / JSON schema).
+ * Other models get JSON instructions in the system prompt instead.
+ */
+const JSON_RESPONSE_MODEL_PATTERNS: RegExp[] = [
+  /^gpt-4o/,
+  /^gpt-4\.1/,
+  /^gpt-5/,
+  /^o1/,
+  /^o3/,
+  /^o4/,
+  /^openrouter:openai\//,
+];
+
+/**
+ * Model families, for the sampling settings each one accepts
+ */
+type ModelFamily = 'openai' | 'anthropic' | 'google' | 'openrouter' | 'other';
+
+/**
+ * Optional sampling settings and the Puter option each one maps to
+ */
+const OPTIONAL_SETTINGS = {
+  topK: 'top_k',
+  presencePenalty: 'presence_penalty',
+  frequencyPenalty: 'frequency_penalty',
+  seed: 'seed',
+} as const;
+
+type OptionalSetting = keyof typeof OPTIONAL_SETTINGS;
+
+/**
+ * Optional sampling settings each model family accepts through Puter.
+ * Anything else is dropped with an `unsupported-setting` warning.
+ */
+const FAMILY_SETTINGS: Record<ModelFamily, readonly OptionalSetting[]> = {
+  openai: ['presencePenalty', 'frequencyPenalty', 'seed'],
+  anthropic: ['topK'],
+  google: ['topK', 'presencePenalty', 'frequencyPenalty', 'seed'],
+  openrouter: ['topK', 'presencePenalty', 'frequencyPenalty', 'seed'],
+  other: ['topK'],
+};
+
+/**
+ * OpenAI model ID patterns that accept `reasoning_effort`
+ */
+const OPENAI_REASONING_MODEL_PATTERNS: RegExp[] = [/^o\d/, /^gpt-5/, /^codex-/];
+
+/**
+ * Token budgets used for an effort level on budget-based models
+ */
+const REASONING_BUDGETS = { low: 2048, medium: 8192, high: 24576 } as const;
+
+/**
+ * Smallest thinking budget Claude accepts
+ */
+const MIN_ANTHROPIC_THINKING_BUDGET = 1024;
+
+/**
+ * Tokens left for Claude's answer when no maxOutputTokens is set
+ */
+const DEFAULT_ANTHROPIC_ANSWER_TOKENS = 4096;
+
+/**
+ * Effort level for a token budget on effort-based models
+ */
+function budgetToEffort(budgetTokens: number): 'low' | 'medium' | 'high' {
+  if (budgetTokens <= REASONING_BUDGETS.low) return 'low';
+  if (budgetTokens <= REASONING_BUDGETS.medium) return 'medium';
+  return 'high';
+}
+
+/**
+ * Work out a model's family from its ID
+ */
+function getModelFamily(model: string): ModelFamily {
+  if (model.startsWith('openrouter:')) return 'openrouter';
+  if (/^(gpt-|o\d|chatgpt-|codex-)/.test(model)) return 'openai';
+  if (model.startsWith('claude-')) return 'anthropic';
+  if (/^(gemini-|gemma-)/.test(model)) return 'google';
+  return 'other';
+}
+
+/**
+ * Add a call warning unless an identical one was already recorded
+ * (fallback attempts build options once per model).
+ */
+function addWarning(warnings: LanguageModelV2CallWarning[], warning: LanguageModelV2CallWarning): void {
+  const key = JSON.stringify(warning);
+  if (!warnings.some(existing => JSON.stringify(existing) === key)) {
+    warnings.push(warning);
+  }
+}
+
+/**
+ * Convert request details to AI SDK provider metadata (JSON values only)
+ */
+function toProviderMetadata(info: PuterRequestInfo): SharedV2ProviderMetadata {
+  return {
+    puter: {
+      requestedModel: info.requestedModel,
+      usedModel: info.usedModel,
+      wasFallback: info.wasFallback,
+      attempts: info.attempts.map(attempt => ({
+        model: attempt.model,
+        success: attempt.success,
+        error: attempt.error ?? null,
+        errorType: attempt.errorType ?? null,
+        httpStatus: attempt.httpStatus ?? null,
+        durationMs: attempt.durationMs ?? null,
+      })),
+      accountUsed: info.accountUsed ?? null,
+      wasRotated: info.wasRotated,
+      latencyMs: info.latencyMs,
+      ...(info.durationMs !== undefined ? { durationMs: info.durationMs } : {}),
+    },
+  };
+}
+
 /**
  * Puter Chat Language Model implementing LanguageModelV2.
  * Uses the official @heyputer/puter.js SDK for all API calls.
@@ -165,6 +379,7 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
   private readonly _modelConfig: PuterChatConfig;
   private puterInstance: PuterSDK | null = null;
   private readonly fallbackManager: FallbackManager;
+  private fallbackConfigLoad: Promise<void> | null = null;
   private accountRotationManager: AccountRotationManager | null = null;
   private readonly logger: Logger;
 
@@ -178,12 +393,16 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     this._modelConfig = config;
     this.provider = config.provider;
     
-    // Initialize fallback manager with config options
-    this.fallbackManager = getGlobalFallbackManager(config.fallback);
-    
     // Create logger (uses console by default, can be configured)
     this.logger = createLogger({ debug: false }); // Will be quiet unless debug enabled
     
+    // Fallback settings are scoped to this model's config; cooldowns are shared
+    // with other models and with other processes through the state file in
+    // the config directory
+    this.fallbackManager = getGlobalFallbackManager({
+      stateStore: getCooldownStateStore(config.configDir ?? getConfigDir(), this.logger),
+    }).withOptions(config.fallback ?? {});
+    
     // AccountRotationManager will be initialized lazily when needed
     // (requires auth manager which may not be available at construction time)
   }
@@ -198,21 +417,22 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     }
 
     try {
-      // Load auth manager from config directory
-      const os = await import('os');
-      const path = await import('path');
-      const configDir = path.join(os.homedir(), '.config', 'opencode');
+      const configDir = this._modelConfig.configDir ?? getConfigDir();
+      const rotationOptions = await this.getAccountRotationOptions(configDir);
+      if (rotationOptions.enabled === false) {
+        return null;
+      }
       
-      // Dynamically import auth module to avoid circular dependencies
-      const { createPuterAuthManager } = await import('../auth.js');
-      const authManager = createPuterAuthManager(configDir);
-      await authManager.init();
+      // Dynamically import auth module to avoid circular dependencies.
+      // The shared manager is decrypted once and follows changes made by other processes.
+      const { getSharedAuthManager } = await import('../auth.js');
+      const authManager = await getSharedAuthManager(configDir);
       
       // Only create rotation manager if we have multiple accounts
       if (authManager.getAllAccounts().length > 1) {
         this.accountRotationManager = getGlobalAccountRotationManager(
           authManager as IAuthManager,
-          { enabled: true },
+          { ...rotationOptions, stateStore: getCooldownStateStore(configDir, this.logger) },
           this.logger
         );
         this.logger.debug(`Account rotation enabled with ${authManager.getAllAccounts().length} accounts`);
@@ -235,9 +455,78 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
   }
 
   /**
-   * Check if an error indicates account-level exhaustion (403 Forbidden).
+   * Resolve fallback options: puter.json `fallback_*` settings, chains and
+   * aliases, overridden by the `fallback` option passed to createPuter.
+   */
+  private async getFallbackOptions(configDir: string): Promise<FallbackOptions> {
+    const fileConfig = await loadConfig(configDir);
+    const overrides = this._modelConfig.fallback ?? {};
+    
+    return {
+      enabled: overrides.enabled ?? fileConfig.fallback_enabled,
+      fallbackModels: overrides.fallbackModels ?? fileConfig.fallback_models,
+      cooldownMs: overrides.cooldownMs ?? fileConfig.fallback_cooldown_ms,
+      maxCooldownMs: overrides.maxCooldownMs ?? fileConfig.fallback_max_cooldown_ms,
+      failureThreshold: overrides.failureThreshold ?? fileConfig.fallback_failure_threshold,
+      fallbackChains: overrides.fallbackChains ?? fileConfig.fallback_chains,
+      modelAliases: overrides.modelAliases ?? fileConfig.model_aliases,
+    };
+  }
+
+  /**
+   * Apply puter.json fallback settings to the fallback manager (once per model instance).
+   * Must run before model aliases are resolved.
+   */
+  private async applyFallbackConfig(): Promise<void> {
+    this.fallbackConfigLoad ??= this.getFallbackOptions(this._modelConfig.configDir ?? getConfigDir())
+      .then(options => this.fallbackManager.configure(options))
+      .catch(error => {
+        this.logger.debug(`Failed to load fallback settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+    await this.fallbackConfigLoad;
+  }
+
+  /**
+   * Resolve account rotation options: puter.json settings, overridden by
+   * the `accountRotation` option passed to createPuter.
+   */
+  private async getAccountRotationOptions(configDir: string): Promise<AccountRotationOptions> {
+    const fileConfig = await loadConfig(configDir);
+    const overrides = this._modelConfig.accountRotation ?? {};
+    
+    return {
+      enabled: overrides.enabled ?? fileConfig.account_rotation_enabled,
+      strategy: overrides.strategy ?? fileConfig.account_rotation_strategy,
+      cooldownMs: overrides.cooldownMs ?? fileConfig.account_rotation_cooldown_ms,
+      creditThreshold: overrides.creditThreshold ?? fileConfig.account_rotation_credit_threshold,
+      usageCacheTtlMs: overrides.usageCacheTtlMs ?? fileConfig.account_rotation_usage_cache_ms,
+      usageFetcher: overrides.usageFetcher,
+    };
+  }
+
+  /**
+   * Resolve the streaming timeouts for a model.
+   * 
+   * Precedence (per field): model settings, provider per-model overrides,
+   * provider defaults, puter.json `stream_timeouts`, puter.json
+   * `stream_*_timeout_ms`, built-in defaults.
+   */
+  private async getStreamTimeouts(model: string): Promise<Required<PuterStreamTimeouts>> {
+    const fileConfig = await loadConfig(this._modelConfig.configDir ?? getConfigDir());
+    
+    return resolveStreamTimeouts(fileConfig, model, [
+      this.settings.streamTimeouts ?? {},
+      findModelEntry(this._modelConfig.modelStreamTimeouts, model) ?? {},
+      this._modelConfig.streamTimeouts ?? {},
+    ]);
+  }
+
+  /**
+   * Check if an error indicates account-level exhaustion (402/403).
+   * Typed errors are judged by status; message checks cover untyped errors.
    */
   private isAccountExhaustedError(error: unknown): boolean {
+    if (error instanceof PuterApiError) return error instanceof PuterForbiddenError;
     if (!(error instanceof Error)) return false;
     const msg = error.message.toLowerCase();
     const errorType = classifyError(error);
@@ -254,16 +543,37 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
    * 4. Retry the operation
    * 
    * If all accounts are exhausted, lets the error propagate (fallback manager will handle it).
+   * An aborted `signal` stops rotation immediately with an AbortError.
+   * `shouldRotate` widens which errors move on to the next account (default: 402/403 only).
    */
   private async executeWithAccountRotation<T>(
     operation: () => Promise<T>,
-    maxRotations: number = 3
+    maxRotations: number = 3,
+    signal?: AbortSignal,
+    shouldRotate: (error: unknown) => boolean = error => this.isAccountExhaustedError(error)
   ): Promise<{ result: T; wasRotated: boolean; accountUsed?: string }> {
     let rotations = 0;
     let wasRotated = false;
     let lastError: Error | null = null;
 
+    // Move off an account before it runs out of credits (most-remaining-credits only)
+    const proactiveManager = await this.getAccountRotationManager();
+    if (proactiveManager) {
+      try {
+        const proactive = await proactiveManager.rotateIfLowOnCredits();
+        if (proactive?.wasRotated) {
+          this.logger.info(`Account ${proactive.previousUsername} low on credits, rotated to ${proactive.account.username}`);
+          this.resetPuterInstance();
+          wasRotated = true;
+        }
+      } catch (error) {
+        this.logger.debug(`Proactive account rotation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
     while (rotations <= maxRotations) {
+      throwIfAborted(signal);
+      
       try {
         const result = await operation();
         
@@ -282,10 +592,15 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
           accountUsed: (await this.getAccountRotationManager())?.getSummary().currentAccount ?? undefined
         };
       } catch (error) {
+        // Cancelled by the caller - never rotate accounts for an abort
+        if (signal?.aborted) {
+          throw createAbortError(signal);
+        }
+        
         lastError = error instanceof Error ? error : new Error(String(error));
         
         // Check if this is an account exhaustion error (403)
-        if (!this.isAccountExhaustedError(error)) {
+        if (!shouldRotate(error)) {
           // Not an account error, let it propagate
           throw error;
         }
@@ -353,19 +668,147 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     return this.puterInstance;
   }
 
+  /**
+   * Call the Puter SDK chat API for a model.
+   * 
+   * Rejections are converted to typed PuterApiErrors. The SDK doesn't accept
+   * a signal, so we stop waiting as soon as we're aborted.
+   */
+  private async callPuterChat<T extends PuterChatResponse | AsyncIterable<PuterStreamChunk>>(
+    messages: PuterSDKMessage[],
+    sdkOptions: PuterSDKOptions,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const puter = await this.initPuterSDK();
+    try {
+      return await raceWithAbort(puter.ai.chat(messages, sdkOptions) as Promise<T>, signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw toPuterApiError(error, {
+        model: sdkOptions.model,
+        account: this.accountRotationManager?.getSummary().currentAccount ?? undefined,
+      });
+    }
+  }
+
+  /**
+   * Work out which capabilities a request needs, so model fallback only
+   * picks models that can serve it.
+   * 
+   * The context window estimate uses ~4 characters per token of text
+   * plus the requested output tokens.
+   */
+  private getModelRequirements(
+    options: LanguageModelV2CallOptions,
+    messages: PuterSDKMessage[]
+  ): ModelRequirements {
+    let textLength = 0;
+    let hasFiles = false;
+    
+    for (const message of messages) {
+      if (typeof message.content === 'string') {
+        textLength += message.content.length;
+        continue;
+      }
+      for (const part of message.content) {
+        if (part.type === 'image_url' || part.type === 'file') {
+          hasFiles = true;
+        } else if (typeof part.text === 'string') {
+          textLength += part.text.length;
+        }
+      }
+    }
+    
+    const usesTools = (options.tools?.length ?? 0) > 0 && options.toolChoice?.type !== 'none';
+    const maxOutputTokens = options.maxOutputTokens ?? this.settings.maxTokens;
+    
+    return {
+      tools: usesTools,
+      vision: hasFiles,
+      minContextWindow: Math.ceil(textLength / 4) + (maxOutputTokens ?? 0),
+      minOutputTokens: maxOutputTokens,
+    };
+  }
+
+  /**
+   * Load model capability data in the background (cached for an hour).
+   * Requests never wait for it: until it arrives, and if it fails,
+   * fallbacks with unknown capabilities are still tried.
+   */
+  private refreshModelCatalog(): void {
+    void this.fallbackManager.ensureModelCatalog(async () => {
+      const headers = await this._modelConfig.headers();
+      const authToken = (headers['Authorization'] || '').replace('Bearer ', '');
+      // One quick attempt - a slow models endpoint shouldn't hold up the catalog for long
+      return new PuterClient(authToken, { max_retries: 0, quiet_mode: true }).listModels();
+    }, this.logger);
+  }
+
   /**
    * Supported URL patterns for native file handling.
-   * Puter doesn't natively handle URLs, so we return an empty map.
+   * Puter fetches http(s) images and PDFs itself, so the AI SDK can pass
+   * those URLs through instead of downloading them first.
    */
   get supportedUrls(): Record<string, RegExp[]> {
-    return {};
+    return {
+      'image/*': [/^https?:\/\/.+$/],
+      'application/pdf': [/^https?:\/\/.+$/],
+    };
+  }
+
+  /**
+   * Check whether a model is known to accept image/PDF input.
+   */
+  private supportsVision(model: string): boolean {
+    return VISION_MODEL_PATTERNS.some(pattern => pattern.test(model));
+  }
+
+  /**
+   * Convert an AI SDK file part to Puter's multimodal content format.
+   * Images become `image_url` parts, PDFs become `file` parts. Returns
+   * null (and records a warning) for media types Puter can't consume.
+   */
+  private convertFilePart(
+    part: LanguageModelV2FilePart,
+    warnings: LanguageModelV2CallWarning[]
+  ): PuterContentPart | null {
+    // AI SDK may pass wildcards when the media type couldn't be detected
+    const mediaType = part.mediaType === 'image/*' ? 'image/jpeg' : part.mediaType;
+    const url = part.data instanceof URL
+      ? part.data.toString()
+      : `data:${mediaType};base64,${typeof part.data === 'string' ? part.data : convertUint8ArrayToBase64(part.data)}`;
+
+    if (mediaType.startsWith('image/')) {
+      return { type: 'image_url', image_url: { url } };
+    }
+
+    if (mediaType === 'application/pdf') {
+      return {
+        type: 'file',
+        file: { filename: part.filename ?? 'document.pdf', file_data: url },
+      };
+    }
+
+    warnings.push({
+      type: 'other',
+      message: `File part with media type ${part.mediaType} is not supported by Puter and was dropped`,
+    });
+    return null;
   }
 
   /**
    * Convert AI SDK prompt to Puter SDK message format.
+   * 
+   * @param prompt - AI SDK prompt messages
+   * @param warnings - Collects warnings for content that can't be forwarded as-is
    */
-  private convertPromptToMessages(prompt: LanguageModelV2Message[]): PuterSDKMessage[] {
+  private convertPromptToMessages(
+    prompt: LanguageModelV2Message[],
+    warnings: LanguageModelV2CallWarning[] = []
+  ): PuterSDKMessage[] {
     const messages: PuterSDKMessage[] = [];
+    let warnedAboutVision = false;
+    let warnedAboutReasoning = false;
 
     for (const message of prompt) {
       if (message.role === 'system') {
@@ -374,14 +817,43 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
           content: message.content,
         });
       } else if (message.role === 'user') {
-        // Extract text from user message parts
-        const textParts = message.content
-          .filter((part): part is LanguageModelV2TextPart => part.type === 'text')
-          .map(part => part.text);
-        
+        const hasFiles = message.content.some(part => part.type === 'file');
+
+        if (!hasFiles) {
+          // Plain text message - keep the simple string format
+          const textParts = message.content
+            .filter((part): part is LanguageModelV2TextPart => part.type === 'text')
+            .map(part => part.text);
+          
+          messages.push({
+            role: 'user',
+            content: textParts.join('\n'),
+          });
+          continue;
+        }
+
+        if (!warnedAboutVision && !this.supportsVision(this.fallbackManager.resolveModelAlias(this.modelId))) {
+          warnedAboutVision = true;
+          warnings.push({
+            type: 'other',
+            message: `Model ${this.modelId} may not support image or file input; attachments are forwarded but may be ignored`,
+          });
+        }
+
+        // Multimodal message - preserve part order
+        const parts: PuterContentPart[] = [];
+        for (const part of message.content) {
+          if (part.type === 'text') {
+            parts.push({ type: 'text', text: part.text });
+          } else if (part.type === 'file') {
+            const converted = this.convertFilePart(part, warnings);
+            if (converted) parts.push(converted);
+          }
+        }
+
         messages.push({
           role: 'user',
-          content: textParts.join('\n'),
+          content: parts,
         });
       } else if (message.role === 'assistant') {
         // Handle assistant messages with potential tool calls
@@ -392,9 +864,27 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
         const toolCallParts = message.content
           .filter((part): part is LanguageModelV2ToolCallPart => part.type === 'tool-call');
 
+        // Claude only takes its thinking back with the signature it was sent with
+        const thinkingBlocks: PuterSDKContentPart[] = [];
+        for (const part of message.content.filter((p): p is LanguageModelV2ReasoningPart => p.type === 'reasoning')) {
+          const signature = part.providerOptions?.puter?.signature;
+          if (typeof signature === 'string') {
+            thinkingBlocks.push({ type: 'thinking', thinking: part.text, signature });
+          } else if (!warnedAboutReasoning && getModelFamily(this.fallbackManager.resolveModelAlias(this.modelId)) === 'anthropic') {
+            warnedAboutReasoning = true;
+            warnings.push({
+              type: 'other',
+              message: 'Reasoning without a thinking signature cannot be sent back to Claude and was dropped',
+            });
+          }
+        }
+
+        const text = textParts.join('\n');
         const puterMessage: PuterSDKMessage = {
           role: 'assistant',
-          content: textParts.join('\n') || '',
+          content: thinkingBlocks.length > 0
+            ? [...thinkingBlocks, ...(text ? [{ type: 'text' as const, text }] : [])]
+            : text,
         };
 
         if (toolCallParts.length > 0) {
@@ -456,23 +946,283 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     }));
   }
 
+  /**
+   * Convert the AI SDK tool choice to Puter's (OpenAI-style) format.
+   * Tool choices that require tools are dropped with a warning when no
+   * function tools were provided.
+   */
+  private convertToolChoice(
+    toolChoice: LanguageModelV2CallOptions['toolChoice'],
+    tools: PuterSDKTool[] | undefined,
+    warnings: LanguageModelV2CallWarning[]
+  ): PuterSDKToolChoice | undefined {
+    if (!toolChoice) return undefined;
+    
+    if (!tools) {
+      if (toolChoice.type === 'required' || toolChoice.type === 'tool') {
+        addWarning(warnings, {
+          type: 'unsupported-setting',
+          setting: 'toolChoice',
+          details: 'No function tools were provided, so the tool choice was dropped',
+        });
+      }
+      return undefined;
+    }
+    
+    switch (toolChoice.type) {
+      case 'auto':
+      case 'none':
+      case 'required':
+        return toolChoice.type;
+      case 'tool':
+        return { type: 'function', function: { name: toolChoice.toolName } };
+    }
+  }
+
+  /**
+   * Convert a JSON response format for models that support it natively.
+   * 
+   * @returns The response format, or undefined if the model needs prompt instructions instead
+   */
+  private convertResponseFormat(
+    responseFormat: LanguageModelV2CallOptions['responseFormat'],
+    model: string
+  ): PuterSDKResponseFormat | undefined {
+    if (responseFormat?.type !== 'json') return undefined;
+    if (!JSON_RESPONSE_MODEL_PATTERNS.some(pattern => pattern.test(model))) return undefined;
+    
+    if (!responseFormat.schema) {
+      return { type: 'json_object' };
+    }
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: responseFormat.name ?? 'response',
+        description: responseFormat.description,
+        schema: responseFormat.schema as Record<string, unknown>,
+      },
+    };
+  }
+
+  /**
+   * Add JSON output instructions (with the schema) to the system prompt,
+   * for JSON responses on models without a native JSON mode.
+   * 
+   * @param messages - Converted messages
+   * @param options - AI SDK call options
+   * @param sdkOptions - Options built for the model
+   * @param warnings - Collects a warning when instructions are used instead of native support
+   * @returns The messages to send
+   */
+  private applyResponseFormatInstructions(
+    messages: PuterSDKMessage[],
+    options: LanguageModelV2CallOptions,
+    sdkOptions: PuterSDKOptions,
+    warnings: LanguageModelV2CallWarning[]
+  ): PuterSDKMessage[] {
+    const responseFormat = options.responseFormat;
+    if (responseFormat?.type !== 'json' || sdkOptions.response_format) return messages;
+    
+    addWarning(warnings, {
+      type: 'unsupported-setting',
+      setting: 'responseFormat',
+      details: `${sdkOptions.model} has no native JSON mode - the JSON ${responseFormat.schema ? 'schema' : 'requirement'} was added to the system prompt instead`,
+    });
+    
+    const lines = ['Respond only with valid JSON, without any other text or code fences.'];
+    if (responseFormat.name || responseFormat.description) {
+      lines.push(`The JSON describes: ${[responseFormat.name, responseFormat.description].filter(Boolean).join(' - ')}`);
+    }
+    if (responseFormat.schema) {
+      lines.push(`It must match this JSON schema:\n${JSON.stringify(responseFormat.schema)}`);
+    }
+    const instructions = lines.join('\n');
+    
+    const [first, ...rest] = messages;
+    if (first?.role === 'system' && typeof first.content === 'string') {
+      return [{ ...first, content: `${first.content}\n\n${instructions}` }, ...rest];
+    }
+    return [{ role: 'system', content: instructions }, ...messages];
+  }
+
+  /**
+   * Forward the optional sampling settings the model's family supports,
+   * warning about the rest.
+   */
+  private applyOptionalSettings(
+    options: LanguageModelV2CallOptions,
+    sdkOptions: PuterSDKOptions,
+    warnings: LanguageModelV2CallWarning[]
+  ): void {
+    const family = getModelFamily(sdkOptions.model);
+    const values: Record<OptionalSetting, number | undefined> = {
+      topK: options.topK ?? this.settings.topK,
+      presencePenalty: options.presencePenalty,
+      frequencyPenalty: options.frequencyPenalty,
+      seed: options.seed,
+    };
+    
+    for (const setting of Object.keys(OPTIONAL_SETTINGS) as OptionalSetting[]) {
+      const value = values[setting];
+      if (value === undefined) continue;
+      
+      if (FAMILY_SETTINGS[family].includes(setting)) {
+        sdkOptions[OPTIONAL_SETTINGS[setting]] = value;
+      } else {
+        addWarning(warnings, {
+          type: 'unsupported-setting',
+          setting,
+          details: `${setting} is not supported for ${sdkOptions.model} and was dropped`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Read `providerOptions.puter.reasoning`, dropping invalid fields with a warning.
+   */
+  private getReasoningOptions(
+    options: LanguageModelV2CallOptions,
+    warnings: LanguageModelV2CallWarning[]
+  ): PuterReasoningOptions | undefined {
+    const raw = options.providerOptions?.puter?.reasoning;
+    if (raw === undefined || raw === null) return undefined;
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      addWarning(warnings, { type: 'other', message: 'providerOptions.puter.reasoning must be an object and was ignored' });
+      return undefined;
+    }
+    
+    const { effort, budgetTokens } = raw as Record<string, unknown>;
+    const reasoning: PuterReasoningOptions = {};
+    
+    if (effort === 'low' || effort === 'medium' || effort === 'high') {
+      reasoning.effort = effort;
+    } else if (effort !== undefined) {
+      addWarning(warnings, { type: 'other', message: `Invalid reasoning effort ${JSON.stringify(effort)} was ignored` });
+    }
+    
+    if (typeof budgetTokens === 'number' && Number.isInteger(budgetTokens) && budgetTokens > 0) {
+      reasoning.budgetTokens = budgetTokens;
+    } else if (budgetTokens !== undefined) {
+      addWarning(warnings, { type: 'other', message: `Invalid reasoning budgetTokens ${JSON.stringify(budgetTokens)} was ignored` });
+    }
+    
+    return reasoning.effort || reasoning.budgetTokens ? reasoning : undefined;
+  }
+
+  /**
+   * Map the reasoning options to the model family's parameters.
+   *
+   * Claude's extended thinking doesn't allow sampling settings, so they're
+   * dropped with a warning, and max_tokens is set to the thinking budget plus
+   * room for the answer (maxOutputTokens, or a default allowance).
+   */
+  private applyReasoning(
+    options: LanguageModelV2CallOptions,
+    sdkOptions: PuterSDKOptions,
+    warnings: LanguageModelV2CallWarning[]
+  ): void {
+    const reasoning = this.getReasoningOptions(options, warnings);
+    if (!reasoning) return;
+    
+    const model = sdkOptions.model;
+    const budget = reasoning.budgetTokens ?? REASONING_BUDGETS[reasoning.effort ?? 'medium'];
+    const effort = reasoning.effort ?? budgetToEffort(budget);
+    
+    switch (getModelFamily(model)) {
+      case 'anthropic': {
+        const budgetTokens = Math.max(budget, MIN_ANTHROPIC_THINKING_BUDGET);
+        sdkOptions.thinking = { type: 'enabled', budget_tokens: budgetTokens };
+        // Claude requires max_tokens above the budget, so always send it
+        sdkOptions.max_tokens = (sdkOptions.max_tokens ?? DEFAULT_ANTHROPIC_ANSWER_TOKENS) + budgetTokens;
+        for (const [setting, key] of [['temperature', 'temperature'], ['topP', 'top_p'], ['topK', 'top_k']] as const) {
+          if (sdkOptions[key] === undefined) continue;
+          delete sdkOptions[key];
+          addWarning(warnings, {
+            type: 'unsupported-setting',
+            setting,
+            details: `${setting} is not supported with extended thinking and was dropped`,
+          });
+        }
+        return;
+      }
+      case 'openai':
+        if (OPENAI_REASONING_MODEL_PATTERNS.some(pattern => pattern.test(model))) {
+          sdkOptions.reasoning_effort = effort;
+          return;
+        }
+        break;
+      case 'google':
+        if (/^gemini-(2\.5|[3-9])/.test(model)) {
+          sdkOptions.thinking_config = { thinking_budget: budget, include_thoughts: true };
+          return;
+        }
+        break;
+      case 'openrouter':
+        sdkOptions.reasoning = reasoning.budgetTokens !== undefined
+          ? { max_tokens: reasoning.budgetTokens }
+          : { effort };
+        return;
+    }
+    
+    addWarning(warnings, {
+      type: 'unsupported-setting',
+      setting: 'providerOptions',
+      details: `Reasoning controls are not supported for ${model} and were dropped`,
+    });
+  }
+
+  /**
+   * Warn about call options that can't be forwarded through the Puter SDK:
+   * custom headers and provider-defined tools. The AI SDK's own
+   * `user-agent` header is sent on every call and is ignored.
+   */
+  private validateCallOptions(
+    options: LanguageModelV2CallOptions,
+    warnings: LanguageModelV2CallWarning[]
+  ): void {
+    const customHeaders = Object.entries(options.headers ?? {})
+      .filter(([name, value]) => value !== undefined && name.toLowerCase() !== 'user-agent')
+      .map(([name]) => name);
+    if (customHeaders.length > 0) {
+      addWarning(warnings, {
+        type: 'unsupported-setting',
+        setting: 'headers',
+        details: `Custom headers cannot be sent through the Puter SDK and were dropped: ${customHeaders.join(', ')}`,
+      });
+    }
+    
+    for (const tool of options.tools ?? []) {
+      if (tool.type === 'provider-defined') {
+        addWarning(warnings, {
+          type: 'unsupported-tool',
+          tool,
+          details: 'Provider-defined tools are not supported by Puter',
+        });
+      }
+    }
+  }
+
   /**
    * Build options for Puter SDK chat call.
    * 
    * @param options - AI SDK call options
    * @param streaming - Whether to enable streaming
    * @param modelOverride - Optional model to use instead of this.modelId (for fallback)
+   * @param warnings - Collects warnings for settings that are dropped
    */
   private buildSDKOptions(
     options: LanguageModelV2CallOptions, 
     streaming: boolean,
-    modelOverride?: string
+    modelOverride?: string,
+    warnings: LanguageModelV2CallWarning[] = []
   ): PuterSDKOptions {
     // Filter to only function tools
     const functionTools = options.tools?.filter(
       (tool): tool is LanguageModelV2FunctionTool => tool.type === 'function'
     );
     const tools = this.convertTools(functionTools);
+    this.validateCallOptions(options, warnings);
 
     const sdkOptions: PuterSDKOptions = {
       model: modelOverride ?? this.modelId,
@@ -489,14 +1239,21 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     const topP = options.topP ?? this.settings.topP;
     if (topP !== undefined) sdkOptions.top_p = topP;
 
-    const topK = options.topK ?? this.settings.topK;
-    if (topK !== undefined) sdkOptions.top_k = topK;
+    this.applyOptionalSettings(options, sdkOptions, warnings);
 
     const stop = options.stopSequences ?? this.settings.stopSequences;
     if (stop !== undefined) sdkOptions.stop = stop;
 
+    this.applyReasoning(options, sdkOptions, warnings);
+
     if (tools !== undefined) sdkOptions.tools = tools;
 
+    const toolChoice = this.convertToolChoice(options.toolChoice, tools, warnings);
+    if (toolChoice !== undefined) sdkOptions.tool_choice = toolChoice;
+
+    const responseFormat = this.convertResponseFormat(options.responseFormat, sdkOptions.model);
+    if (responseFormat !== undefined) sdkOptions.response_format = responseFormat;
+
     return sdkOptions;
   }
 
@@ -549,6 +1306,32 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     return '';
   }
 
+  /**
+   * Extract reasoning from a response: Claude-style thinking blocks, or the
+   * `reasoning` / `reasoning_content` fields of OpenAI-compatible providers.
+   * Thinking blocks keep their signature so they can be sent back to Claude.
+   */
+  private extractReasoningContent(
+    message: PuterChatResponse['message']
+  ): Array<{ text: string; signature?: string }> {
+    if (!message) return [];
+    
+    if (Array.isArray(message.content)) {
+      const blocks = message.content
+        .map(block => {
+          if (block.type === 'thinking') return { text: block.thinking, signature: block.signature };
+          if (block.type === 'reasoning') return { text: block.text };
+          return undefined;
+        })
+        .filter((block): block is { text: string; signature?: string } =>
+          typeof block?.text === 'string' && block.text.length > 0);
+      if (blocks.length > 0) return blocks;
+    }
+    
+    const reasoning = message.reasoning_content ?? message.reasoning;
+    return typeof reasoning === 'string' && reasoning.length > 0 ? [{ text: reasoning }] : [];
+  }
+
   /**
    * Non-streaming generation using Puter SDK.
    * 
@@ -564,27 +1347,41 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     finishReason: LanguageModelV2FinishReason;
     usage: LanguageModelV2Usage;
     warnings: Array<LanguageModelV2CallWarning>;
+    providerMetadata?: SharedV2ProviderMetadata;
     request?: { body?: unknown };
     response?: { body?: unknown };
   }> {
-    const messages = this.convertPromptToMessages(options.prompt);
+    const startTime = Date.now();
+    await this.applyFallbackConfig();
+    const primaryModel = this.fallbackManager.resolveModelAlias(this.modelId);
     const warnings: LanguageModelV2CallWarning[] = [];
+    const messages = this.convertPromptToMessages(options.prompt, warnings);
     
     // Check if fallback is disabled for this request
     const useFallback = !this.settings.disableFallback;
     
     // Define the core chat operation (for a specific model)
+    // Settings warnings only count for the model that answers
     const executeChatForModel = async (model: string): Promise<PuterChatResponse> => {
-      const puter = await this.initPuterSDK();
-      const sdkOptions = this.buildSDKOptions(options, false, model);
-      return await puter.ai.chat(messages, sdkOptions) as PuterChatResponse;
+      const modelWarnings: LanguageModelV2CallWarning[] = [];
+      const sdkOptions = this.buildSDKOptions(options, false, model, modelWarnings);
+      const modelMessages = this.applyResponseFormatInstructions(messages, options, sdkOptions, modelWarnings);
+      const response = await this.callPuterChat<PuterChatResponse>(modelMessages, sdkOptions, options.abortSignal);
+      modelWarnings.forEach(warning => addWarning(warnings, warning));
+      return response;
     };
     
     // Wrap with account rotation: try other accounts before falling back to free models
+    let rotated = false;
+    let account: string | undefined;
     const executeChatWithRotation = async (model: string): Promise<PuterChatResponse> => {
       const { result, wasRotated, accountUsed } = await this.executeWithAccountRotation(
-        () => executeChatForModel(model)
+        () => executeChatForModel(model),
+        undefined,
+        options.abortSignal
       );
+      rotated ||= wasRotated;
+      account = accountUsed;
       
       if (wasRotated && accountUsed) {
         warnings.push({
@@ -597,19 +1394,24 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     };
     
     let response: PuterChatResponse;
-    let actualModelUsed = this.modelId;
+    let actualModelUsed = primaryModel;
     let wasFallback = false;
+    let attempts: FallbackAttempt[];
     
     if (useFallback) {
       // Execute with account rotation + model fallback support
+      this.refreshModelCatalog();
       const fallbackResult = await this.fallbackManager.executeWithFallback(
         this.modelId,
         executeChatWithRotation,
-        this.logger
+        this.logger,
+        options.abortSignal,
+        this.getModelRequirements(options, messages)
       );
       response = fallbackResult.result;
       actualModelUsed = fallbackResult.usedModel;
       wasFallback = fallbackResult.wasFallback;
+      attempts = fallbackResult.attempts;
       
       if (wasFallback) {
         // Add a warning that fallback was used
@@ -620,21 +1422,21 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
       }
     } else {
       // Execute without fallback (but still with account rotation)
-      const { result, wasRotated, accountUsed } = await this.executeWithAccountRotation(
-        () => executeChatForModel(this.modelId)
-      );
-      response = result;
-      
-      if (wasRotated && accountUsed) {
-        warnings.push({
-          type: 'other',
-          message: `Rotated to account: ${accountUsed}`,
-        });
-      }
+      const attemptStart = Date.now();
+      response = await executeChatWithRotation(primaryModel);
+      attempts = [{ model: primaryModel, success: true, durationMs: Date.now() - attemptStart }];
     }
+    const latencyMs = Date.now() - startTime;
 
     const content: LanguageModelV2Content[] = [];
 
+    // Reasoning comes before the answer it led to
+    for (const { text, signature } of this.extractReasoningContent(response.message)) {
+      content.push(signature
+        ? { type: 'reasoning', text, providerMetadata: { puter: { signature } } }
+        : { type: 'reasoning', text });
+    }
+
     // Extract text content (handles both string and array formats)
     const textContent = this.extractTextContent(response.message?.content);
     if (textContent) {
@@ -675,6 +1477,15 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
       finishReason: this.mapFinishReason(response.finish_reason),
       usage: this.mapUsage(response.usage),
       warnings,
+      providerMetadata: toProviderMetadata({
+        requestedModel: this.modelId,
+        usedModel: actualModelUsed,
+        wasFallback,
+        attempts,
+        accountUsed: account,
+        wasRotated: rotated,
+        latencyMs,
+      }),
       request: { body: { messages, model: actualModelUsed } },
       response: {
         body: response,
@@ -690,31 +1501,75 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
    * 2. If account exhausted (403), rotate to next account and retry
    * 3. If all accounts exhausted, fall back to free models
    * 
+   * A stream counts as started once its first chunk arrives, so errors and
+   * first-chunk timeouts also move on to the next account/model. If every
+   * attempt fails, the stream contains a single error part; a stream that
+   * stalls after it started ends with an error part as well.
+   * 
    * Set `disableFallback` in settings to skip model fallback.
    */
   async doStream(options: LanguageModelV2CallOptions): Promise<{
     stream: ReadableStream<LanguageModelV2StreamPart>;
     request?: { body?: unknown };
   }> {
-    const messages = this.convertPromptToMessages(options.prompt);
+    const startTime = Date.now();
+    await this.applyFallbackConfig();
+    const primaryModel = this.fallbackManager.resolveModelAlias(this.modelId);
     const warnings: LanguageModelV2CallWarning[] = [];
+    const messages = this.convertPromptToMessages(options.prompt, warnings);
     const generateId = this._modelConfig.generateId;
     
     // Check if fallback is disabled for this request
     const useFallback = !this.settings.disableFallback;
     
-    // Define the core stream operation (for a specific model)
-    const initiateStreamForModel = async (model: string): Promise<AsyncIterable<PuterStreamChunk>> => {
-      const puter = await this.initPuterSDK();
-      const sdkOptions = this.buildSDKOptions(options, true, model);
-      return await puter.ai.chat(messages, sdkOptions) as AsyncIterable<PuterStreamChunk>;
+    const abortSignal = options.abortSignal;
+    
+    // Start the stream for a model and wait for its first chunk. Errors and
+    // timeouts before any content count as a failed attempt, so account
+    // rotation and model fallback move on to the next account/model. Settings
+    // warnings only count for the model whose stream started.
+    const startStreamForModel = async (model: string): Promise<StartedStream> => {
+      const timeouts = await this.getStreamTimeouts(model);
+      const deadline = timeouts.totalMs > 0 ? Date.now() + timeouts.totalMs : 0;
+      const modelWarnings: LanguageModelV2CallWarning[] = [];
+      const sdkOptions = this.buildSDKOptions(options, true, model, modelWarnings);
+      const modelMessages = this.applyResponseFormatInstructions(messages, options, sdkOptions, modelWarnings);
+      const response = await this.callPuterChat<AsyncIterable<PuterStreamChunk>>(modelMessages, sdkOptions, abortSignal);
+      const iterator = response[Symbol.asyncIterator]();
+      try {
+        const first = await nextChunkWithTimeout(
+          iterator,
+          timeouts.firstChunkMs,
+          deadline,
+          'initial response',
+          abortSignal
+        );
+        modelWarnings.forEach(warning => addWarning(warnings, warning));
+        return { iterator, first, chunkTimeoutMs: timeouts.chunkMs, deadline };
+      } catch (error) {
+        iterator.return?.()?.catch(() => {});
+        if (isAbortError(error)) throw error;
+        throw toPuterApiError(error, {
+          model,
+          account: this.accountRotationManager?.getSummary().currentAccount ?? undefined,
+        });
+      }
     };
     
-    // Wrap with account rotation: try other accounts before falling back to free models
-    const initiateStreamWithRotation = async (model: string): Promise<AsyncIterable<PuterStreamChunk>> => {
+    // Wrap with account rotation: try other accounts before falling back to free models.
+    // A stream that never starts may be stuck behind this account, so first-chunk
+    // timeouts rotate as well as 402/403s.
+    let rotated = false;
+    let account: string | undefined;
+    const startStreamWithRotation = async (model: string): Promise<StartedStream> => {
       const { result, wasRotated, accountUsed } = await this.executeWithAccountRotation(
-        () => initiateStreamForModel(model)
+        () => startStreamForModel(model),
+        undefined,
+        abortSignal,
+        error => this.isAccountExhaustedError(error) || classifyError(error) === 'timeout'
       );
+      rotated ||= wasRotated;
+      account = accountUsed;
       
       if (wasRotated && accountUsed) {
         warnings.push({
@@ -726,41 +1581,74 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
       return result;
     };
     
-    let streamResponse: AsyncIterable<PuterStreamChunk>;
-    let actualModelUsed = this.modelId;
+    let started: StartedStream;
+    let actualModelUsed = primaryModel;
     let wasFallback = false;
+    let attempts: FallbackAttempt[];
     
-    if (useFallback) {
-      // Execute with account rotation + model fallback support
-      const fallbackResult = await this.fallbackManager.executeWithFallback(
-        this.modelId,
-        initiateStreamWithRotation,
-        this.logger
-      );
-      streamResponse = fallbackResult.result;
-      actualModelUsed = fallbackResult.usedModel;
-      wasFallback = fallbackResult.wasFallback;
-      
-      if (wasFallback) {
-        // Add a warning that fallback was used
-        warnings.push({
-          type: 'other',
-          message: `Model ${this.modelId} rate limited, used fallback: ${actualModelUsed}`,
-        });
+    try {
+      if (useFallback) {
+        // Execute with account rotation + model fallback support
+        this.refreshModelCatalog();
+        const fallbackResult = await this.fallbackManager.executeWithFallback(
+          this.modelId,
+          startStreamWithRotation,
+          this.logger,
+          abortSignal,
+          this.getModelRequirements(options, messages)
+        );
+        started = fallbackResult.result;
+        actualModelUsed = fallbackResult.usedModel;
+        wasFallback = fallbackResult.wasFallback;
+        attempts = fallbackResult.attempts;
+        
+        if (wasFallback) {
+          // Add a warning that fallback was used
+          warnings.push({
+            type: 'other',
+            message: `Model ${this.modelId} rate limited, used fallback: ${actualModelUsed}`,
+          });
+        }
+      } else {
+        // Execute without fallback (but still with account rotation)
+        started = await startStreamWithRotation(primaryModel);
+        attempts = [{ model: primaryModel, success: true, durationMs: Date.now() - startTime }];
       }
-    } else {
-      // Execute without fallback (but still with account rotation)
-      const { result, wasRotated, accountUsed } = await this.executeWithAccountRotation(
-        () => initiateStreamForModel(this.modelId)
-      );
-      streamResponse = result;
-      
-      if (wasRotated && accountUsed) {
-        warnings.push({
-          type: 'other',
-          message: `Rotated to account: ${accountUsed}`,
-        });
+    } catch (error) {
+      if (abortSignal?.aborted || isAbortError(error)) {
+        throw error;
       }
+      
+      // Every model/account failed before emitting anything - report it in the stream
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Streaming failed: ${errorMessage}`);
+      const providerMetadata = toProviderMetadata({
+        requestedModel: this.modelId,
+        usedModel: null,
+        wasFallback: false,
+        attempts: error instanceof FallbackExhaustedError
+          ? error.attempts
+          : [{ model: primaryModel, success: false, error: errorMessage, errorType: classifyError(error) }],
+        accountUsed: account,
+        wasRotated: rotated,
+        latencyMs: Date.now() - startTime,
+      });
+      return {
+        stream: new ReadableStream<LanguageModelV2StreamPart>({
+          start(controller) {
+            controller.enqueue({ type: 'stream-start', warnings });
+            controller.enqueue({ type: 'error', error });
+            controller.enqueue({
+              type: 'finish',
+              usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+              finishReason: 'error',
+              providerMetadata,
+            });
+            controller.close();
+          },
+        }),
+        request: { body: { messages, model: actualModelUsed } },
+      };
     }
 
     // Create a transform stream to convert Puter chunks to AI SDK V2 format
@@ -771,9 +1659,21 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
     let finalUsage: PuterUsage | undefined;
     let hasToolCalls = false;
     
-    // Streaming timeout configuration (30s default, handles Puter SDK hanging on errors)
-    const STREAM_FIRST_CHUNK_TIMEOUT_MS = 30000;
-    const STREAM_CHUNK_TIMEOUT_MS = 60000; // Timeout between chunks
+    const requestInfo: PuterRequestInfo = {
+      requestedModel: this.modelId,
+      usedModel: actualModelUsed,
+      wasFallback,
+      attempts,
+      accountUsed: account,
+      wasRotated: rotated,
+      latencyMs: Date.now() - startTime,
+    };
+    const getProviderMetadata = () => toProviderMetadata({ ...requestInfo, durationMs: Date.now() - startTime });
+    
+    const iterator = started.iterator;
+    const releaseIterator = () => {
+      iterator.return?.()?.catch(() => {});
+    };
 
     const stream = new ReadableStream<LanguageModelV2StreamPart>({
       async start(controller) {
@@ -784,36 +1684,12 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
         });
 
         try {
-          // Create an async iterator with timeout protection
-          const iterator = streamResponse[Symbol.asyncIterator]();
-          let isFirstChunk = true;
-          
-          const getNextWithTimeout = async (timeoutMs: number): Promise<IteratorResult<PuterStreamChunk>> => {
-            return new Promise(async (resolve, reject) => {
-              const timeoutId = setTimeout(() => {
-                reject(new Error(`Streaming timeout: No ${isFirstChunk ? 'initial response' : 'chunk'} received within ${timeoutMs / 1000}s`));
-              }, timeoutMs);
-              
-              try {
-                const result = await iterator.next();
-                clearTimeout(timeoutId);
-                resolve(result);
-              } catch (error) {
-                clearTimeout(timeoutId);
-                reject(error);
-              }
-            });
-          };
+          // The first chunk was already received while starting the stream
+          let result = started.first;
           
-          // Iterate with timeout protection
-          while (true) {
-            const timeout = isFirstChunk ? STREAM_FIRST_CHUNK_TIMEOUT_MS : STREAM_CHUNK_TIMEOUT_MS;
-            const result = await getNextWithTimeout(timeout);
-            
-            if (result.done) break;
-            
+          while (!result.done) {
             const chunk = result.value;
-            isFirstChunk = false;
+            
             // Handle reasoning content (for thinking models like Kimi K2.5)
             if (chunk.type === 'reasoning' && chunk.reasoning) {
               if (!reasoningId) {
@@ -897,6 +1773,8 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
             if (chunk.usage) {
               finalUsage = chunk.usage;
             }
+            
+            result = await nextChunkWithTimeout(iterator, started.chunkTimeoutMs, started.deadline, 'chunk', abortSignal);
           }
 
           // Close reasoning stream if still open
@@ -920,38 +1798,36 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
             type: 'finish',
             usage: self.mapUsage(finalUsage),
             finishReason: self.mapFinishReason(hasToolCalls ? 'tool_calls' : 'stop'),
+            providerMetadata: getProviderMetadata(),
           });
 
           controller.close();
         } catch (error) {
-          // Handle streaming timeout by probing for the actual error
+          // Aborted by the caller - release the SDK stream and surface the AbortError
+          if (abortSignal?.aborted) {
+            releaseIterator();
+            controller.error(createAbortError(abortSignal));
+            return;
+          }
+          
           const errorMsg = error instanceof Error ? error.message : String(error);
           
           if (errorMsg.includes('Streaming timeout')) {
-            // Log the timeout
+            // Stalled mid-stream - end the open parts and report it as an error, not as content
             self.logger?.warn?.(`[puter-auth] ${errorMsg}`);
-            
-            // Emit an error text to the user instead of hanging
-            if (!textId) {
-              textId = generateId();
-              controller.enqueue({
-                type: 'text-start',
-                id: textId,
-              });
+            releaseIterator();
+            if (reasoningId) {
+              controller.enqueue({ type: 'reasoning-end', id: reasoningId });
             }
-            controller.enqueue({
-              type: 'text-delta',
-              id: textId,
-              delta: `⚠️ Streaming failed: ${errorMsg}. This may indicate a rate limit or API issue with Puter. Try again later or switch to a different model.`,
-            });
-            controller.enqueue({
-              type: 'text-end',
-              id: textId,
-            });
+            if (textId) {
+              controller.enqueue({ type: 'text-end', id: textId });
+            }
+            controller.enqueue({ type: 'error', error });
             controller.enqueue({
               type: 'finish',
               usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
               finishReason: 'error',
+              providerMetadata: getProviderMetadata(),
             });
             controller.close();
           } else {
@@ -959,6 +1835,10 @@ export class PuterChatLanguageModel implements LanguageModelV2 {
           }
         }
       },
+      cancel() {
+        // Consumer stopped reading (e.g. aborted generation) - stop the SDK stream
+        releaseIterator();
+      },
     });
 
     return {
@@ -5,6 +5,67 @@
  */
 
 import type { FallbackOptions } from '../fallback.js';
+import type { AccountRotationOptions } from '../account-rotation.js';
+
+/**
+ * Streaming timeouts in milliseconds. 0 disables a timeout.
+ */
+export interface PuterStreamTimeouts {
+  /**
+   * Maximum wait for the first chunk. When it's exceeded the stream moves
+   * on to the next account/model.
+   * @default 30000
+   */
+  firstChunkMs?: number;
+
+  /**
+   * Maximum wait between chunks once streaming has started.
+   * @default 60000
+   */
+  chunkMs?: number;
+
+  /**
+   * Maximum duration of the whole stream.
+   * @default 0 (no limit)
+   */
+  totalMs?: number;
+}
+
+/**
+ * Reasoning (extended thinking) controls, passed per call as
+ * `providerOptions.puter.reasoning`. Mapped to each model family's own
+ * parameter: `thinking` budget for Claude, `reasoning_effort` for o-series
+ * and GPT-5, `thinking_config` for Gemini and `reasoning` for OpenRouter.
+ */
+export interface PuterReasoningOptions {
+  /**
+   * How much the model should think. Converted to a token budget for
+   * models that take one.
+   */
+  effort?: 'low' | 'medium' | 'high';
+
+  /**
+   * Maximum tokens to spend on reasoning. Converted to an effort level for
+   * models that take one. Takes precedence over `effort` for budget-based models.
+   */
+  budgetTokens?: number;
+}
+
+/**
+ * Per-call options read from `providerOptions.puter`.
+ *
+ * @example
+ * ```ts
+ * await generateText({
+ *   model: puter('claude-sonnet-4-5'),
+ *   prompt: 'Prove that there are infinitely many primes',
+ *   providerOptions: { puter: { reasoning: { budgetTokens: 8000 } } },
+ * });
+ * ```
+ */
+export interface PuterProviderOptions {
+  reasoning?: PuterReasoningOptions;
+}
 
 /**
  * Settings for the Puter chat model.
@@ -56,6 +117,12 @@ export interface PuterChatSettings {
    * @default false
    */
   disableFallback?: boolean;
+
+  /**
+   * Streaming timeouts for this model.
+   * Overrides the provider's `streamTimeouts` and the `stream_*` settings from puter.json.
+   */
+  streamTimeouts?: PuterStreamTimeouts;
 }
 
 /**
@@ -109,6 +176,31 @@ export interface PuterProviderConfig {
    * Controls automatic model fallback when rate limits are encountered.
    */
   fallback?: FallbackOptions;
+  
+  /**
+   * Account rotation options.
+   * Overrides the `account_rotation_*` settings from puter.json.
+   */
+  accountRotation?: AccountRotationOptions;
+  
+  /**
+   * Streaming timeouts for all models.
+   * Overrides the `stream_*_timeout_ms` settings from puter.json.
+   */
+  streamTimeouts?: PuterStreamTimeouts;
+  
+  /**
+   * Per-model streaming timeouts, keyed by model ID or glob pattern
+   * (e.g. `{ 'deepseek-r1*': { firstChunkMs: 300000 } }`).
+   * Override `streamTimeouts` and `stream_timeouts` from puter.json.
+   */
+  modelStreamTimeouts?: Record<string, PuterStreamTimeouts>;
+  
+  /**
+   * Directory containing puter.json and puter-accounts.json.
+   * @default '$XDG_CONFIG_HOME/opencode' or '~/.config/opencode'
+   */
+  configDir?: string;
 }
 
 /**
@@ -151,4 +243,24 @@ export interface PuterChatConfig {
    * Controls automatic model fallback when rate limits are encountered.
    */
   fallback?: FallbackOptions;
+  
+  /**
+   * Account rotation options (override puter.json).
+   */
+  accountRotation?: AccountRotationOptions;
+  
+  /**
+   * Streaming timeouts for all models (override puter.json).
+   */
+  streamTimeouts?: PuterStreamTimeouts;
+  
+  /**
+   * Per-model streaming timeouts, keyed by model ID or glob pattern (override puter.json).
+   */
+  modelStreamTimeouts?: Record<string, PuterStreamTimeouts>;
+  
+  /**
+   * Directory containing puter.json and puter-accounts.json.
+   */
+  configDir?: string;
 }
@@ -11,6 +11,7 @@ import type { ProviderV2 } from '@ai-sdk/provider';
 import { generateId, withoutTrailingSlash } from '@ai-sdk/provider-utils';
 import { PuterChatLanguageModel } from './puter-chat-language-model.js';
 import type { PuterChatSettings, PuterProviderConfig, PuterChatConfig } from './puter-chat-settings.js';
+import { getConfigDir } from '../config.js';
 
 /**
  * Puter provider interface extending ProviderV2.
@@ -78,6 +79,7 @@ export function createPuter(options: PuterProviderConfig = {}): PuterProvider {
   const baseURL = withoutTrailingSlash(options.baseURL) ?? DEFAULT_BASE_URL;
   const timeout = options.timeout ?? DEFAULT_TIMEOUT;
   const fetchFn = options.fetch ?? globalThis.fetch;
+  const configDir = options.configDir ?? getConfigDir();
   const generateIdFn = options.generateId ?? generateId;
 
   /**
@@ -89,18 +91,12 @@ export function createPuter(options: PuterProviderConfig = {}): PuterProvider {
       return authToken;
     }
 
-    // Try to load from OpenCode's config directory
+    // Try to load from OpenCode's config directory (tokens are encrypted at rest)
     try {
-      const os = await import('os');
-      const path = await import('path');
-      const fs = await import('fs/promises');
+      const { getSharedAuthManager } = await import('../auth.js');
+      const authManager = await getSharedAuthManager(configDir);
       
-      const configDir = path.join(os.homedir(), '.config', 'opencode');
-      const authFile = path.join(configDir, 'puter-accounts.json');
-      
-      const authData = JSON.parse(await fs.readFile(authFile, 'utf-8'));
-      const activeAccount = authData.accounts?.[authData.activeIndex];
-      return activeAccount?.authToken;
+      return authManager.getActiveAccount()?.authToken;
     } catch {
       return undefined;
     }
@@ -139,6 +135,10 @@ export function createPuter(options: PuterProviderConfig = {}): PuterProvider {
     fetch: fetchFn,
     generateId: generateIdFn,
     fallback: options.fallback,
+    accountRotation: options.accountRotation,
+    streamTimeouts: options.streamTimeouts,
+    modelStreamTimeouts: options.modelStreamTimeouts,
+    configDir,
   });
 
   /**
@@ -9,7 +9,7 @@
  * 2. Open browser to the local server serving Puter SDK auth page
  * 3. User signs in via Puter popup (puter.auth.signIn())
  * 4. Page redirects to /callback with token and username
- * 5. Token is stored locally and server shuts down
+ * 5. Token is stored locally (encrypted at rest) and server shuts down
  * 
  * IMPORTANT: Puter uses popup-based auth (puter.auth.signIn()) which returns a token.
  * For CLI tools, we serve an HTML page that handles the popup auth flow,
@@ -36,30 +36,58 @@
  * @module auth
  */
 
-import { promises as fs } from 'node:fs';
+import { promises as fs, watch as watchFs, type FSWatcher } from 'node:fs';
 import path from 'node:path';
 import http from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { URL } from 'node:url';
+import { randomBytes } from 'node:crypto';
+import os from 'node:os';
 import type {
   PuterAccount,
   PuterAccountsStorage,
   PuterAuthResult,
   PuterConfig,
+  PuterLoginOptions,
 } from './types.js';
 import { PuterAccountsStorageSchema } from './types.js';
+import { PuterClient } from './client.js';
 import { createLoggerFromConfig, type Logger } from './logger.js';
+import { withFileLock, writeFileAtomic } from './file-lock.js';
+import {
+  decryptToken,
+  deriveTokenKey,
+  encryptToken,
+  generateSalt,
+  getKeySecret,
+  getKeySource,
+  type TokenKeySource,
+} from './token-crypto.js';
 
 /** Default port for the local OAuth callback server */
 const DEFAULT_CALLBACK_PORT = 19847;
 
+/** Default bind address for the local OAuth callback server */
+const DEFAULT_CALLBACK_HOST = 'localhost';
+
+/** Puter web origin - temporary users are created via its /signup endpoint */
+const PUTER_GUI_ORIGIN = 'https://puter.com';
+
 /** Authentication timeout duration (5 minutes) */
 const AUTH_TIMEOUT_MS = 300000;
 
+/** Current accounts file format (2 = encrypted tokens) */
+const STORAGE_VERSION = 2;
+
+/** Delay before reloading after a change on disk (coalesces rename/change events) */
+const WATCH_DEBOUNCE_MS = 100;
+
 /**
  * HTML page that handles Puter popup auth flow
  * This page loads the Puter SDK, triggers signIn(), and redirects to our callback
+ * with the login's one-time state
  */
-const getAuthHtml = (callbackUrl: string) => `
+const getAuthHtml = (callbackUrl: string, state: string) => `
 <!DOCTYPE html>
 <html lang="en">
 <head>
@@ -152,6 +180,7 @@ const getAuthHtml = (callbackUrl: string) => `
 
   <script>
     const callbackUrl = ${JSON.stringify(callbackUrl)};
+    const state = ${JSON.stringify(state)};
     const statusEl = document.getElementById('status');
     const signInBtn = document.getElementById('signInBtn');
 
@@ -200,6 +229,7 @@ const getAuthHtml = (callbackUrl: string) => `
           const params = new URLSearchParams({
             token: result.token,
             username: username,
+            state: state,
             success: 'true'
           });
           
@@ -225,6 +255,24 @@ const getAuthHtml = (callbackUrl: string) => `
 </html>
 `;
 
+/**
+ * Host to show in the login URL for a bind address.
+ * Wildcard binds aren't browsable, so use this machine's hostname instead.
+ */
+function getDisplayHost(host: string): string {
+  if (host === '0.0.0.0' || host === '::') {
+    return os.hostname();
+  }
+  return host.includes(':') ? `[${host}]` : host;
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
 /**
  * Internal implementation of PuterAuthManager.
  * 
@@ -248,6 +296,18 @@ class PuterAuthManagerInternal {
   
   /** Logger instance for debugging */
   private logger: Logger;
+  
+  /** Plugin configuration (callback server and API settings) */
+  private config: Partial<PuterConfig>;
+  
+  /** Derived encryption keys by key source and salt (scrypt is slow) */
+  private keyCache = new Map<string, Buffer>();
+  
+  /** Watcher for changes made by other processes (see {@link watch}) */
+  private watcher: FSWatcher | null = null;
+  
+  /** Pending debounced reload */
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Create a new PuterAuthManager instance.
@@ -258,6 +318,7 @@ class PuterAuthManagerInternal {
   constructor(configDir: string, config: Partial<PuterConfig> = {}) {
     this.configDir = configDir;
     this.accountsFile = path.join(configDir, 'puter-accounts.json');
+    this.config = config;
     this.logger = createLoggerFromConfig(config);
   }
 
@@ -268,6 +329,7 @@ class PuterAuthManagerInternal {
    * directory if it doesn't exist and loads any saved accounts.
    * 
    * @throws Error if unable to create config directory
+   * @throws TokenDecryptionError if stored tokens can't be decrypted
    */
   public async init(): Promise<void> {
     this.logger.debug('Initializing auth manager');
@@ -291,31 +353,190 @@ class PuterAuthManagerInternal {
   /**
    * Load accounts from the persisted JSON file.
    * If file doesn't exist or is invalid, initializes with empty storage.
+   * Plaintext (version 1) files are encrypted in place.
+   * 
+   * @throws TokenDecryptionError if stored tokens can't be decrypted
    */
   private async loadAccounts(): Promise<void> {
+    const { storage, needsMigration } = await this.readAccountsFile();
+    this.storage = storage;
+    
+    if (needsMigration) {
+      // Plaintext store from an older version - migrate transparently
+      this.logger.debug('Migrating accounts file to encrypted storage');
+      await this.updateStorage(() => {});
+    }
+  }
+
+  /**
+   * Read and decrypt the accounts file.
+   * 
+   * @returns The stored accounts (empty if missing or invalid), and whether
+   *          the file still uses the plaintext format
+   * @throws TokenDecryptionError if stored tokens can't be decrypted
+   */
+  private async readAccountsFile(): Promise<{ storage: PuterAccountsStorage; needsMigration: boolean }> {
+    let stored: PuterAccountsStorage;
     try {
       const data = await fs.readFile(this.accountsFile, 'utf-8');
-      const parsed = JSON.parse(data);
-      this.storage = PuterAccountsStorageSchema.parse(parsed);
+      stored = PuterAccountsStorageSchema.parse(JSON.parse(data));
     } catch {
       // No accounts file or invalid - start fresh
-      this.storage = {
-        version: 1,
-        accounts: [],
-        activeIndex: 0,
+      return {
+        storage: { version: STORAGE_VERSION, accounts: [], activeIndex: 0 },
+        needsMigration: false,
       };
     }
+
+    if (stored.version < STORAGE_VERSION || !stored.encryption) {
+      return { storage: { ...stored, version: STORAGE_VERSION }, needsMigration: true };
+    }
+
+    const { keySource, salt } = stored.encryption;
+    const key = await this.getEncryptionKey(keySource, salt, false);
+    return {
+      storage: {
+        ...stored,
+        accounts: stored.accounts.map(account => ({
+          ...account,
+          authToken: decryptToken(account.authToken, key),
+        })),
+      },
+      needsMigration: false,
+    };
+  }
+
+  /**
+   * Apply a change to the account store as a locked read-modify-write.
+   * 
+   * Re-reads the file under the lock so changes made by other processes
+   * (plugin, CLI, MCP server) aren't clobbered, then writes atomically.
+   * 
+   * @param mutate - Change to apply to the freshly read storage
+   * @returns Whatever `mutate` returns
+   */
+  private async updateStorage<T>(mutate: (storage: PuterAccountsStorage) => T): Promise<T> {
+    return withFileLock(this.accountsFile, async () => {
+      const { storage } = await this.readAccountsFile();
+      const result = mutate(storage);
+      this.storage = storage;
+      await this.saveAccounts();
+      return result;
+    });
   }
 
   /**
    * Persist current account storage to disk.
-   * Called automatically after any account modification.
+   * Only call while holding the lock (see {@link updateStorage}).
+   * 
+   * Tokens are encrypted with the current key source (passphrase if
+   * PUTER_AUTH_PASSPHRASE is set, machine key otherwise) and the file
+   * is restricted to the owner (0600).
    */
   private async saveAccounts(): Promise<void> {
     if (!this.storage) return;
     
-    const data = JSON.stringify(this.storage, null, 2);
-    await fs.writeFile(this.accountsFile, data, 'utf-8');
+    // Keep the salt unless the key source changed
+    const keySource = getKeySource();
+    const salt = this.storage.encryption?.keySource === keySource
+      ? this.storage.encryption.salt
+      : generateSalt();
+    const key = await this.getEncryptionKey(keySource, salt, true);
+    
+    this.storage.version = STORAGE_VERSION;
+    this.storage.encryption = { salt, keySource };
+    
+    const encrypted: PuterAccountsStorage = {
+      ...this.storage,
+      accounts: this.storage.accounts.map(account => ({
+        ...account,
+        authToken: encryptToken(account.authToken, key),
+      })),
+    };
+    
+    await writeFileAtomic(this.accountsFile, JSON.stringify(encrypted, null, 2), 0o600);
+  }
+
+  /**
+   * Get (and cache) the encryption key for a key source and salt.
+   */
+  private async getEncryptionKey(source: TokenKeySource, salt: string, create: boolean): Promise<Buffer> {
+    const cacheKey = `${source}:${salt}`;
+    const cached = this.keyCache.get(cacheKey);
+    if (cached) return cached;
+    
+    const secret = await getKeySecret(source, this.configDir, create);
+    const key = await deriveTokenKey(secret, salt);
+    this.keyCache.set(cacheKey, key);
+    return key;
+  }
+
+  /**
+   * Watch the accounts file and reload when another process changes it.
+   * 
+   * Keeps account switches, logins and logouts made by the CLI, the MCP
+   * server or other OpenCode sessions in sync with this instance.
+   * The watcher doesn't keep the process alive.
+   * 
+   * @param onChange - Called after the in-memory accounts were reloaded
+   * 
+   * @example
+   * ```ts
+   * authManager.watch(() => {
+   *   client.setAuthToken(authManager.getActiveAccount()?.authToken ?? '');
+   * });
+   * ```
+   */
+  public watch(onChange?: () => void): void {
+    if (this.watcher) return;
+    
+    // Watch the directory: atomic writes replace the file, which breaks file watches
+    const fileName = path.basename(this.accountsFile);
+    try {
+      this.watcher = watchFs(this.configDir, { persistent: false }, (_event, changed) => {
+        if (changed && changed !== fileName) return;
+        
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          void this.reloadFromDisk(onChange);
+        }, WATCH_DEBOUNCE_MS);
+      });
+      this.watcher.on('error', (error) => {
+        this.logger.warn('Accounts file watcher failed', error.message);
+        this.unwatch();
+      });
+    } catch (error) {
+      this.logger.warn('Unable to watch accounts file', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Stop watching the accounts file.
+   */
+  public unwatch(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Reload accounts after an external change (ignores our own writes).
+   */
+  private async reloadFromDisk(onChange?: () => void): Promise<void> {
+    try {
+      const { storage } = await this.readAccountsFile();
+      if (JSON.stringify(storage) === JSON.stringify(this.storage)) return;
+      
+      this.storage = storage;
+      this.logger.debug('Accounts file changed on disk, reloaded', { accounts: storage.accounts.length });
+      onChange?.();
+    } catch (error) {
+      this.logger.warn('Failed to reload accounts file', error instanceof Error ? error.message : error);
+    }
   }
 
   /**
@@ -366,6 +587,16 @@ class PuterAuthManagerInternal {
    * 
    * The browser window can be closed after successful authentication.
    * 
+   * In headless mode no browser is opened: the login URL is printed so it can
+   * be opened on another machine (bind to 0.0.0.0 or use an SSH tunnel), and
+   * the received token is validated before it is saved. A token that fails
+   * validation doesn't end the login, so the user can try again.
+   * 
+   * The login URL carries a one-time state that the login page and callback
+   * must present, so others who can reach the server can't log it in to
+   * their own account.
+   * 
+   * @param options - Headless mode, bind address/port and abort signal
    * @returns Authentication result with success status and account details
    * 
    * @example
@@ -376,12 +607,26 @@ class PuterAuthManagerInternal {
    * } else {
    *   console.error('Auth failed:', result.error);
    * }
+   * 
+   * // On a remote box
+   * await authManager.login({ headless: true, host: '0.0.0.0', port: 8080 });
    * ```
    */
-  public async login(): Promise<PuterAuthResult> {
+  public async login(options: PuterLoginOptions = {}): Promise<PuterAuthResult> {
+    const { headless = false, signal } = options;
+    // Only headless logins may listen beyond loopback
+    const host = headless
+      ? options.host ?? this.config.auth_callback_host ?? DEFAULT_CALLBACK_HOST
+      : DEFAULT_CALLBACK_HOST;
+    const port = options.port ?? this.config.auth_callback_port ?? DEFAULT_CALLBACK_PORT;
+    
+    if (signal?.aborted) {
+      return { success: false, error: 'Login cancelled' };
+    }
+    
     return new Promise((resolve) => {
-      const port = DEFAULT_CALLBACK_PORT;
       let resolved = false;
+      const state = randomBytes(16).toString('hex');
 
       // Create callback server
       const server = http.createServer(async (req, res) => {
@@ -393,14 +638,18 @@ class PuterAuthManagerInternal {
 
         const url = new URL(req.url || '/', `http://localhost:${port}`);
         
+        if ((url.pathname === '/callback' || url.pathname === '/') && url.searchParams.get('state') !== state) {
+          res.writeHead(403, { 'Content-Type': 'text/html' });
+          res.end('<html><body><h1>Invalid login link - open the URL printed in the terminal</h1></body></html>');
+          return;
+        }
+        
         if (url.pathname === '/callback') {
           const token = url.searchParams.get('token');
           const username = url.searchParams.get('username') || 'puter_user';
           const success = url.searchParams.get('success') === 'true';
 
           if (token && success) {
-            resolved = true;
-
             const account: PuterAccount = {
               username,
               authToken: token,
@@ -408,6 +657,21 @@ class PuterAuthManagerInternal {
               isTemporary: false,
             };
 
+            // The login page may have been opened on another machine - check the token works
+            if (headless && !(await this.validateToken(token))) {
+              res.writeHead(400, { 'Content-Type': 'text/html' });
+              res.end('<html><body><h1>Token validation failed - go back and sign in again</h1></body></html>');
+              return;
+            }
+
+            // Another callback may have finished while this token was validated
+            if (resolved) {
+              res.writeHead(200, { 'Content-Type': 'text/html' });
+              res.end('<html><body><h1>Already authenticated</h1></body></html>');
+              return;
+            }
+            resolved = true;
+
             // Add account to storage
             await this.addAccount(account);
 
@@ -430,7 +694,7 @@ class PuterAuthManagerInternal {
                   <div class="emoji">✅</div>
                   <h1>Authentication Successful!</h1>
                   <p>You can close this window and return to OpenCode.</p>
-                  <p style="margin-top: 16px; font-size: 14px; color: #888;">Logged in as: ${username}</p>
+                  <p style="margin-top: 16px; font-size: 14px; color: #888;">Logged in as: ${escapeHtml(username)}</p>
                 </div>
                 <script>
                   // Try to close the window after a short delay
@@ -440,60 +704,210 @@ class PuterAuthManagerInternal {
               </html>
             `);
 
-            server.close();
+            cleanup();
             resolve({ success: true, account });
           } else {
             res.writeHead(400, { 'Content-Type': 'text/html' });
             res.end('<html><body><h1>Missing token or auth failed</h1></body></html>');
           }
         } else if (url.pathname === '/') {
-          // Serve the auth HTML page
-          const callbackUrl = `http://localhost:${port}/callback`;
+          // Serve the auth HTML page (relative callback so it works through tunnels/remote hosts)
           res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end(getAuthHtml(callbackUrl));
+          res.end(getAuthHtml('/callback', state));
         } else {
           res.writeHead(404);
           res.end('Not found');
         }
       });
 
-      server.listen(port, 'localhost', async () => {
+      server.listen(port, host, async () => {
+        const { port: boundPort } = server.address() as AddressInfo;
+        const loginUrl = `http://${getDisplayHost(host)}:${boundPort}/?state=${state}`;
+        
+        if (headless) {
+          console.log(`\n🔐 Headless login - open this URL in a browser on any machine that can reach this host:`);
+          console.log(`   ${loginUrl}`);
+          console.log(`   (or forward the port: ssh -L ${boundPort}:localhost:${boundPort} <this-host>)\n`);
+          return;
+        }
+        
         console.log(`\n🔐 Opening browser for Puter authentication...`);
-        console.log(`   If browser doesn't open, visit: http://localhost:${port}\n`);
+        console.log(`   If browser doesn't open, visit: ${loginUrl}\n`);
 
         // Open browser
         try {
           const open = await import('open');
-          await open.default(`http://localhost:${port}`);
+          await open.default(loginUrl);
         } catch {
-          console.log(`   Please open http://localhost:${port} in your browser`);
+          console.log(`   Please open ${loginUrl} in your browser`);
         }
       });
 
       // Timeout
-      setTimeout(() => {
+      const timeoutId = setTimeout(() => {
         if (!resolved) {
           resolved = true;
-          server.close();
+          cleanup();
           resolve({ success: false, error: 'Authentication timeout' });
         }
       }, AUTH_TIMEOUT_MS);
+      
+      // Cancellation (e.g. the token was pasted instead)
+      const onAbort = () => {
+        if (!resolved) {
+          resolved = true;
+          cleanup();
+          resolve({ success: false, error: 'Login cancelled' });
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+        server.close();
+      };
 
       // Handle server errors
       server.on('error', (err) => {
         if (!resolved) {
           resolved = true;
+          cleanup();
           resolve({ success: false, error: `Server error: ${err.message}` });
         }
       });
     });
   }
 
+  /**
+   * Log in with an auth token obtained elsewhere (pasted or from CI secrets).
+   * 
+   * The token is validated with a test request before it is saved.
+   * 
+   * @param token - Puter auth token
+   * @param username - Name to store the account under (default: puter_user)
+   * @returns Authentication result with success status and account details
+   * 
+   * @example
+   * ```ts
+   * const result = await authManager.loginWithToken(process.env.PUTER_TOKEN!, 'ci-bot');
+   * ```
+   */
+  public async loginWithToken(token: string, username = 'puter_user'): Promise<PuterAuthResult> {
+    const authToken = token.trim();
+    if (!authToken) {
+      return { success: false, error: 'No token provided' };
+    }
+    
+    if (!(await this.validateToken(authToken))) {
+      return { success: false, error: 'Token validation failed - check the token and try again' };
+    }
+    
+    const account: PuterAccount = {
+      username,
+      authToken,
+      addedAt: Date.now(),
+      isTemporary: false,
+    };
+    await this.addAccount(account);
+    
+    return { success: true, account };
+  }
+
+  /**
+   * Create a temporary (guest) Puter account and make it active.
+   * 
+   * Temporary accounts work without a sign-in, which is handy for quick
+   * trials and CI. They are replaced automatically the next time a
+   * permanent account is added (e.g. via `puter-auth login`).
+   * 
+   * @returns Authentication result with the temporary account
+   * 
+   * @example
+   * ```ts
+   * const result = await authManager.createTempAccount();
+   * if (result.success) {
+   *   console.log('Using temporary account:', result.account?.username);
+   * }
+   * ```
+   */
+  public async createTempAccount(): Promise<PuterAuthResult> {
+    const startTime = Date.now();
+    this.logger.request('POST', '/signup', { is_temp: true });
+    
+    try {
+      const response = await fetch(`${PUTER_GUI_ORIGIN}/signup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Requested-With': 'XMLHttpRequest',
+        },
+        body: JSON.stringify({ is_temp: true }),
+      });
+      
+      if (!response.ok) {
+        const errorText = await response.text();
+        return { success: false, error: `Failed to create temporary account (${response.status}): ${errorText}` };
+      }
+      
+      const data = await response.json() as { token?: string; user?: { username?: string } };
+      this.logger.response(response.status, 'OK (temporary account)', Date.now() - startTime);
+      if (!data.token) {
+        return { success: false, error: 'Failed to create temporary account: no token in response' };
+      }
+      
+      const account: PuterAccount = {
+        username: data.user?.username || 'puter_temp_user',
+        authToken: data.token,
+        addedAt: Date.now(),
+        isTemporary: true,
+      };
+      await this.addAccount(account);
+      
+      return { success: true, account };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create temporary account: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Get the active account, provisioning a temporary one when no account
+   * is stored and `auto_create_temp_user` is enabled (the default).
+   * 
+   * @returns The active account, or null if none is available
+   */
+  public async getOrCreateActiveAccount(): Promise<PuterAccount | null> {
+    const active = this.getActiveAccount();
+    if (active || this.config.auto_create_temp_user === false) {
+      return active;
+    }
+    
+    const result = await this.createTempAccount();
+    if (!result.success) {
+      this.logger.warn('Unable to create temporary account', result.error);
+      return null;
+    }
+    return result.account ?? null;
+  }
+
+  /**
+   * Check that a token can make API calls.
+   */
+  private async validateToken(token: string): Promise<boolean> {
+    this.logger.debug('Validating auth token');
+    const client = new PuterClient(token, this.config);
+    return client.testConnection();
+  }
+
   /**
    * Add a new account or update an existing one.
    * 
    * If an account with the same username exists, it will be updated
    * with the new token. The added/updated account becomes the active account.
+   * Adding a permanent account replaces any temporary accounts.
    * 
    * @param account - The account to add or update
    * 
@@ -508,28 +922,33 @@ class PuterAuthManagerInternal {
    * ```
    */
   public async addAccount(account: PuterAccount): Promise<void> {
-    if (!this.storage) {
-      this.storage = { version: 1, accounts: [], activeIndex: 0 };
-    }
-    
-    // Check if account already exists
-    const existingIndex = this.storage.accounts.findIndex(
-      a => a.username === account.username
-    );
-    
-    if (existingIndex >= 0) {
-      // Update existing
-      this.storage.accounts[existingIndex] = account;
-      this.storage.activeIndex = existingIndex;
-      this.logger.auth('Account updated', account.username);
-    } else {
-      // Add new
-      this.storage.accounts.push(account);
-      this.storage.activeIndex = this.storage.accounts.length - 1;
-      this.logger.auth('Account added', account.username);
-    }
-
-    await this.saveAccounts();
+    await this.updateStorage(storage => {
+      // Logging in properly upgrades away from temporary accounts
+      if (!account.isTemporary) {
+        const temporary = storage.accounts.filter(a => a.isTemporary && a.username !== account.username);
+        if (temporary.length > 0) {
+          storage.accounts = storage.accounts.filter(a => !temporary.includes(a));
+          this.logger.auth('Replaced temporary account', temporary.map(a => a.username).join(', '));
+        }
+      }
+      
+      // Check if account already exists
+      const existingIndex = storage.accounts.findIndex(
+        a => a.username === account.username
+      );
+      
+      if (existingIndex >= 0) {
+        // Update existing
+        storage.accounts[existingIndex] = account;
+        storage.activeIndex = existingIndex;
+        this.logger.auth('Account updated', account.username);
+      } else {
+        // Add new
+        storage.accounts.push(account);
+        storage.activeIndex = storage.accounts.length - 1;
+        this.logger.auth('Account added', account.username);
+      }
+    });
   }
 
   /**
@@ -550,16 +969,16 @@ class PuterAuthManagerInternal {
    * ```
    */
   public async switchAccount(index: number): Promise<boolean> {
-    if (!this.storage || index < 0 || index >= this.storage.accounts.length) {
-      this.logger.warn('Invalid account switch attempt', { index });
-      return false;
-    }
-    
-    this.storage.activeIndex = index;
-    await this.saveAccounts();
-    const username = this.storage.accounts[index]?.username;
-    this.logger.auth('Switched account', username);
-    return true;
+    return this.updateStorage(storage => {
+      if (index < 0 || index >= storage.accounts.length) {
+        this.logger.warn('Invalid account switch attempt', { index });
+        return false;
+      }
+      
+      storage.activeIndex = index;
+      this.logger.auth('Switched account', storage.accounts[index]?.username);
+      return true;
+    });
   }
 
   /**
@@ -572,21 +991,22 @@ class PuterAuthManagerInternal {
    * @returns true if removal was successful, false if index is invalid
    */
   public async removeAccount(index: number): Promise<boolean> {
-    if (!this.storage || index < 0 || index >= this.storage.accounts.length) {
-      this.logger.warn('Invalid account remove attempt', { index });
-      return false;
-    }
+    return this.updateStorage(storage => {
+      if (index < 0 || index >= storage.accounts.length) {
+        this.logger.warn('Invalid account remove attempt', { index });
+        return false;
+      }
 
-    const username = this.storage.accounts[index]?.username;
-    this.storage.accounts.splice(index, 1);
-    
-    if (this.storage.activeIndex >= this.storage.accounts.length) {
-      this.storage.activeIndex = Math.max(0, this.storage.accounts.length - 1);
-    }
-    
-    await this.saveAccounts();
-    this.logger.auth('Account removed', username);
-    return true;
+      const username = storage.accounts[index]?.username;
+      storage.accounts.splice(index, 1);
+      
+      if (storage.activeIndex >= storage.accounts.length) {
+        storage.activeIndex = Math.max(0, storage.accounts.length - 1);
+      }
+      
+      this.logger.auth('Account removed', username);
+      return true;
+    });
   }
 
   /**
@@ -596,11 +1016,14 @@ class PuterAuthManagerInternal {
    * Useful for implementing least-recently-used account rotation.
    */
   public async touchActiveAccount(): Promise<void> {
-    const account = this.getActiveAccount();
-    if (account && this.storage) {
-      account.lastUsed = Date.now();
-      await this.saveAccounts();
-    }
+    if (!this.getActiveAccount()) return;
+    
+    await this.updateStorage(storage => {
+      const account = storage.accounts[storage.activeIndex];
+      if (account) {
+        account.lastUsed = Date.now();
+      }
+    });
   }
 
   /**
@@ -611,12 +1034,10 @@ class PuterAuthManagerInternal {
    */
   public async logout(): Promise<void> {
     this.logger.auth('Logging out', 'all accounts');
-    this.storage = {
-      version: 1,
-      accounts: [],
-      activeIndex: 0,
-    };
-    await this.saveAccounts();
+    await this.updateStorage(storage => {
+      storage.accounts = [];
+      storage.activeIndex = 0;
+    });
   }
 }
 
@@ -655,3 +1076,35 @@ export type PuterAuthManager = PuterAuthManagerInternal;
 export function createPuterAuthManager(configDir: string, config: Partial<PuterConfig> = {}): PuterAuthManager {
   return new PuterAuthManagerInternal(configDir, config);
 }
+
+/**
+ * Shared, initialized auth managers per config directory
+ */
+const sharedAuthManagers = new Map<string, Promise<PuterAuthManager>>();
+
+/**
+ * Get the shared, initialized auth manager for a config directory.
+ * 
+ * Used by AI SDK provider instances, which need the active account on every
+ * request: decrypting the accounts file (scrypt) happens once per directory,
+ * and the manager watches the file to pick up changes from other processes.
+ * A failed initialization isn't cached, so the next call retries.
+ * 
+ * @param configDir - Directory containing puter-accounts.json
+ * @returns The initialized manager for this directory
+ */
+export function getSharedAuthManager(configDir: string): Promise<PuterAuthManager> {
+  const key = path.resolve(configDir);
+  let manager = sharedAuthManagers.get(key);
+  if (!manager) {
+    manager = (async () => {
+      const authManager = createPuterAuthManager(key);
+      await authManager.init();
+      authManager.watch();
+      return authManager;
+    })();
+    manager.catch(() => sharedAuthManagers.delete(key));
+    sharedAuthManagers.set(key, manager);
+  }
+  return manager;
+}
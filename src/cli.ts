@@ -6,17 +6,24 @@
  * 
  * Usage:
  *   puter-auth login       - Authenticate with Puter.com
+ *   puter-auth login --headless - Authenticate from SSH/containers (paste token or remote browser)
+ *   puter-auth login --temp - Create a temporary Puter account (quick trials, CI)
  *   puter-auth logout      - Remove all stored credentials
  *   puter-auth status      - Show current authentication status
+ *   puter-auth cooldowns   - Show (or --clear) rate-limit cooldowns shared by all sessions
  *   puter-auth serve --mcp - Start MCP server for Zed/Claude Desktop
+ *   puter-auth serve --openai - Start a local OpenAI-compatible gateway
  *   puter-auth --help      - Show this help message
  */
 
-import { createPuterAuthManager } from './auth.js';
-import { homedir } from 'os';
-import { join } from 'path';
+import { createPuterAuthManager, type PuterAuthManager } from './auth.js';
+import { getConfigDir } from './config.js';
+import { getCooldownStateStore } from './cooldown-state.js';
+import type { PuterAuthResult, PuterCooldownState } from './types.js';
+import { createInterface } from 'readline';
 
-const configDir = join(homedir(), '.config', 'opencode');
+// Honours XDG_CONFIG_HOME, like the plugin and the AI SDK provider
+const configDir = getConfigDir();
 
 const HELP = `
 puter-auth - Puter.com Authentication for OpenCode
@@ -28,17 +35,34 @@ COMMANDS:
   login        Authenticate with Puter.com (opens browser)
   logout       Remove all stored Puter credentials
   status       Show current authentication status
-  serve        Start a server (use with --mcp for MCP protocol)
+  cooldowns    Show rate-limited models/accounts (use --clear to reset them)
+  serve        Start a server (use with --mcp or --openai)
   help         Show this help message
 
 OPTIONS:
-  --mcp        Start as MCP (Model Context Protocol) server for Zed/Claude Desktop
+  --mcp             Start as MCP (Model Context Protocol) server for Zed/Claude Desktop
+  --openai          Start a local OpenAI-compatible API (/v1/chat/completions, /v1/models)
+  --api-key <key>   Require this bearer key on gateway requests (or set PUTER_GATEWAY_API_KEY)
+  --clear           Clear all model and account cooldowns (with: cooldowns)
+  --headless        Login without opening a browser (SSH, containers, CI)
+  --temp            Create a temporary Puter account instead of signing in
+  --token <token>   Login with an existing auth token (validated before saving)
+  --username <name> Account name to store a pasted/--token login under
+  --host <addr>     Bind address for the headless login callback server (default: localhost)
+                    or the gateway (default: 127.0.0.1)
+  --port <port>     Port for the login callback server (default: 19847)
+                    or the gateway (default: 8787)
 
 EXAMPLES:
   puter-auth login          # Start browser authentication
+  puter-auth login --headless --host 0.0.0.0   # Login from a remote dev box
+  puter-auth login --token "$PUTER_TOKEN"      # Non-interactive login in CI
+  puter-auth login --temp   # Try Puter without an account
   puter-auth status         # Check if authenticated
+  puter-auth cooldowns --clear # Retry rate-limited models/accounts right away
   puter-auth logout         # Clear credentials
   puter-auth serve --mcp    # Start MCP server for Zed IDE
+  puter-auth serve --openai --api-key "$KEY"   # OpenAI-compatible API for aider, continue, scripts
 
 After authenticating, use Puter models in OpenCode:
   opencode -m puter/claude-sonnet-4-5 "Your prompt"
@@ -58,6 +82,86 @@ MCP Integration (Zed IDE, Claude Desktop):
 For more info: https://github.com/Mihai-Codes/opencode-puter-auth
 `;
 
+/**
+ * Get the value following a CLI flag (e.g. --port 8080)
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Get the --port value, exiting if it isn't a valid port number
+ */
+function getPortOption(args: string[]): number | undefined {
+  const portArg = getOption(args, '--port');
+  const port = portArg !== undefined ? Number(portArg) : undefined;
+
+  if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    console.error(`Invalid port: ${portArg}`);
+    process.exit(1);
+  }
+  return port;
+}
+
+/**
+ * Headless login: accept a pasted token on stdin, or a login completed
+ * in a browser on another machine - whichever comes first.
+ */
+async function headlessLogin(
+  authManager: PuterAuthManager,
+  options: { host?: string; port?: number; username?: string }
+): Promise<PuterAuthResult> {
+  const controller = new AbortController();
+  const rl = createInterface({ input: process.stdin });
+
+  console.log('Starting headless Puter authentication...\n');
+  console.log('Paste a Puter auth token and press Enter (browser console on puter.com: puter.authToken),');
+  console.log('or complete the login in a browser using the URL below.');
+
+  const pasted = new Promise<PuterAuthResult>((resolve) => {
+    rl.on('line', async (line) => {
+      if (!line.trim()) return;
+      console.log('Validating token...');
+      const result = await authManager.loginWithToken(line, options.username);
+      if (result.success) {
+        resolve(result);
+      } else {
+        console.error(`❌ ${result.error}. Paste another token or use the login URL.`);
+      }
+    });
+  });
+
+  try {
+    return await Promise.race([
+      authManager.login({ headless: true, host: options.host, port: options.port, signal: controller.signal }),
+      pasted,
+    ]);
+  } finally {
+    controller.abort();
+    rl.close();
+  }
+}
+
+/**
+ * Print active model and account cooldowns
+ * 
+ * @returns Number of cooldowns printed
+ */
+function printCooldowns(state: PuterCooldownState): number {
+  const models = Object.entries(state.models);
+  const accounts = Object.entries(state.accounts);
+
+  for (const [model, entry] of models) {
+    console.log(`  model ${model}: until ${new Date(entry.expiresAt).toLocaleString()} (${entry.reason})`);
+  }
+  for (const [username, entry] of accounts) {
+    const count = state.accountStats[username]?.rateLimitCount ?? 0;
+    console.log(`  account ${username}: until ${new Date(entry.expiresAt).toLocaleString()} (${entry.reason}, rate-limited ${count}x)`);
+  }
+  return models.length + accounts.length;
+}
+
 async function main() {
   const args = process.argv.slice(2);
   const command = args[0]?.toLowerCase();
@@ -73,11 +177,31 @@ async function main() {
 
   switch (command) {
     case 'login': {
-      console.log('Starting Puter authentication...\n');
-      const result = await authManager.login();
+      const token = getOption(args, '--token');
+      const username = getOption(args, '--username');
+      const host = getOption(args, '--host');
+      const port = getPortOption(args);
+
+      let result: PuterAuthResult;
+      if (args.includes('--temp')) {
+        console.log('Creating temporary Puter account...');
+        result = await authManager.createTempAccount();
+      } else if (token) {
+        console.log('Validating token...');
+        result = await authManager.loginWithToken(token, username);
+      } else if (args.includes('--headless')) {
+        result = await headlessLogin(authManager, { host, port, username });
+      } else {
+        console.log('Starting Puter authentication...\n');
+        result = await authManager.login({ port });
+      }
+
       if (result.success) {
         console.log('\n✅ Authentication successful!');
-        console.log(`   Account: ${result.account?.username}`);
+        console.log(`   Account: ${result.account?.username}${result.account?.isTemporary ? ' (temporary)' : ''}`);
+        if (result.account?.isTemporary) {
+          console.log('   Run `puter-auth login` later to upgrade to a permanent account.');
+        }
         console.log('\nYou can now use Puter models in OpenCode:');
         console.log('   opencode -m puter/claude-sonnet-4-5 "Your prompt"');
       } else {
@@ -106,6 +230,9 @@ async function main() {
       console.log('✅ Puter Authentication Status\n');
       console.log(`Active account: ${active?.username || 'none'}`);
       console.log(`Total accounts: ${accounts.length}`);
+      if (active?.isTemporary) {
+        console.log('Using a temporary account - run `puter-auth login` to upgrade.');
+      }
       console.log('');
       
       for (let i = 0; i < accounts.length; i++) {
@@ -118,6 +245,30 @@ async function main() {
           console.log(`      Last used: ${new Date(acc.lastUsed).toLocaleString()}`);
         }
       }
+
+      const state = getCooldownStateStore(configDir).load();
+      if (Object.keys(state.models).length + Object.keys(state.accounts).length > 0) {
+        console.log('\nCooldowns:');
+        printCooldowns(state);
+      }
+      break;
+    }
+
+    case 'cooldowns': {
+      const store = getCooldownStateStore(configDir);
+      if (args.includes('--clear')) {
+        await store.update(state => {
+          state.models = {};
+          state.accounts = {};
+        });
+        console.log('✅ Cleared all model and account cooldowns.');
+        break;
+      }
+
+      console.log('Puter cooldowns\n');
+      if (printCooldowns(store.load()) === 0) {
+        console.log('  No models or accounts on cooldown.');
+      }
       break;
     }
 
@@ -127,8 +278,28 @@ async function main() {
         // Start MCP server
         const { startMcpServer } = await import('./mcp-server.js');
         await startMcpServer();
+      } else if (args.includes('--openai')) {
+        // Start OpenAI-compatible gateway
+        const { startOpenAIServer, API_KEY_ENV_VAR } = await import('./openai-server.js');
+        if (!authManager.isAuthenticated()) {
+          console.error('Not authenticated with Puter. Run: puter-auth login');
+          process.exit(1);
+        }
+        const server = await startOpenAIServer({
+          host: getOption(args, '--host'),
+          port: getPortOption(args),
+          apiKey: getOption(args, '--api-key') ?? process.env[API_KEY_ENV_VAR],
+          configDir,
+        });
+        const shutdown = () => {
+          console.log('Shutting down...');
+          server.close(() => process.exit(0));
+          server.closeAllConnections();
+        };
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
       } else {
-        console.error('Unknown serve mode. Use --mcp for MCP server.');
+        console.error('Unknown serve mode. Use --mcp for MCP server or --openai for an OpenAI-compatible API.');
         console.log('Example: puter-auth serve --mcp');
         process.exit(1);
       }
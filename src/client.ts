@@ -14,7 +14,8 @@ import type {
   PuterConfig,
   PuterMonthlyUsage,
 } from './types.js';
-import { withRetry, type RetryOptions } from './retry.js';
+import { withRetry, throwIfAborted, parseRetryAfter, type RetryOptions } from './retry.js';
+import { createPuterApiError } from './errors.js';
 import { createLoggerFromConfig, type Logger } from './logger.js';
 
 const DEFAULT_API_URL = 'https://api.puter.com';
@@ -70,9 +71,10 @@ export class PuterClient {
    * 
    * This is the key fix for the 403 Forbidden error on /drivers/call.
    * 
+   * @param signal - Optional abort signal for the token request
    * @returns User-app-token for API calls
    */
-  private async getUserAppToken(): Promise<string> {
+  private async getUserAppToken(signal?: AbortSignal): Promise<string> {
     // Check cache first
     if (this.userAppTokenCache) {
       const cacheAge = Date.now() - this.userAppTokenCache.timestamp;
@@ -97,11 +99,16 @@ export class PuterClient {
         body: JSON.stringify({
           origin: this.appOrigin,
         }),
+        signal,
       });
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Failed to get user-app-token (${response.status}): ${errorText}`);
+        throw createPuterApiError(`Failed to get user-app-token (${response.status}): ${errorText}`, {
+          status: response.status,
+          body: errorText,
+          retryAfterMs: parseRetryAfter(response.headers),
+        });
       }
 
       const data = await response.json();
@@ -119,6 +126,9 @@ export class PuterClient {
 
       return this.userAppTokenCache.token;
     } catch (error) {
+      // Don't mask a cancellation as a token fallback
+      throwIfAborted(signal);
+      
       const duration = Date.now() - startTime;
       this.logger.warn('Failed to get user-app-token, falling back to auth_token', { 
         duration: `${duration}ms`,
@@ -129,6 +139,33 @@ export class PuterClient {
     }
   }
 
+  /**
+   * Create a per-request abort controller that fires on timeout
+   * or when the caller's signal is aborted.
+   * 
+   * @param signal - Optional caller-provided abort signal
+   * @returns The controller and a cleanup function to call when the request settles
+   */
+  private createRequestController(signal?: AbortSignal): { controller: AbortController; cleanup: () => void } {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const onAbort = () => controller.abort(signal?.reason);
+    
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+    
+    return {
+      controller,
+      cleanup: () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      },
+    };
+  }
+
   /**
    * Invalidate the user-app-token cache
    */
@@ -221,8 +258,10 @@ export class PuterClient {
    * 
    * @param messages - Array of chat messages
    * @param options - Chat options (model, temperature, etc.)
+   * @param signal - Optional abort signal; cancels the request and any pending retries
    * @returns Chat response with assistant message
    * @throws Error if request fails after all retries
+   * @throws AbortError if the signal is aborted
    * 
    * @example
    * ```ts
@@ -234,7 +273,8 @@ export class PuterClient {
    */
   public async chat(
     messages: PuterChatMessage[],
-    options: PuterChatOptions = {}
+    options: PuterChatOptions = {},
+    signal?: AbortSignal
   ): Promise<PuterChatResponse> {
     const model = options.model || 'gpt-5-nano';
     const startTime = Date.now();
@@ -253,8 +293,12 @@ export class PuterClient {
         stream: false,
         max_tokens: options.max_tokens,
         temperature: options.temperature,
+        top_p: options.top_p,
+        stop: options.stop,
         tools: options.tools,
-      });
+        tool_choice: options.tool_choice,
+        response_format: options.response_format,
+      }, signal);
 
       const duration = Date.now() - startTime;
       this.logger.response(200, 'OK', duration);
@@ -278,7 +322,9 @@ export class PuterClient {
    * 
    * @param messages - Array of chat messages
    * @param options - Chat options (model, temperature, etc.)
+   * @param signal - Optional abort signal; cancels the connection, retries and body reads
    * @yields Chat stream chunks with text, reasoning, or tool calls
+   * @throws AbortError if the signal is aborted
    * 
    * @example
    * ```ts
@@ -291,10 +337,10 @@ export class PuterClient {
    */
   public async *chatStream(
     messages: PuterChatMessage[],
-    options: PuterChatOptions = {}
+    options: PuterChatOptions = {},
+    signal?: AbortSignal
   ): AsyncGenerator<PuterChatStreamChunk> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const { controller, cleanup } = this.createRequestController(signal);
     const model = options.model || 'gpt-5-nano';
     const startTime = Date.now();
 
@@ -305,46 +351,20 @@ export class PuterClient {
       messages: messages.length,
     });
 
-    // Get user-app-token (required for /drivers/call)
-    const userAppToken = await this.getUserAppToken();
-
     try {
       // Retry the initial connection
-      const response = await withRetry(async () => {
-        const res = await fetch(`${this.apiUrl}/drivers/call`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Origin': this.appOrigin,
-          },
-          body: JSON.stringify({
-            interface: 'puter-chat-completion',
-            service: 'ai-chat',
-            method: 'complete',
-            args: {
-              messages,
-              model,
-              stream: true,
-              max_tokens: options.max_tokens,
-              temperature: options.temperature,
-              tools: options.tools,
-            },
-            auth_token: userAppToken,
-          }),
-          signal: controller.signal,
-        });
-
-        if (!res.ok) {
-          const errorText = await res.text();
-          // If we get 403, invalidate the user-app-token cache
-          if (res.status === 403) {
-            this.invalidateUserAppTokenCache();
-          }
-          throw new Error(`Puter API error (${res.status}): ${errorText}`);
-        }
-
-        return res;
-      }, this.retryOptions);
+      const response = await this.callDriver('complete', {
+        messages,
+        model,
+        stream: true,
+        max_tokens: options.max_tokens,
+        temperature: options.temperature,
+        top_p: options.top_p,
+        stop: options.stop,
+        tools: options.tools,
+        tool_choice: options.tool_choice,
+        response_format: options.response_format,
+      }, controller.signal);
 
       const connectionTime = Date.now() - startTime;
       this.logger.debug('Stream connected', { duration: `${connectionTime}ms` });
@@ -397,7 +417,7 @@ export class PuterClient {
       const totalDuration = Date.now() - startTime;
       this.logger.response(200, 'Stream ended', totalDuration);
     } finally {
-      clearTimeout(timeoutId);
+      cleanup();
     }
   }
 
@@ -446,7 +466,10 @@ export class PuterClient {
         });
 
         if (!response.ok) {
-          throw new Error(`Failed to fetch models (${response.status})`);
+          throw createPuterApiError(`Failed to fetch models (${response.status})`, {
+            status: response.status,
+            retryAfterMs: parseRetryAfter(response.headers),
+          });
         }
 
         const data = await response.json();
@@ -510,52 +533,101 @@ export class PuterClient {
    * 
    * @param method - API method to call
    * @param args - Arguments to pass to the method
+   * @param signal - Optional abort signal
    * @returns API response
    * @throws Error if request fails after all retries
    */
   private async makeRequest(
     method: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    signal?: AbortSignal
   ): Promise<{ result: unknown }> {
     // Get user-app-token (required for /drivers/call)
-    const userAppToken = await this.getUserAppToken();
+    const userAppToken = await this.getUserAppToken(signal);
     
     return withRetry(async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      const { controller, cleanup } = this.createRequestController(signal);
 
       try {
-        const response = await fetch(`${this.apiUrl}/drivers/call`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Origin': this.appOrigin,
-          },
-          body: JSON.stringify({
-            interface: 'puter-chat-completion',
-            service: 'ai-chat',
-            method,
-            args,
-            auth_token: userAppToken,
-          }),
-          signal: controller.signal,
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          // If we get 403, invalidate the user-app-token cache and retry
-          if (response.status === 403) {
-            this.invalidateUserAppTokenCache();
-          }
-          throw new Error(`Puter API error (${response.status}): ${errorText}`);
-        }
-
+        const response = await this.postDriversCall(method, args, userAppToken, controller.signal);
         const data = await response.json();
         return data;
       } finally {
-        clearTimeout(timeoutId);
+        cleanup();
       }
-    }, this.retryOptions);
+    }, { ...this.retryOptions, signal });
+  }
+
+  /**
+   * Call a /drivers/call method and return the raw response
+   * 
+   * Authenticates with the user-app-token and Origin header, retries
+   * transient failures and invalidates the cached user-app-token on 403.
+   * The body isn't read, so streaming responses can be consumed by the caller.
+   * The request timeout is not applied - pass a signal to bound it.
+   * 
+   * @param method - API method to call (e.g. 'complete')
+   * @param args - Arguments to pass to the method
+   * @param signal - Optional abort signal; cancels the request and any pending retries
+   * @returns The successful response
+   * @throws PuterApiError if the request fails after all retries
+   */
+  public async callDriver(
+    method: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    // Get user-app-token (required for /drivers/call)
+    const userAppToken = await this.getUserAppToken(signal);
+    
+    return withRetry(
+      () => this.postDriversCall(method, args, userAppToken, signal),
+      { ...this.retryOptions, signal }
+    );
+  }
+
+  /**
+   * Make a single /drivers/call request
+   * 
+   * @throws PuterApiError for non-2xx responses
+   */
+  private async postDriversCall(
+    method: string,
+    args: Record<string, unknown>,
+    userAppToken: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}/drivers/call`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Origin': this.appOrigin,
+      },
+      body: JSON.stringify({
+        interface: 'puter-chat-completion',
+        service: 'ai-chat',
+        method,
+        args,
+        auth_token: userAppToken,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      // If we get 403, invalidate the user-app-token cache so the next call fetches a new one
+      if (response.status === 403) {
+        this.invalidateUserAppTokenCache();
+      }
+      throw createPuterApiError(`Puter API error (${response.status}): ${errorText}`, {
+        status: response.status,
+        body: errorText,
+        model: typeof args.model === 'string' ? args.model : undefined,
+        retryAfterMs: parseRetryAfter(response.headers),
+      });
+    }
+
+    return response;
   }
 
   /**
@@ -615,7 +687,11 @@ export class PuterClient {
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Failed to get monthly usage (${response.status}): ${errorText}`);
+        throw createPuterApiError(`Failed to get monthly usage (${response.status}): ${errorText}`, {
+          status: response.status,
+          body: errorText,
+          retryAfterMs: parseRetryAfter(response.headers),
+        });
       }
 
       const data = await response.json();
@@ -0,0 +1,91 @@
+/**
+ * Plugin configuration loading
+ * 
+ * Shared by the OpenCode plugin and the AI SDK provider so both
+ * read the same config directory and puter.json settings.
+ */
+
+import path from 'node:path';
+import os from 'node:os';
+import { promises as fs } from 'node:fs';
+import type { PuterConfig } from './types.js';
+import { PuterConfigSchema } from './types.js';
+import type { PuterStreamTimeouts } from './ai-provider/puter-chat-settings.js';
+import { findModelEntry } from './fallback.js';
+
+/**
+ * Default streaming timeouts (0 = no limit). The first-chunk timeout also
+ * catches the Puter SDK hanging instead of rejecting on errors.
+ */
+export const DEFAULT_STREAM_TIMEOUTS: Required<PuterStreamTimeouts> = {
+  firstChunkMs: 30000,
+  chunkMs: 60000,
+  totalMs: 0,
+};
+
+/**
+ * Get the OpenCode config directory (respects XDG_CONFIG_HOME)
+ * 
+ * @returns Path to the config directory, e.g. ~/.config/opencode
+ */
+export function getConfigDir(): string {
+  const xdgConfig = process.env.XDG_CONFIG_HOME;
+  if (xdgConfig) {
+    return path.join(xdgConfig, 'opencode');
+  }
+  return path.join(os.homedir(), '.config', 'opencode');
+}
+
+/**
+ * Load plugin configuration from puter.json
+ * 
+ * @param configDir - Directory containing puter.json
+ * @returns Parsed settings (empty if the file is missing or invalid)
+ */
+export async function loadConfig(configDir: string): Promise<Partial<PuterConfig>> {
+  const configPath = path.join(configDir, 'puter.json');
+  
+  try {
+    const data = await fs.readFile(configPath, 'utf-8');
+    const parsed = JSON.parse(data);
+    return PuterConfigSchema.partial().parse(parsed);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Resolve the streaming timeouts for a model.
+ * 
+ * Precedence (per field): `overrides` in order, puter.json `stream_timeouts`,
+ * puter.json `stream_*_timeout_ms`, built-in defaults.
+ * 
+ * @param fileConfig - Settings from {@link loadConfig}
+ * @param model - Model the stream is for
+ * @param overrides - Higher-priority timeouts (e.g. model and provider settings)
+ */
+export function resolveStreamTimeouts(
+  fileConfig: Partial<PuterConfig>,
+  model: string,
+  overrides: PuterStreamTimeouts[] = []
+): Required<PuterStreamTimeouts> {
+  const fileOverride = findModelEntry(fileConfig.stream_timeouts, model);
+  
+  const sources: PuterStreamTimeouts[] = [
+    ...overrides,
+    {
+      firstChunkMs: fileOverride?.first_chunk_ms,
+      chunkMs: fileOverride?.chunk_ms,
+      totalMs: fileOverride?.total_ms,
+    },
+    {
+      firstChunkMs: fileConfig.stream_first_chunk_timeout_ms,
+      chunkMs: fileConfig.stream_chunk_timeout_ms,
+      totalMs: fileConfig.stream_total_timeout_ms,
+    },
+  ];
+  const pick = (key: keyof PuterStreamTimeouts): number =>
+    sources.find(source => source[key] !== undefined)?.[key] ?? DEFAULT_STREAM_TIMEOUTS[key];
+  
+  return { firstChunkMs: pick('firstChunkMs'), chunkMs: pick('chunkMs'), totalMs: pick('totalMs') };
+}
@@ -0,0 +1,164 @@
+/**
+ * Persisted cooldown state
+ *
+ * Model cooldowns (FallbackManager) and account cooldowns / rate-limit
+ * counters (AccountRotationManager) are kept in puter-state.json in the
+ * config directory, so new sessions of the plugin, the MCP server and the
+ * CLI don't re-hit models and accounts that are known to be rate-limited.
+ *
+ * Entries are expired by timestamp and pruned on every write.
+ *
+ * @module cooldown-state
+ */
+
+import { readFileSync, statSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { PuterCooldownStateSchema, type PuterCooldownState } from './types.js';
+import { withFileLock, writeFileAtomic } from './file-lock.js';
+import type { Logger } from './logger.js';
+
+/** File name of the cooldown state (stored in the config directory) */
+export const COOLDOWN_STATE_FILE = 'puter-state.json';
+
+const STATE_VERSION = 1;
+
+/**
+ * Create an empty cooldown state
+ */
+export function createEmptyCooldownState(): PuterCooldownState {
+  return { version: STATE_VERSION, models: {}, accounts: {}, accountStats: {} };
+}
+
+/**
+ * Drop cooldown entries that have already expired.
+ *
+ * @param state - State to prune (modified in place)
+ * @param now - Current time
+ * @returns The pruned state
+ */
+export function pruneExpiredCooldowns(state: PuterCooldownState, now: number = Date.now()): PuterCooldownState {
+  for (const [model, entry] of Object.entries(state.models)) {
+    if (entry.expiresAt <= now) delete state.models[model];
+  }
+  for (const [username, entry] of Object.entries(state.accounts)) {
+    if (entry.expiresAt <= now) delete state.accounts[username];
+  }
+  return state;
+}
+
+/**
+ * Reads and updates the shared cooldown state file.
+ *
+ * Reads are synchronous so managers can load their state in a constructor;
+ * writes are read-modify-write under the file lock, queued in order, and
+ * never throw (failures are logged - cooldowns still work in memory).
+ */
+export class CooldownStateStore {
+  private readonly stateFile: string;
+  private readonly logger?: Logger;
+  private lastMtimeMs = 0;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * @param configDir - Directory containing puter-state.json
+   * @param logger - Optional logger for write failures
+   */
+  constructor(configDir: string, logger?: Logger) {
+    this.stateFile = path.join(configDir, COOLDOWN_STATE_FILE);
+    this.logger = logger;
+  }
+
+  /**
+   * Get the path of the state file
+   */
+  public getStateFile(): string {
+    return this.stateFile;
+  }
+
+  /**
+   * Load the current state, without expired entries.
+   *
+   * @returns The stored state (empty if missing or invalid)
+   */
+  public load(): PuterCooldownState {
+    try {
+      this.lastMtimeMs = statSync(this.stateFile).mtimeMs;
+      const data = readFileSync(this.stateFile, 'utf-8');
+      return pruneExpiredCooldowns(PuterCooldownStateSchema.parse(JSON.parse(data)));
+    } catch {
+      return createEmptyCooldownState();
+    }
+  }
+
+  /**
+   * Load the state only if the file changed since the last load or write.
+   *
+   * @returns The stored state, or null if nothing changed
+   */
+  public loadIfChanged(): PuterCooldownState | null {
+    try {
+      if (statSync(this.stateFile).mtimeMs === this.lastMtimeMs) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+    return this.load();
+  }
+
+  /**
+   * Apply a change to the stored state (read-modify-write under the file lock).
+   *
+   * @param mutate - Change to apply to the freshly read state
+   * @returns Promise that resolves once the change is written (or failed)
+   */
+  public update(mutate: (state: PuterCooldownState) => void): Promise<void> {
+    this.pending = this.pending.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.stateFile), { recursive: true });
+        await withFileLock(this.stateFile, async () => {
+          const state = this.load();
+          mutate(state);
+          state.version = STATE_VERSION;
+          await writeFileAtomic(this.stateFile, JSON.stringify(pruneExpiredCooldowns(state), null, 2));
+          this.lastMtimeMs = (await fs.stat(this.stateFile)).mtimeMs;
+        });
+      } catch (error) {
+        this.logger?.debug(
+          `Failed to save cooldown state: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    });
+    return this.pending;
+  }
+
+  /**
+   * Wait for all queued writes to finish.
+   */
+  public flush(): Promise<void> {
+    return this.pending;
+  }
+}
+
+/**
+ * Shared stores per config directory, so all managers in a process queue
+ * their writes through the same instance
+ */
+const stores = new Map<string, CooldownStateStore>();
+
+/**
+ * Get the shared CooldownStateStore for a config directory
+ *
+ * @param configDir - Directory containing puter-state.json
+ * @param logger - Optional logger (only used when creating the store)
+ * @returns The store for this directory
+ */
+export function getCooldownStateStore(configDir: string, logger?: Logger): CooldownStateStore {
+  const key = path.resolve(configDir);
+  let store = stores.get(key);
+  if (!store) {
+    store = new CooldownStateStore(key, logger);
+    stores.set(key, store);
+  }
+  return store;
+}
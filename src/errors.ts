@@ -0,0 +1,229 @@
+/**
+ * Typed errors for Puter API failures
+ *
+ * Thrown by PuterClient and the AI SDK model (wrapping Puter SDK rejections),
+ * so error classification can read the HTTP status and Puter error code
+ * instead of pattern-matching the message text.
+ *
+ * - PuterAuthError: 401 - invalid or expired token
+ * - PuterForbiddenError: 402/403 - account has no access or ran out of credits
+ * - PuterNotFoundError: 404 - unknown model or endpoint
+ * - PuterRateLimitError: 429 - too many requests
+ * - PuterServerError: 5xx - Puter or the upstream provider failed
+ *
+ * @module errors
+ */
+
+import { HttpStatusError, RETRYABLE_STATUSES } from './retry.js';
+
+/**
+ * Statuses for Puter error codes, used when an SDK error has no HTTP status
+ */
+const STATUS_BY_CODE: Record<string, number> = {
+  token_auth_failed: 401,
+  unauthorized: 401,
+  insufficient_funds: 402,
+  forbidden: 403,
+  permission_denied: 403,
+  not_found: 404,
+  entity_not_found: 404,
+  model_not_found: 404,
+  too_many_requests: 429,
+  rate_limit_exceeded: 429,
+  internal_error: 500,
+  service_unavailable: 503,
+};
+
+/**
+ * Details carried by a {@link PuterApiError}
+ */
+export interface PuterApiErrorDetails {
+  /** HTTP status code */
+  status: number;
+  /** Puter error code (e.g. 'insufficient_funds'), if the body had one */
+  code?: string;
+  /** Model the request was for */
+  model?: string;
+  /** Username of the account that made the request */
+  account?: string;
+  /** Raw response body */
+  body?: string;
+  /** Server retry hint in milliseconds (Retry-After / X-RateLimit-Reset) */
+  retryAfterMs?: number;
+}
+
+/**
+ * Error returned by the Puter API
+ */
+export class PuterApiError extends HttpStatusError {
+  public readonly code?: string;
+  public readonly model?: string;
+  public readonly account?: string;
+  public readonly body?: string;
+  /** Whether the request may succeed if retried (429, 408, 5xx) */
+  public readonly retryable: boolean;
+
+  constructor(message: string, details: PuterApiErrorDetails) {
+    super(message, details.status, details.retryAfterMs);
+    this.name = 'PuterApiError';
+    this.code = details.code;
+    this.model = details.model;
+    this.account = details.account;
+    this.body = details.body;
+    this.retryable = RETRYABLE_STATUSES.includes(details.status);
+  }
+}
+
+/**
+ * 401 - the auth token is invalid or expired
+ */
+export class PuterAuthError extends PuterApiError {
+  constructor(message: string, details: PuterApiErrorDetails) {
+    super(message, details);
+    this.name = 'PuterAuthError';
+  }
+}
+
+/**
+ * 402/403 - the account has no access to the model or ran out of credits
+ */
+export class PuterForbiddenError extends PuterApiError {
+  constructor(message: string, details: PuterApiErrorDetails) {
+    super(message, details);
+    this.name = 'PuterForbiddenError';
+  }
+}
+
+/**
+ * 404 - the model or endpoint doesn't exist
+ */
+export class PuterNotFoundError extends PuterApiError {
+  constructor(message: string, details: PuterApiErrorDetails) {
+    super(message, details);
+    this.name = 'PuterNotFoundError';
+  }
+}
+
+/**
+ * 429 - too many requests
+ */
+export class PuterRateLimitError extends PuterApiError {
+  constructor(message: string, details: PuterApiErrorDetails) {
+    super(message, details);
+    this.name = 'PuterRateLimitError';
+  }
+}
+
+/**
+ * 5xx - Puter or the upstream provider failed
+ */
+export class PuterServerError extends PuterApiError {
+  constructor(message: string, details: PuterApiErrorDetails) {
+    super(message, details);
+    this.name = 'PuterServerError';
+  }
+}
+
+/**
+ * Read the Puter error code from a response body
+ * (`{ error: { code } }` or `{ code }`)
+ */
+function parseErrorCode(body?: string): string | undefined {
+  if (!body) return undefined;
+  try {
+    const data = JSON.parse(body) as { code?: unknown; error?: { code?: unknown } };
+    const code = data?.error?.code ?? data?.code;
+    return typeof code === 'string' ? code : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create the error subclass matching an HTTP status
+ *
+ * @param message - Error message (keep the `(status)` form, e.g. "Puter API error (429): ...")
+ * @param details - Status and request context; `code` is read from `body` when omitted
+ * @returns A PuterApiError (or subclass)
+ *
+ * @example
+ * ```ts
+ * throw createPuterApiError(`Puter API error (${res.status}): ${text}`, {
+ *   status: res.status,
+ *   body: text,
+ *   model,
+ *   retryAfterMs: parseRetryAfter(res.headers),
+ * });
+ * ```
+ */
+export function createPuterApiError(message: string, details: PuterApiErrorDetails): PuterApiError {
+  const fullDetails = { ...details, code: details.code ?? parseErrorCode(details.body) };
+  const { status } = fullDetails;
+
+  if (status === 401) return new PuterAuthError(message, fullDetails);
+  if (status === 402 || status === 403) return new PuterForbiddenError(message, fullDetails);
+  if (status === 404) return new PuterNotFoundError(message, fullDetails);
+  if (status === 429) return new PuterRateLimitError(message, fullDetails);
+  if (status >= 500) return new PuterServerError(message, fullDetails);
+  return new PuterApiError(message, fullDetails);
+}
+
+/**
+ * Convert a Puter SDK rejection into a PuterApiError
+ *
+ * The SDK rejects with Errors or with plain error objects such as
+ * `{ success: false, error: { code, message, status } }`. When no status can
+ * be determined (from the error or its Puter code), an Error is returned
+ * unchanged and other values become a plain Error, so the message
+ * heuristics still apply.
+ *
+ * @param error - What the SDK rejected with
+ * @param context - Model and account the request was made with
+ * @returns A typed error when the status is known, otherwise an Error
+ */
+export function toPuterApiError(
+  error: unknown,
+  context: { model?: string; account?: string } = {}
+): Error {
+  if (error instanceof PuterApiError) return error;
+
+  const source = (error && typeof error === 'object' ? error : {}) as {
+    status?: unknown;
+    statusCode?: unknown;
+    code?: unknown;
+    message?: unknown;
+    error?: { status?: unknown; code?: unknown; message?: unknown } | string;
+  };
+  const inner = typeof source.error === 'object' && source.error !== null ? source.error : {};
+
+  const code = [inner.code, source.code].find((value): value is string => typeof value === 'string');
+  const message = [inner.message, source.message, source.error, typeof error === 'string' ? error : undefined]
+    .find((value): value is string => typeof value === 'string' && value.length > 0)
+    ?? 'Unknown Puter error';
+  const status = [inner.status, source.status, source.statusCode]
+    .find((value): value is number => typeof value === 'number' && value >= 100 && value < 600)
+    ?? (code ? STATUS_BY_CODE[code] : undefined);
+
+  if (status === undefined) {
+    return error instanceof Error ? error : new Error(message);
+  }
+
+  return createPuterApiError(`Puter API error (${status}): ${message}`, {
+    status,
+    code,
+    model: context.model,
+    account: context.account,
+    body: error instanceof Error ? undefined : safeStringify(error),
+  });
+}
+
+/**
+ * JSON.stringify that never throws (for raw bodies of SDK errors)
+ */
+function safeStringify(value: unknown): string | undefined {
+  try {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  } catch {
+    return undefined;
+  }
+}
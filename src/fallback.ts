@@ -27,6 +27,9 @@
  */
 
 import type { Logger } from './logger.js';
+import type { PuterCooldownState, PuterModelInfo } from './types.js';
+import { createAbortError, getRetryAfterMs, throwIfAborted, HttpStatusError } from './retry.js';
+import type { CooldownStateStore } from './cooldown-state.js';
 
 /**
  * Default fallback models - FREE OpenRouter models via Puter gateway.
@@ -71,6 +74,32 @@ export const DEFAULT_FALLBACK_MODELS = [
  */
 export const DEFAULT_COOLDOWN_MS = 60000;
 
+/**
+ * Default cap for a model's open period as it grows exponentially (15 minutes)
+ */
+export const DEFAULT_MAX_COOLDOWN_MS = 900000;
+
+/**
+ * Default number of consecutive failures that opens a model's circuit
+ */
+export const DEFAULT_FAILURE_THRESHOLD = 1;
+
+/**
+ * How long model capability data from listModels is reused (1 hour)
+ */
+export const MODEL_CATALOG_TTL_MS = 3600000;
+
+/**
+ * How long a model capability load may take before it's given up (10 seconds)
+ */
+export const MODEL_CATALOG_LOAD_TIMEOUT_MS = 10000;
+
+/**
+ * How long a half-open probe may run before another request may probe the
+ * model instead (2 minutes), so a hung probe can't keep the circuit closed to traffic
+ */
+export const PROBE_TIMEOUT_MS = 120000;
+
 /**
  * Error type classification for better debugging
  */
@@ -90,14 +119,61 @@ export type FallbackErrorType =
 export interface FallbackOptions {
   /** List of fallback models to try when primary fails */
   fallbackModels?: string[];
-  /** Cooldown duration in milliseconds */
+  /** Cooldown duration in milliseconds (first open period; doubles on each consecutive opening) */
   cooldownMs?: number;
+  /** Maximum cooldown duration in milliseconds (default: 15 minutes) */
+  maxCooldownMs?: number;
+  /** Consecutive failures before a model's circuit opens (default: 1) */
+  failureThreshold?: number;
   /** Whether fallback is enabled */
   enabled?: boolean;
   /** Verbose logging - show detailed info about each attempt */
   verbose?: boolean;
   /** Quiet mode - only show errors, suppress info/warnings */
   quiet?: boolean;
+  /**
+   * Per-model fallback chains, keyed by primary model ID or glob pattern
+   * (e.g. `claude-opus-*`). Models without a matching chain use `fallbackModels`.
+   */
+  fallbackChains?: Record<string, string[]>;
+  /** Model aliases (e.g. `fast` → `gemini-2.5-flash`), resolved before the queue is built */
+  modelAliases?: Record<string, string>;
+  /** Persist cooldowns to (and load them from) this store, shared across processes */
+  stateStore?: CooldownStateStore;
+}
+
+/**
+ * Capabilities a request needs from the model that serves it
+ */
+export interface ModelRequirements {
+  /** Request includes tool definitions */
+  tools?: boolean;
+  /** Request includes images or other file inputs */
+  vision?: boolean;
+  /** Context window needed for the prompt plus the requested output (tokens) */
+  minContextWindow?: number;
+  /** Requested maximum output tokens */
+  minOutputTokens?: number;
+}
+
+/**
+ * A fallback model left out of the queue because it can't serve the request
+ */
+export interface SkippedModel {
+  /** Model that was skipped */
+  model: string;
+  /** Why the model is incompatible */
+  reason: string;
+}
+
+/**
+ * Model queue built for a request
+ */
+export interface ModelQueuePlan {
+  /** Models to try, in order */
+  queue: string[];
+  /** Fallback models skipped for missing capabilities */
+  skipped: SkippedModel[];
 }
 
 /**
@@ -155,6 +231,63 @@ export function stripFreeSuffix(modelId: string): string {
   return modelId;
 }
 
+/**
+ * Check whether a model can serve a request.
+ * 
+ * Only known capabilities rule a model out - missing capability data
+ * counts as compatible.
+ * 
+ * @param info - Capability data for the model (from listModels)
+ * @param requirements - What the request needs
+ * @returns Why the model is incompatible, or null if it may serve the request
+ */
+export function getIncompatibilityReason(
+  info: PuterModelInfo | undefined,
+  requirements: ModelRequirements
+): string | null {
+  if (!info) return null;
+  
+  if (requirements.tools && info.supports_tools === false) {
+    return 'no tool calling support';
+  }
+  if (requirements.vision && info.supports_vision === false) {
+    return 'no image input support';
+  }
+  if (requirements.minContextWindow && info.context_window !== undefined && info.context_window < requirements.minContextWindow) {
+    return `context window ${info.context_window} < ${requirements.minContextWindow} tokens`;
+  }
+  if (requirements.minOutputTokens && info.max_output_tokens !== undefined && info.max_output_tokens < requirements.minOutputTokens) {
+    return `max output ${info.max_output_tokens} < ${requirements.minOutputTokens} tokens`;
+  }
+  return null;
+}
+
+/**
+ * Check if a model ID matches a fallback chain key
+ * 
+ * Keys may use `*` (any characters) and `?` (one character) wildcards.
+ * 
+ * @example
+ * matchesModelPattern('claude-opus-4-5', 'claude-opus-*') // true
+ */
+export function matchesModelPattern(model: string, pattern: string): boolean {
+  const regex = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${regex}$`).test(model);
+}
+
+/**
+ * Find the entry for a model: an exact key wins over glob patterns
+ */
+export function findModelEntry<T>(entries: Record<string, T> | undefined, model: string): T | undefined {
+  if (!entries) return undefined;
+  if (entries[model] !== undefined) return entries[model];
+  const pattern = Object.keys(entries).find(key => matchesModelPattern(model, key));
+  return pattern !== undefined ? entries[pattern] : undefined;
+}
+
 /**
  * Check if a model ID has the :free suffix
  */
@@ -203,6 +336,23 @@ export class FallbackExhaustedError extends Error {
   }
 }
 
+/**
+ * Error thrown when every compatible model failed and the remaining
+ * fallbacks were skipped because they can't serve the request
+ * (e.g. no tool calling or image support)
+ */
+export class NoCompatibleFallbackError extends FallbackExhaustedError {
+  public readonly skippedModels: SkippedModel[];
+  
+  constructor(attempts: FallbackAttempt[], skippedModels: SkippedModel[]) {
+    super(attempts);
+    const reasons = [...new Set(skippedModels.map(s => s.reason))].join('; ');
+    this.message = `No compatible fallback model left: skipped ${skippedModels.length} fallback model(s) (${reasons}).\n${this.message}`;
+    this.name = 'NoCompatibleFallbackError';
+    this.skippedModels = skippedModels;
+  }
+}
+
 /**
  * Check if an error indicates a rate limit
  * 
@@ -211,10 +361,16 @@ export class FallbackExhaustedError extends Error {
  * - HTTP 403 (Forbidden) - Puter uses this for account limits
  * - Various error message patterns
  * 
+ * Errors with a known HTTP status (e.g. PuterApiError) are judged by status
+ * alone; the message patterns only apply to untyped errors.
+ * 
  * @param error - The error to check
  * @returns true if the error is a rate limit error
  */
 export function isRateLimitError(error: unknown): boolean {
+  if (error instanceof HttpStatusError) {
+    return error.status === 429 || error.status === 403 || error.status === 402;
+  }
   if (!(error instanceof Error)) return false;
   
   const message = error.message.toLowerCase();
@@ -245,12 +401,16 @@ export function isRateLimitError(error: unknown): boolean {
 }
 
 /**
- * Extract HTTP status code from error message
+ * Extract HTTP status code from an error
+ * 
+ * Uses the status of typed errors (e.g. PuterApiError), falling back to
+ * parsing the message.
  * 
  * @param error - The error to extract status from
  * @returns HTTP status code or undefined
  */
 export function extractHttpStatus(error: unknown): number | undefined {
+  if (error instanceof HttpStatusError) return error.status;
   if (!(error instanceof Error)) return undefined;
   
   const message = error.message;
@@ -280,6 +440,9 @@ export function extractHttpStatus(error: unknown): number | undefined {
 /**
  * Classify an error into a FallbackErrorType
  * 
+ * The HTTP status decides first (from typed errors, or parsed from the
+ * message); message patterns cover the rest.
+ * 
  * @param error - The error to classify
  * @returns The error type classification
  */
@@ -293,6 +456,7 @@ export function classifyError(error: unknown): FallbackErrorType {
   if (httpStatus) {
     switch (httpStatus) {
       case 429: return 'rate_limit';
+      case 402:
       case 403: return 'forbidden';
       case 401: return 'auth_error';
       case 404: return 'not_found';
@@ -301,6 +465,7 @@ export function classifyError(error: unknown): FallbackErrorType {
       case 503:
       case 504: return 'server_error';
     }
+    if (error instanceof HttpStatusError && httpStatus >= 500) return 'server_error';
   }
   
   // Check by message patterns
@@ -358,13 +523,55 @@ function formatDuration(ms: number): string {
 }
 
 /**
- * Cooldown entry storing when a model will be available again
+ * Circuit breaker state of a model
+ * - closed: requests go through; failures are counted
+ * - open: the model is skipped until its cooldown expires
+ * - half-open: the cooldown expired; one probe request is let through,
+ *   closing the circuit on success or reopening it (for longer) on failure
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker status of a model (see getCooldownStatus)
+ */
+export interface ModelCircuitStatus {
+  /** Current circuit state */
+  state: CircuitState;
+  /** Remaining cooldown in ms (0 unless open) */
+  remainingMs: number;
+  /** Last failure reason */
+  reason: string;
+  /** Consecutive failures since the last success */
+  consecutiveFailures: number;
+  /** Times the circuit opened since the last success (drives the open period) */
+  openCount: number;
+}
+
+/**
+ * Circuit breaker entry for a model
  */
 interface CooldownEntry {
-  /** Timestamp when cooldown expires */
+  /** Timestamp when the open period ends (0 if never opened) */
   expiresAt: number;
-  /** Reason for cooldown */
+  /** Reason for the last failure */
   reason: string;
+  /** Consecutive failures since the last success */
+  consecutiveFailures: number;
+  /** Times the circuit opened since the last success */
+  openCount: number;
+  /** When the half-open probe request in flight started, if any */
+  probeStartedAt?: number;
+}
+
+/**
+ * State shared by a manager and the managers derived from it with withOptions
+ */
+interface SharedFallbackState {
+  cooldownMap: Map<string, CooldownEntry>;
+  stateStore?: CooldownStateStore;
+  modelCatalog: Map<string, PuterModelInfo>;
+  modelCatalogUpdatedAt: number;
+  modelCatalogLoad: Promise<void> | null;
 }
 
 /**
@@ -372,40 +579,129 @@ interface CooldownEntry {
  * 
  * This is a singleton-style class designed to be shared across all
  * PuterChatLanguageModel instances so cooldown state is consistent.
+ * Instances with their own settings (e.g. per createPuter call) are
+ * derived with withOptions and share the cooldowns and model catalog.
  */
 export class FallbackManager {
-  private cooldownMap: Map<string, CooldownEntry> = new Map();
+  private shared: SharedFallbackState = {
+    cooldownMap: new Map(),
+    modelCatalog: new Map(),
+    modelCatalogUpdatedAt: 0,
+    modelCatalogLoad: null,
+  };
   private fallbackModels: string[];
+  private fallbackChains: Record<string, string[]>;
+  private modelAliases: Record<string, string>;
   private cooldownMs: number;
+  private maxCooldownMs: number;
+  private failureThreshold: number;
   private enabled: boolean;
   private verbose: boolean;
   private quiet: boolean;
   
   constructor(options: FallbackOptions = {}) {
     this.fallbackModels = options.fallbackModels ?? DEFAULT_FALLBACK_MODELS;
+    this.fallbackChains = options.fallbackChains ?? {};
+    this.modelAliases = options.modelAliases ?? {};
     this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.maxCooldownMs = options.maxCooldownMs ?? DEFAULT_MAX_COOLDOWN_MS;
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
     this.enabled = options.enabled ?? true;
     this.verbose = options.verbose ?? false;
     this.quiet = options.quiet ?? false;
+    if (options.stateStore) {
+      this.attachStateStore(options.stateStore);
+    }
+  }
+  
+  /**
+   * Create a manager with its own settings that shares this manager's
+   * cooldowns, state store and model catalog
+   * 
+   * @param options - Settings that differ from this manager's
+   * @returns The derived manager; configuring it leaves this one unchanged
+   */
+  public withOptions(options: Omit<FallbackOptions, 'stateStore'>): FallbackManager {
+    const derived = new FallbackManager({ ...this.getConfig(), ...options });
+    derived.shared = this.shared;
+    return derived;
+  }
+  
+  /**
+   * Start persisting cooldowns to a state store, loading the stored ones
+   * 
+   * @param store - Store shared with other processes
+   */
+  private attachStateStore(store: CooldownStateStore): void {
+    this.shared.stateStore = store;
+    this.replaceStoredCooldowns(store.load().models);
+  }
+  
+  /**
+   * Pick up cooldowns written or cleared by other processes since the last read
+   */
+  private syncFromStateStore(): void {
+    const state = this.shared.stateStore?.loadIfChanged();
+    if (state) {
+      this.replaceStoredCooldowns(state.models);
+    }
+  }
+  
+  /**
+   * Replace the in-memory cooldowns with the stored ones, so cooldowns removed
+   * from the file (e.g. by `puter-auth cooldowns --clear`) are dropped too.
+   * Failure counts that never opened a circuit aren't stored and are kept.
+   */
+  private replaceStoredCooldowns(models: PuterCooldownState['models']): void {
+    for (const [model, entry] of this.shared.cooldownMap) {
+      if (entry.openCount > 0 && !(model in models)) {
+        this.shared.cooldownMap.delete(model);
+      }
+    }
+    for (const [model, entry] of Object.entries(models)) {
+      this.shared.cooldownMap.set(model, {
+        expiresAt: entry.expiresAt,
+        reason: entry.reason,
+        consecutiveFailures: entry.consecutiveFailures,
+        openCount: entry.openCount,
+        probeStartedAt: this.shared.cooldownMap.get(model)?.probeStartedAt,
+      });
+    }
+  }
+  
+  /**
+   * Get the circuit breaker state of a model
+   * 
+   * @param model - Model ID to check
+   * @returns 'open' while on cooldown, 'half-open' once the open period has
+   *          ended but no request has succeeded yet, otherwise 'closed'
+   */
+  public getCircuitState(model: string): CircuitState {
+    const entry = this.shared.cooldownMap.get(model);
+    if (!entry) return 'closed';
+    if (Date.now() < entry.expiresAt) return 'open';
+    return entry.openCount > 0 ? 'half-open' : 'closed';
   }
   
   /**
    * Check if a model is currently on cooldown
    * 
+   * A half-open model counts as on cooldown while its probe request is in
+   * flight (up to PROBE_TIMEOUT_MS).
+   * 
    * @param model - Model ID to check
    * @returns true if the model is on cooldown
    */
   public isModelOnCooldown(model: string): boolean {
-    const entry = this.cooldownMap.get(model);
-    if (!entry) return false;
-    
-    // Check if cooldown has expired
-    if (Date.now() >= entry.expiresAt) {
-      this.cooldownMap.delete(model);
-      return false;
-    }
-    
-    return true;
+    const state = this.getCircuitState(model);
+    return state === 'open' || (state === 'half-open' && this.isProbing(this.shared.cooldownMap.get(model)!));
+  }
+  
+  /**
+   * Whether a probe of the model is in flight and hasn't timed out
+   */
+  private isProbing(entry: CooldownEntry): boolean {
+    return entry.probeStartedAt !== undefined && Date.now() - entry.probeStartedAt < PROBE_TIMEOUT_MS;
   }
   
   /**
@@ -415,30 +711,121 @@ export class FallbackManager {
    * @returns Remaining cooldown in ms, or 0 if not on cooldown
    */
   public getCooldownRemaining(model: string): number {
-    const entry = this.cooldownMap.get(model);
+    const entry = this.shared.cooldownMap.get(model);
     if (!entry) return 0;
     
-    const remaining = entry.expiresAt - Date.now();
-    if (remaining <= 0) {
-      this.cooldownMap.delete(model);
-      return 0;
-    }
-    
-    return remaining;
+    return Math.max(0, entry.expiresAt - Date.now());
   }
   
   /**
-   * Add a model to the cooldown list
+   * Get how long the circuit stays open after opening `openCount` times in a row
+   * (doubles each time, capped at maxCooldownMs)
+   */
+  private getOpenDuration(openCount: number): number {
+    return Math.min(this.cooldownMs * Math.pow(2, Math.max(0, openCount - 1)), this.maxCooldownMs);
+  }
+  
+  /**
+   * Open a model's circuit
+   * 
+   * @param openCount - Times the circuit has opened since the last success
+   * @param durationMs - Open period (default: grows with openCount)
+   */
+  private openCircuit(model: string, reason: string, openCount: number, durationMs?: number): CooldownEntry {
+    const existing = this.shared.cooldownMap.get(model);
+    const entry: CooldownEntry = {
+      expiresAt: Date.now() + (durationMs ?? this.getOpenDuration(openCount)),
+      reason,
+      consecutiveFailures: existing?.consecutiveFailures ?? 0,
+      openCount,
+    };
+    this.shared.cooldownMap.set(model, entry);
+    void this.shared.stateStore?.update(state => {
+      state.models[model] = {
+        expiresAt: entry.expiresAt,
+        reason,
+        consecutiveFailures: entry.consecutiveFailures,
+        openCount,
+      };
+    });
+    return entry;
+  }
+  
+  /**
+   * Add a model to the cooldown list (opens its circuit)
    * 
    * @param model - Model ID to add to cooldown
    * @param reason - Reason for the cooldown (e.g., error message)
-   * @param durationMs - Optional custom cooldown duration
+   * @param durationMs - Optional custom cooldown duration (default: cooldownMs)
    */
   public addToCooldown(model: string, reason: string, durationMs?: number): void {
-    this.cooldownMap.set(model, {
-      expiresAt: Date.now() + (durationMs ?? this.cooldownMs),
+    const openCount = Math.max(this.shared.cooldownMap.get(model)?.openCount ?? 0, 1);
+    this.openCircuit(model, reason, openCount, durationMs ?? this.cooldownMs);
+  }
+  
+  /**
+   * Record a failed request that should count against a model's circuit
+   * 
+   * A failed half-open probe reopens the circuit for longer; otherwise the
+   * circuit opens once `failureThreshold` consecutive failures are reached.
+   * 
+   * @param model - Model that failed
+   * @param reason - Error message
+   * @param retryAfterMs - Server retry hint; used as the open duration (capped at maxCooldownMs)
+   * @returns The new circuit state
+   */
+  public recordFailure(model: string, reason: string, retryAfterMs?: number): CircuitState {
+    const state = this.getCircuitState(model);
+    const existing = this.shared.cooldownMap.get(model);
+    const consecutiveFailures = (existing?.consecutiveFailures ?? 0) + 1;
+    
+    this.shared.cooldownMap.set(model, {
+      expiresAt: existing?.expiresAt ?? 0,
       reason,
+      consecutiveFailures,
+      openCount: existing?.openCount ?? 0,
     });
+    
+    if (state === 'half-open' || consecutiveFailures >= this.failureThreshold) {
+      this.openCircuit(
+        model,
+        reason,
+        (existing?.openCount ?? 0) + 1,
+        retryAfterMs !== undefined ? Math.min(retryAfterMs, this.maxCooldownMs) : undefined
+      );
+      return 'open';
+    }
+    return state;
+  }
+  
+  /**
+   * Record a successful request - closes the model's circuit
+   * 
+   * @param model - Model that succeeded
+   */
+  public recordSuccess(model: string): void {
+    this.removeFromCooldown(model);
+  }
+  
+  /**
+   * Let one probe request through a half-open circuit
+   * 
+   * @returns false if another request is already probing the model
+   */
+  private startProbe(model: string): boolean {
+    const entry = this.shared.cooldownMap.get(model);
+    if (!entry || this.getCircuitState(model) !== 'half-open') return true;
+    if (this.isProbing(entry)) return false;
+    entry.probeStartedAt = Date.now();
+    return true;
+  }
+  
+  /**
+   * Release a probe that ended without a verdict (aborted or unrelated error)
+   */
+  private endProbe(model: string): void {
+    const entry = this.shared.cooldownMap.get(model);
+    if (entry) entry.probeStartedAt = undefined;
   }
   
   /**
@@ -447,52 +834,176 @@ export class FallbackManager {
    * @param model - Model ID to remove from cooldown
    */
   public removeFromCooldown(model: string): void {
-    this.cooldownMap.delete(model);
+    const entry = this.shared.cooldownMap.get(model);
+    if (this.shared.cooldownMap.delete(model) && entry!.openCount > 0) {
+      void this.shared.stateStore?.update(state => {
+        delete state.models[model];
+      });
+    }
   }
   
   /**
-   * Get all models currently on cooldown
+   * Get the circuit status of all models that are on cooldown, half-open,
+   * or have recent failures
    * 
-   * @returns Map of model IDs to their cooldown info
+   * @returns Map of model IDs to their circuit info
    */
-  public getCooldownStatus(): Map<string, { remainingMs: number; reason: string }> {
-    const status = new Map<string, { remainingMs: number; reason: string }>();
+  public getCooldownStatus(): Map<string, ModelCircuitStatus> {
+    const status = new Map<string, ModelCircuitStatus>();
+    this.syncFromStateStore();
     const now = Date.now();
     
-    for (const [model, entry] of this.cooldownMap) {
-      const remaining = entry.expiresAt - now;
-      if (remaining > 0) {
-        status.set(model, { remainingMs: remaining, reason: entry.reason });
-      } else {
-        // Clean up expired entries
-        this.cooldownMap.delete(model);
-      }
+    for (const [model, entry] of this.shared.cooldownMap) {
+      status.set(model, {
+        state: this.getCircuitState(model),
+        remainingMs: Math.max(0, entry.expiresAt - now),
+        reason: entry.reason,
+        consecutiveFailures: entry.consecutiveFailures,
+        openCount: entry.openCount,
+      });
     }
     
     return status;
   }
   
+  /**
+   * Set the model capability data used to filter fallbacks
+   * 
+   * @param models - Models from PuterClient.listModels
+   */
+  public setModelCatalog(models: PuterModelInfo[]): void {
+    this.shared.modelCatalog = new Map(models.map(model => [model.id, model]));
+    this.shared.modelCatalogUpdatedAt = Date.now();
+  }
+  
+  /**
+   * Load model capability data if it is missing or older than MODEL_CATALOG_TTL_MS.
+   * Concurrent callers share one load; failures and loads slower than
+   * MODEL_CATALOG_LOAD_TIMEOUT_MS leave the current data in place. The
+   * returned promise never rejects, so callers may skip awaiting it.
+   * 
+   * @param loader - Fetches the model list (e.g. PuterClient.listModels)
+   * @param logger - Optional logger for load failures
+   */
+  public async ensureModelCatalog(
+    loader: () => Promise<PuterModelInfo[]>,
+    logger?: Logger
+  ): Promise<void> {
+    if (Date.now() - this.shared.modelCatalogUpdatedAt < MODEL_CATALOG_TTL_MS) return;
+    
+    if (!this.shared.modelCatalogLoad) {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(
+          () => reject(new Error(`Timed out after ${MODEL_CATALOG_LOAD_TIMEOUT_MS}ms`)),
+          MODEL_CATALOG_LOAD_TIMEOUT_MS
+        );
+      });
+      
+      this.shared.modelCatalogLoad = Promise.race([loader(), timeout])
+        .then(models => this.setModelCatalog(models))
+        .catch(error => {
+          logger?.debug(`Failed to load model capabilities: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        })
+        .finally(() => {
+          clearTimeout(timeoutId);
+          this.shared.modelCatalogLoad = null;
+        });
+    }
+    await this.shared.modelCatalogLoad;
+  }
+  
+  /**
+   * Get capability data for a model (also matches without the :free suffix)
+   * 
+   * @param model - Model ID
+   * @returns Capability data, or undefined if unknown
+   */
+  public getModelInfo(model: string): PuterModelInfo | undefined {
+    return this.shared.modelCatalog.get(model) ?? this.shared.modelCatalog.get(stripFreeSuffix(model));
+  }
+  
+  /**
+   * Resolve a model alias (e.g. `fast`) to a model ID
+   * 
+   * @param model - Model ID or alias
+   * @returns The aliased model ID, or the input if it isn't an alias
+   */
+  public resolveModelAlias(model: string): string {
+    return this.modelAliases[model] ?? model;
+  }
+  
+  /**
+   * Get the fallback models for a primary model
+   * 
+   * An exact chain key wins over glob patterns; patterns are checked in
+   * the order they were configured. Aliases in the chain are resolved.
+   * 
+   * @param primaryModel - The (resolved) primary model
+   * @returns Fallback models in order
+   */
+  public getFallbackModels(primaryModel: string): string[] {
+    let chain = this.fallbackChains[primaryModel];
+    if (!chain) {
+      const pattern = Object.keys(this.fallbackChains).find(key => matchesModelPattern(primaryModel, key));
+      chain = pattern ? this.fallbackChains[pattern] : this.fallbackModels;
+    }
+    return chain.map(model => this.resolveModelAlias(model));
+  }
+  
   /**
    * Build the queue of models to try, respecting cooldowns
    * 
    * @param primaryModel - The primary model requested
+   * @param requirements - Capabilities the request needs (filters fallbacks)
    * @returns Ordered array of models to try
    */
-  public buildModelQueue(primaryModel: string): string[] {
+  public buildModelQueue(primaryModel: string, requirements?: ModelRequirements): string[] {
+    return this.planModelQueue(primaryModel, requirements).queue;
+  }
+  
+  /**
+   * Build the queue of models to try, respecting cooldowns and capabilities
+   * 
+   * The primary model (after alias resolution) is always kept and uses its
+   * fallback chain if one matches. Fallbacks known
+   * to lack a required capability are skipped; fallbacks known to meet all
+   * requirements come before fallbacks with unknown capabilities.
+   * 
+   * @param primaryModel - The primary model requested
+   * @param requirements - Capabilities the request needs
+   * @returns The queue and the fallbacks skipped as incompatible
+   */
+  public planModelQueue(primaryModel: string, requirements: ModelRequirements = {}): ModelQueuePlan {
+    primaryModel = this.resolveModelAlias(primaryModel);
     const queue: string[] = [];
+    const skipped: SkippedModel[] = [];
+    this.syncFromStateStore();
     
     // Add primary model first if not on cooldown
     if (!this.isModelOnCooldown(primaryModel)) {
       queue.push(primaryModel);
     }
     
-    // Add fallback models that aren't on cooldown
-    for (const model of this.fallbackModels) {
+    // Add fallback models that aren't on cooldown and can serve the request
+    const known: string[] = [];
+    const unknown: string[] = [];
+    for (const model of this.getFallbackModels(primaryModel)) {
       // Skip if it's the primary (already added) or on cooldown
       if (model === primaryModel) continue;
       if (this.isModelOnCooldown(model)) continue;
-      queue.push(model);
+      
+      const info = this.getModelInfo(model);
+      const reason = getIncompatibilityReason(info, requirements);
+      if (reason) {
+        skipped.push({ model, reason });
+      } else if (info) {
+        known.push(model);
+      } else {
+        unknown.push(model);
+      }
     }
+    queue.push(...known, ...unknown);
     
     // If primary was on cooldown but we have no fallbacks, add it anyway
     // (better to try and fail than to give up immediately)
@@ -500,7 +1011,7 @@ export class FallbackManager {
       queue.push(primaryModel);
     }
     
-    return queue;
+    return { queue, skipped };
   }
   
   /**
@@ -512,8 +1023,12 @@ export class FallbackManager {
    * @param primaryModel - The primary model to try first
    * @param operation - Function that performs the API call with the given model
    * @param logger - Optional logger for debugging
+   * @param signal - Optional abort signal; once aborted no further models are tried
+   * @param requirements - Capabilities the request needs; incompatible fallbacks are skipped
    * @returns Result including which model was used and all attempts
    * @throws FallbackExhaustedError if all models fail
+   * @throws NoCompatibleFallbackError if all models fail and other fallbacks were incompatible
+   * @throws AbortError if the signal is aborted
    * 
    * @example
    * ```ts
@@ -529,8 +1044,13 @@ export class FallbackManager {
   public async executeWithFallback<T>(
     primaryModel: string,
     operation: (model: string) => Promise<T>,
-    logger?: Logger
+    logger?: Logger,
+    signal?: AbortSignal,
+    requirements?: ModelRequirements
   ): Promise<FallbackResult<T>> {
+    throwIfAborted(signal);
+    primaryModel = this.resolveModelAlias(primaryModel);
+    
     // If fallback is disabled, just run the operation directly
     if (!this.enabled) {
       const startTime = Date.now();
@@ -551,7 +1071,7 @@ export class FallbackManager {
       }
     }
     
-    const modelQueue = this.buildModelQueue(primaryModel);
+    const { queue: modelQueue, skipped } = this.planModelQueue(primaryModel, requirements);
     const attempts: FallbackAttempt[] = [];
     const totalModels = modelQueue.length;
     
@@ -559,13 +1079,18 @@ export class FallbackManager {
     if (this.verbose && !this.quiet) {
       logger?.debug(`Fallback queue: [${modelQueue.join(' → ')}] (${totalModels} models)`);
       
-      // Show any models on cooldown
-      const cooldownStatus = this.getCooldownStatus();
-      if (cooldownStatus.size > 0) {
-        for (const [model, status] of cooldownStatus) {
+      // Show any models on cooldown or waiting for a probe
+      for (const [model, status] of this.getCooldownStatus()) {
+        if (status.state === 'open') {
           logger?.debug(`  ⏳ ${model} on cooldown (${formatDuration(status.remainingMs)} remaining)`);
+        } else if (status.state === 'half-open') {
+          logger?.debug(`  ◐ ${model} half-open (next request probes it)`);
         }
       }
+      
+      for (const { model, reason } of skipped) {
+        logger?.debug(`  ⊘ ${this.formatModelName(model)} skipped (${reason})`);
+      }
     }
     
     for (let i = 0; i < modelQueue.length; i++) {
@@ -575,6 +1100,20 @@ export class FallbackManager {
       const isFallback = model !== primaryModel;
       const progress = `[${attemptNum}/${totalModels}]`;
       
+      throwIfAborted(signal);
+      
+      // Half-open circuit: only one request at a time may probe the model
+      const isProbe = this.getCircuitState(model) === 'half-open';
+      if (isProbe && !this.startProbe(model)) {
+        if (this.verbose && !this.quiet) {
+          logger?.debug(`${progress} Skipping ${this.formatModelName(model)} (probe already in flight)`);
+        }
+        continue;
+      }
+      if (isProbe && this.verbose && !this.quiet) {
+        logger?.debug(`${progress} Probing ${this.formatModelName(model)} (circuit half-open)`);
+      }
+      
       // Log attempt start (only if not quiet)
       if (!this.quiet) {
         if (isFallback) {
@@ -587,6 +1126,7 @@ export class FallbackManager {
       try {
         const result = await operation(model);
         const durationMs = Date.now() - startTime;
+        this.recordSuccess(model);
         
         // Success! Log it (unless quiet)
         if (!this.quiet) {
@@ -610,6 +1150,12 @@ export class FallbackManager {
           attempts,
         };
       } catch (error) {
+        // Cancelled by the caller - don't cooldown the model or try the next one
+        if (signal?.aborted) {
+          this.endProbe(model);
+          throw createAbortError(signal);
+        }
+        
         const durationMs = Date.now() - startTime;
         const errorType = classifyError(error);
         const httpStatus = extractHttpStatus(error);
@@ -648,6 +1194,7 @@ export class FallbackManager {
               success: true,
               durationMs: retryDurationMs,
             });
+            this.recordSuccess(model);
             
             return {
               result,
@@ -656,6 +1203,11 @@ export class FallbackManager {
               attempts,
             };
           } catch (retryError) {
+            if (signal?.aborted) {
+              this.endProbe(model);
+              throw createAbortError(signal);
+            }
+            
             const retryDurationMs = Date.now() - retryStartTime;
             const retryErrorType = classifyError(retryError);
             const retryHttpStatus = extractHttpStatus(retryError);
@@ -683,14 +1235,18 @@ export class FallbackManager {
         const shouldCooldown = errorType === 'rate_limit' || errorType === 'forbidden' || errorType === 'server_error';
         
         if (shouldCooldown) {
-          this.addToCooldown(model, errorMessage);
-          const cooldownRemaining = formatDuration(this.cooldownMs);
+          const circuitState = this.recordFailure(model, errorMessage, getRetryAfterMs(error));
           
           if (!this.quiet) {
             const statusStr = httpStatus ? ` (${httpStatus})` : '';
-            logger?.warn(`${progress} ✗ ${this.formatModelName(model)}: ${errorDesc}${statusStr} → cooldown ${cooldownRemaining}`);
+            const outcome = circuitState === 'open'
+              ? `cooldown ${formatDuration(this.getCooldownRemaining(model))}`
+              : `failure ${this.shared.cooldownMap.get(model)?.consecutiveFailures}/${this.failureThreshold}`;
+            logger?.warn(`${progress} ✗ ${this.formatModelName(model)}: ${errorDesc}${statusStr} → ${outcome}`);
           }
         } else {
+          this.endProbe(model);
+          
           // Non-cooldown error - log differently (skip if we already logged for :free suffix)
           if (!this.quiet && !(errorType === 'not_found' && hasFreeSuffix(model))) {
             const statusStr = httpStatus ? ` (${httpStatus})` : '';
@@ -708,7 +1264,9 @@ export class FallbackManager {
     }
     
     // All models exhausted
-    const exhaustedError = new FallbackExhaustedError(attempts);
+    const exhaustedError = skipped.length > 0
+      ? new NoCompatibleFallbackError(attempts, skipped)
+      : new FallbackExhaustedError(attempts);
     logger?.error(`All ${totalModels} models failed`, exhaustedError);
     throw exhaustedError;
   }
@@ -728,7 +1286,10 @@ export class FallbackManager {
    * Clear all cooldowns (useful for testing or manual reset)
    */
   public clearCooldowns(): void {
-    this.cooldownMap.clear();
+    this.shared.cooldownMap.clear();
+    void this.shared.stateStore?.update(state => {
+      state.models = {};
+    });
   }
   
   /**
@@ -738,9 +1299,21 @@ export class FallbackManager {
     if (options.fallbackModels !== undefined) {
       this.fallbackModels = options.fallbackModels;
     }
+    if (options.fallbackChains !== undefined) {
+      this.fallbackChains = options.fallbackChains;
+    }
+    if (options.modelAliases !== undefined) {
+      this.modelAliases = options.modelAliases;
+    }
     if (options.cooldownMs !== undefined) {
       this.cooldownMs = options.cooldownMs;
     }
+    if (options.maxCooldownMs !== undefined) {
+      this.maxCooldownMs = options.maxCooldownMs;
+    }
+    if (options.failureThreshold !== undefined) {
+      this.failureThreshold = options.failureThreshold;
+    }
     if (options.enabled !== undefined) {
       this.enabled = options.enabled;
     }
@@ -750,15 +1323,22 @@ export class FallbackManager {
     if (options.quiet !== undefined) {
       this.quiet = options.quiet;
     }
+    if (options.stateStore !== undefined && options.stateStore !== this.shared.stateStore) {
+      this.attachStateStore(options.stateStore);
+    }
   }
   
   /**
    * Get current configuration
    */
-  public getConfig(): Required<FallbackOptions> {
+  public getConfig(): Required<Omit<FallbackOptions, 'stateStore'>> {
     return {
       fallbackModels: [...this.fallbackModels],
+      fallbackChains: { ...this.fallbackChains },
+      modelAliases: { ...this.modelAliases },
       cooldownMs: this.cooldownMs,
+      maxCooldownMs: this.maxCooldownMs,
+      failureThreshold: this.failureThreshold,
       enabled: this.enabled,
       verbose: this.verbose,
       quiet: this.quiet,
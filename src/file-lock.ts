@@ -0,0 +1,160 @@
+/**
+ * Cross-process file helpers
+ *
+ * Advisory lock files and atomic writes for files shared between the
+ * plugin, the CLI, the MCP server and AI SDK provider instances.
+ *
+ * @module file-lock
+ */
+
+import { promises as fs } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import { sleep } from './retry.js';
+
+/**
+ * Options for {@link withFileLock}
+ */
+export interface FileLockOptions {
+  /** Give up waiting for the lock after this many milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Treat locks older than this as left behind by a crashed process (default: 10000) */
+  staleMs?: number;
+  /** Delay between lock attempts in milliseconds (default: 25) */
+  retryIntervalMs?: number;
+}
+
+/**
+ * Error thrown when a lock can't be acquired in time
+ */
+export class FileLockTimeoutError extends Error {
+  public readonly lockPath: string;
+
+  constructor(lockPath: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for lock: ${lockPath}`);
+    this.name = 'FileLockTimeoutError';
+    this.lockPath = lockPath;
+  }
+}
+
+/**
+ * Run an operation while holding an advisory lock on a file.
+ *
+ * The lock is a `<file>.lock` sibling created exclusively, so it works
+ * across processes as well as between concurrent calls in one process.
+ * It holds a per-acquisition owner token, and a lock is only ever removed
+ * after confirming whose it is, so a holder that overran `staleMs` or a
+ * waiter breaking a stale lock can't delete a lock someone else now owns.
+ *
+ * @param filePath - File to lock
+ * @param operation - Work to do while the lock is held (e.g. read-modify-write)
+ * @param options - Timeout and stale-lock settings
+ * @returns Result of the operation
+ * @throws FileLockTimeoutError if the lock can't be acquired in time
+ *
+ * @example
+ * ```ts
+ * await withFileLock(accountsFile, async () => {
+ *   const data = await readAccounts();
+ *   data.activeIndex = 1;
+ *   await writeFileAtomic(accountsFile, JSON.stringify(data));
+ * });
+ * ```
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  operation: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const { timeoutMs = 5000, staleMs = 10000, retryIntervalMs = 25 } = options;
+  const lockPath = `${filePath}.lock`;
+  const token = `${process.pid}.${randomBytes(8).toString('hex')}`;
+  const startTime = Date.now();
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(token);
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    // Break locks left behind by a crashed process
+    try {
+      const [owner, stat] = await Promise.all([fs.readFile(lockPath, 'utf-8'), fs.stat(lockPath)]);
+      if (Date.now() - stat.mtimeMs > staleMs) {
+        await removeLockIfOwner(lockPath, owner);
+        continue;
+      }
+    } catch {
+      // Lock was released between open and stat - try again
+      continue;
+    }
+
+    if (Date.now() - startTime >= timeoutMs) {
+      throw new FileLockTimeoutError(lockPath, timeoutMs);
+    }
+    await sleep(retryIntervalMs);
+  }
+
+  try {
+    return await operation();
+  } finally {
+    await removeLockIfOwner(lockPath, token);
+  }
+}
+
+/**
+ * Remove a lock file only if it still belongs to `owner`.
+ *
+ * The lock is first renamed to a private path, which only one caller can
+ * win, and its token checked there. A lock that turns out to belong to
+ * someone else is linked back into place unless a newer one already exists.
+ *
+ * @returns Whether the owner's lock was removed
+ */
+async function removeLockIfOwner(lockPath: string, owner: string): Promise<boolean> {
+  const claimedPath = `${lockPath}.${randomBytes(4).toString('hex')}`;
+  try {
+    await fs.rename(lockPath, claimedPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+
+  try {
+    if (await fs.readFile(claimedPath, 'utf-8') === owner) {
+      return true;
+    }
+    await fs.link(claimedPath, lockPath).catch(() => undefined);
+    return false;
+  } finally {
+    await fs.rm(claimedPath, { force: true });
+  }
+}
+
+/**
+ * Write a file atomically (temp file + rename).
+ *
+ * Readers in other processes see either the old or the new contents,
+ * never a partially written file.
+ *
+ * @param filePath - Destination file
+ * @param data - File contents
+ * @param mode - File permissions (default: 0600)
+ */
+export async function writeFileAtomic(filePath: string, data: string, mode = 0o600): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data, { encoding: 'utf-8', mode });
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
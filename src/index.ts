@@ -21,6 +21,7 @@
  * - import { FallbackManager } from 'opencode-puter-auth/fallback'
  * - import { AccountRotationManager } from 'opencode-puter-auth/account-rotation'
  * - import { createLogger } from 'opencode-puter-auth/logger'
+ * - import { PuterApiError } from 'opencode-puter-auth/ai-provider'
  */
 
 // Named export - the plugin function for OpenCode
@@ -34,8 +35,10 @@ export { default } from './ai-provider/index.js';
 export { createPuter, puter } from './ai-provider/index.js';
 
 // Type exports are fine - they're compile-time only and don't exist at runtime
-export type { PuterProvider, PuterChatSettings, PuterProviderConfig, PuterChatConfig } from './ai-provider/index.js';
+export type { PuterProvider, PuterChatSettings, PuterProviderConfig, PuterChatConfig, PuterStreamTimeouts, PuterReasoningOptions, PuterProviderOptions } from './ai-provider/index.js';
 export type { Logger, LoggerOptions } from './logger.js';
-export type { FallbackOptions, FallbackResult, FallbackAttempt } from './fallback.js';
-export type { AccountRotationOptions, AccountRotationResult, AccountStatus, IAuthManager } from './account-rotation.js';
+export type { FallbackOptions, FallbackResult, FallbackAttempt, ModelRequirements, SkippedModel } from './fallback.js';
+export type { AccountRotationOptions, AccountRotationResult, AccountRotationStrategy, AccountStatus, AccountUsageFetcher, IAuthManager } from './account-rotation.js';
 export type { PuterConfig, PuterAccount, PuterChatOptions, PuterChatResponse, PuterChatMessage, PuterChatStreamChunk, PuterModelInfo } from './types.js';
+// Error classes are only types here - import them from 'opencode-puter-auth/ai-provider' for instanceof
+export type { PuterApiError, PuterApiErrorDetails, PuterAuthError, PuterForbiddenError, PuterNotFoundError, PuterRateLimitError, PuterServerError } from './errors.js';
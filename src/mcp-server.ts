@@ -31,6 +31,7 @@ import {
 import { z } from 'zod';
 import { createPuterAuthManager } from './auth.js';
 import { PuterClient } from './client.js';
+import { getCooldownStateStore } from './cooldown-state.js';
 import { homedir } from 'os';
 import { join } from 'path';
 
@@ -101,7 +102,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'puter-account',
-    description: 'Show Puter.com account information including username and credit usage.',
+    description: 'Show Puter.com account information including username, credit usage and rate-limit cooldowns.',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -272,11 +273,17 @@ async function handleAccount(): Promise<string> {
     const remaining = usage.allowanceInfo?.remaining || 0;
     const used = allowance - remaining;
 
+    const cooldowns = getCooldownStateStore(CONFIG_DIR).load();
+
     const result = {
       username: puter.username,
       monthly_allowance: formatCredits(allowance),
       used: formatCredits(used),
       remaining: formatCredits(remaining),
+      cooldowns: {
+        models: cooldowns.models,
+        accounts: cooldowns.accounts,
+      },
     };
 
     log.info(`Account: ${puter.username}, remaining: ${result.remaining}`);
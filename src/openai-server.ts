@@ -0,0 +1,647 @@
+/**
+ * Local OpenAI-compatible gateway
+ *
+ * HTTP server that exposes Puter.com models to OpenAI-compatible tools
+ * (aider, continue, scripts using the OpenAI SDK) through the accounts
+ * stored by `puter-auth login`.
+ *
+ * Endpoints:
+ * - POST /v1/chat/completions: Chat (streaming and non-streaming), with
+ *   account rotation and model fallback. Supports images and files in
+ *   `content` parts, `top_p`, `stop`, `tool_choice` and `response_format`
+ * - GET  /v1/models: List available models
+ * - GET  /v1/models/:id: Look up one model
+ * - POST /v1/embeddings: Always 501 - Puter has no embedding models
+ *
+ * Usage:
+ *   npx opencode-puter-auth serve --openai --port 8787 --api-key "$KEY"
+ *   # then point any OpenAI client at http://127.0.0.1:8787/v1
+ *
+ * When an API key is set (--api-key or PUTER_GATEWAY_API_KEY), every request
+ * must send `Authorization: Bearer <key>`. Without a key, only requests with a
+ * loopback Host and (for POST) a JSON body are accepted, so web pages open in
+ * the browser can't spend the user's credits.
+ *
+ * @module openai-server
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createPuterAuthManager, type PuterAuthManager } from './auth.js';
+import { PuterClient } from './client.js';
+import { getConfigDir, loadConfig, resolveStreamTimeouts } from './config.js';
+import { getCooldownStateStore } from './cooldown-state.js';
+import { PuterApiError, PuterForbiddenError, toPuterApiError } from './errors.js';
+import { FallbackExhaustedError, FallbackManager } from './fallback.js';
+import { AccountRotationManager } from './account-rotation.js';
+import { createLoggerFromConfig, type Logger } from './logger.js';
+import {
+  createOpenAIStreamState,
+  finishOpenAIStream,
+  transformOpenAIToPuter,
+  transformPuterStreamToOpenAI,
+  transformPuterToOpenAI,
+  type OpenAIChatCompletionRequest,
+} from './provider.js';
+import { isAbortError, nextChunkWithTimeout } from './retry.js';
+import type { PuterStreamTimeouts } from './ai-provider/puter-chat-settings.js';
+import type {
+  PuterChatMessage,
+  PuterChatOptions,
+  PuterChatStreamChunk,
+  PuterConfig,
+} from './types.js';
+
+/** Environment variable holding the gateway API key */
+export const API_KEY_ENV_VAR = 'PUTER_GATEWAY_API_KEY';
+
+/** Default port of the gateway */
+export const DEFAULT_GATEWAY_PORT = 8787;
+
+/** Largest request body accepted (base64 images make bodies large) */
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+/** Host header values accepted when no API key is set */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/** Account rotations tried per request before giving up on the model */
+const MAX_ROTATIONS = 3;
+
+/**
+ * Options for {@link createOpenAIServer} and {@link startOpenAIServer}
+ */
+export interface OpenAIServerOptions {
+  /** Bind address (default: 127.0.0.1) */
+  host?: string;
+  /** Port to listen on (default: 8787) */
+  port?: number;
+  /** Require `Authorization: Bearer <apiKey>` on every request */
+  apiKey?: string;
+  /** Directory with puter-accounts.json and puter.json (default: ~/.config/opencode) */
+  configDir?: string;
+}
+
+/**
+ * Shared state of a running gateway
+ */
+interface GatewayContext {
+  authManager: PuterAuthManager;
+  /** One client per account token, so concurrent requests never share a token */
+  clients: Map<string, PuterClient>;
+  fallbackManager: FallbackManager;
+  rotationManager: AccountRotationManager | null;
+  config: Partial<PuterConfig>;
+  logger: Logger;
+  apiKey?: string;
+}
+
+/**
+ * A stream whose first chunk has already arrived
+ */
+interface StartedStream {
+  iterator: AsyncGenerator<PuterChatStreamChunk>;
+  first: IteratorResult<PuterChatStreamChunk>;
+  chunkTimeoutMs: number;
+  deadline: number; // 0 = no total limit
+}
+
+/**
+ * Error answered with an OpenAI-format error body
+ */
+class GatewayError extends Error {
+  public readonly status: number;
+  public readonly type: string;
+  public readonly headers: Record<string, string>;
+
+  constructor(status: number, message: string, type: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'GatewayError';
+    this.status = status;
+    this.type = type;
+    this.headers = headers;
+  }
+}
+
+/**
+ * OpenAI error type for an HTTP status
+ */
+function errorType(status: number): string {
+  if (status === 401) return 'authentication_error';
+  if (status === 402 || status === 403) return 'permission_error';
+  if (status === 404) return 'not_found_error';
+  if (status === 429) return 'rate_limit_error';
+  if (status >= 500) return 'server_error';
+  return 'invalid_request_error';
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: GatewayError): void {
+  sendJson(res, error.status, {
+    error: { message: error.message, type: error.type, param: null, code: null },
+  }, error.headers);
+}
+
+/**
+ * Convert a failed Puter call into the error to answer with, keeping the
+ * upstream status and retry hint
+ */
+function toGatewayError(error: unknown): GatewayError {
+  if (error instanceof GatewayError) return error;
+
+  if (error instanceof PuterApiError) {
+    const headers: Record<string, string> = error.retryAfterMs !== undefined
+      ? { 'retry-after': String(Math.ceil(error.retryAfterMs / 1000)) }
+      : {};
+    return new GatewayError(error.status, error.message, errorType(error.status), headers);
+  }
+
+  if (isAbortError(error)) {
+    return new GatewayError(504, 'Puter request timed out', 'server_error');
+  }
+
+  if (error instanceof FallbackExhaustedError) {
+    const status = error.attempts[error.attempts.length - 1]?.httpStatus ?? 503;
+    return new GatewayError(status, error.message, errorType(status));
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new GatewayError(500, `Puter request failed: ${message}`, 'server_error');
+}
+
+/**
+ * Check the bearer key (constant-time; hashing makes both sides the same length)
+ */
+function isAuthorized(req: IncomingMessage, apiKey: string | undefined): boolean {
+  if (!apiKey) return true;
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+
+  const expected = createHash('sha256').update(apiKey).digest();
+  const actual = createHash('sha256').update(match[1].trim()).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Without an API key, reject requests a web page could make: a Host that
+ * isn't loopback means DNS rebinding, and a non-JSON POST is a "simple"
+ * cross-origin request that skips the CORS preflight
+ */
+function checkKeylessRequest(req: IncomingMessage): void {
+  const host = (req.headers.host ?? '').toLowerCase().replace(/:\d+$/, '');
+  if (!LOOPBACK_HOSTS.includes(host)) {
+    throw new GatewayError(403, `Host '${req.headers.host ?? ''}' is not allowed without an API key`, 'permission_error');
+  }
+  if (req.method === 'POST' && !/^application\/json\s*(;|$)/i.test(req.headers['content-type'] ?? '')) {
+    throw new GatewayError(415, 'Content-Type must be application/json', 'invalid_request_error');
+  }
+}
+
+async function readJsonBody<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new GatewayError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`, 'invalid_request_error');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8')) as T;
+  } catch {
+    throw new GatewayError(400, 'Request body must be valid JSON', 'invalid_request_error');
+  }
+}
+
+/**
+ * Check the sampling and output options the gateway forwards to Puter
+ */
+function validateChatOptions(body: OpenAIChatCompletionRequest): void {
+  const invalid = (message: string) => new GatewayError(400, message, 'invalid_request_error');
+
+  if (body.top_p !== undefined && (typeof body.top_p !== 'number' || body.top_p < 0 || body.top_p > 1)) {
+    throw invalid('`top_p` must be a number between 0 and 1');
+  }
+  const stop = body.stop;
+  if (stop !== undefined && stop !== null && typeof stop !== 'string'
+    && !(Array.isArray(stop) && stop.every(sequence => typeof sequence === 'string'))) {
+    throw invalid('`stop` must be a string or an array of strings');
+  }
+
+  const toolChoice: unknown = body.tool_choice;
+  if (toolChoice !== undefined && !['auto', 'none', 'required'].includes(toolChoice as string)) {
+    const name = (toolChoice as { function?: { name?: unknown } } | null)?.function?.name;
+    if ((toolChoice as { type?: unknown } | null)?.type !== 'function' || typeof name !== 'string') {
+      throw invalid('`tool_choice` must be "auto", "none", "required" or {"type": "function", "function": {"name": ...}}');
+    }
+    if (!body.tools?.some(tool => tool.function?.name === name)) {
+      throw invalid(`\`tool_choice\` names '${name}', which is not in \`tools\``);
+    }
+  }
+
+  const format = body.response_format;
+  if (format !== undefined) {
+    if (!['text', 'json_object', 'json_schema'].includes(format?.type)) {
+      throw invalid('`response_format.type` must be "text", "json_object" or "json_schema"');
+    }
+    if (format.type === 'json_schema' && typeof format.json_schema?.name !== 'string') {
+      throw invalid('`response_format.json_schema.name` is required for "json_schema"');
+    }
+  }
+}
+
+/**
+ * Get the client for the active account (it may have been switched by
+ * rotation or by another process). Each account has its own client, so a
+ * request keeps its token even while another request rotates accounts.
+ */
+function getActiveClient(context: GatewayContext): PuterClient {
+  const account = context.authManager.getActiveAccount();
+  if (!account) {
+    throw new GatewayError(
+      503,
+      'Not authenticated with Puter. Run "puter-auth login" first.',
+      'server_error'
+    );
+  }
+
+  let client = context.clients.get(account.authToken);
+  if (!client) {
+    // Drop clients of accounts that were logged out or re-authenticated
+    const tokens = new Set(context.authManager.getAllAccounts().map(stored => stored.authToken));
+    for (const token of context.clients.keys()) {
+      if (!tokens.has(token)) context.clients.delete(token);
+    }
+    client = new PuterClient(account.authToken, context.config);
+    context.clients.set(account.authToken, client);
+  }
+  return client;
+}
+
+/**
+ * Run an operation with the active account's client, rotating to another
+ * stored account when the active one is out of credits (402/403). Other
+ * errors are left to the fallback manager.
+ */
+async function withAccountRotation<T>(
+  context: GatewayContext,
+  operation: (client: PuterClient) => Promise<T>,
+  signal: AbortSignal
+): Promise<T> {
+  const { rotationManager, logger } = context;
+
+  for (let rotations = 0; ; rotations++) {
+    const client = getActiveClient(context);
+    try {
+      return await operation(client);
+    } catch (error) {
+      if (signal.aborted || !rotationManager || rotations >= MAX_ROTATIONS || !(error instanceof PuterForbiddenError)) {
+        throw error;
+      }
+
+      const next = await rotationManager.handleRateLimitError(error);
+      if (!next) throw error;
+      logger.info(`Account ${next.previousUsername} exhausted, rotated to ${next.account.username}`);
+    }
+  }
+}
+
+/**
+ * Abort signal for one request: fires when the client disconnects, the
+ * upstream connection takes longer than the configured timeout, or
+ * `abort` is called (e.g. when a stream stalls)
+ */
+function createRequestSignal(
+  res: ServerResponse,
+  timeoutMs: number
+): { signal: AbortSignal; clearTimeout: () => void; abort: () => void } {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  res.on('close', () => {
+    clearTimeout(timeoutId);
+    if (!res.writableFinished) controller.abort();
+  });
+  return {
+    signal: controller.signal,
+    clearTimeout: () => clearTimeout(timeoutId),
+    abort: () => controller.abort(),
+  };
+}
+
+/**
+ * Start a stream and wait for its first chunk. Errors (including an error
+ * sent as the first chunk) and first-chunk timeouts count as a failed
+ * attempt, so account rotation and model fallback move on.
+ */
+async function startStream(
+  context: GatewayContext,
+  client: PuterClient,
+  messages: PuterChatMessage[],
+  options: PuterChatOptions & { model: string },
+  signal: AbortSignal
+): Promise<StartedStream> {
+  const timeouts: Required<PuterStreamTimeouts> = resolveStreamTimeouts(context.config, options.model);
+  const deadline = timeouts.totalMs > 0 ? Date.now() + timeouts.totalMs : 0;
+  const iterator = client.chatStream(messages, options, signal);
+  try {
+    const first = await nextChunkWithTimeout(iterator, timeouts.firstChunkMs, deadline, 'initial response', signal);
+    if (!first.done && 'error' in first.value) {
+      throw first.value;
+    }
+    return { iterator, first, chunkTimeoutMs: timeouts.chunkMs, deadline };
+  } catch (error) {
+    iterator.return(undefined).catch(() => {});
+    if (isAbortError(error)) throw error;
+    throw toPuterApiError(error, { model: options.model });
+  }
+}
+
+/**
+ * Send a started stream as OpenAI SSE events. Once headers are sent,
+ * a stalled stream or upstream failure ends with an error event.
+ */
+async function sendStream(
+  context: GatewayContext,
+  res: ServerResponse,
+  started: StartedStream,
+  model: string,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  abort: () => void
+): Promise<void> {
+  const state = createOpenAIStreamState(model);
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    ...headers,
+  });
+
+  try {
+    let result = started.first;
+    while (!result.done) {
+      const events = transformPuterStreamToOpenAI(result.value, state);
+      if (events) res.write(events);
+      result = await nextChunkWithTimeout(started.iterator, started.chunkTimeoutMs, started.deadline, 'chunk', signal);
+    }
+    res.write(finishOpenAIStream(state));
+  } catch (error) {
+    started.iterator.return(undefined).catch(() => {});
+    if (signal.aborted) {
+      res.destroy();
+      return;
+    }
+    // Stop reading from Puter (a stalled connection would otherwise stay open)
+    abort();
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    context.logger.error(`Stream failed: ${message}`);
+    res.write(`data: ${JSON.stringify({ error: { message, type: 'server_error', param: null, code: null } })}\n\n`);
+  }
+  res.end('data: [DONE]\n\n');
+}
+
+/**
+ * Handle POST /v1/chat/completions
+ */
+async function handleChatCompletions(
+  context: GatewayContext,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const body = await readJsonBody<OpenAIChatCompletionRequest>(req);
+  if (!body || typeof body !== 'object' || !Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new GatewayError(400, '`messages` must be a non-empty array', 'invalid_request_error');
+  }
+  if (typeof body.model !== 'string' || !body.model) {
+    throw new GatewayError(400, '`model` is required', 'invalid_request_error');
+  }
+  validateChatOptions(body);
+
+  const { fallbackManager, logger } = context;
+  const client = getActiveClient(context);
+  const streaming = body.stream === true;
+  const { args } = transformOpenAIToPuter(body, '');
+  const { signal, clearTimeout, abort } = createRequestSignal(res, context.config.api_timeout_ms ?? 120000);
+  const requirements = { tools: !!args.tools?.length, minOutputTokens: args.max_tokens };
+  const options: PuterChatOptions = {
+    max_tokens: args.max_tokens,
+    temperature: args.temperature,
+    top_p: args.top_p,
+    stop: args.stop,
+    tools: args.tools,
+    tool_choice: args.tool_choice,
+    response_format: args.response_format,
+  };
+
+  logger.info(`Chat request: model=${args.model}, messages=${args.messages.length}, stream=${streaming}`);
+
+  // Capability data for fallback filtering loads in the background
+  void fallbackManager.ensureModelCatalog(() => client.listModels(), logger);
+
+  if (!streaming) {
+    const { result, usedModel } = await fallbackManager.executeWithFallback(
+      args.model,
+      model => withAccountRotation(context, attemptClient => attemptClient.chat(args.messages, { ...options, model }, signal), signal),
+      logger,
+      signal,
+      requirements
+    );
+    clearTimeout();
+    sendJson(res, 200, { ...transformPuterToOpenAI(result), model: usedModel }, { 'x-puter-model': usedModel });
+    return;
+  }
+
+  // The stream counts as started once its first chunk arrives
+  const { result: started, usedModel } = await fallbackManager.executeWithFallback(
+    args.model,
+    model => withAccountRotation(
+      context,
+      attemptClient => startStream(context, attemptClient, args.messages, { ...options, model }, signal),
+      signal
+    ),
+    logger,
+    signal,
+    requirements
+  );
+  clearTimeout();
+  await sendStream(context, res, started, usedModel, { 'x-puter-model': usedModel }, signal, abort);
+}
+
+/**
+ * Handle GET /v1/models and GET /v1/models/:id
+ */
+async function handleModels(context: GatewayContext, res: ServerResponse, modelId?: string): Promise<void> {
+  const models = (await getActiveClient(context).listModels()).map(model => ({
+    id: model.id,
+    object: 'model' as const,
+    created: 0,
+    owned_by: model.provider,
+  }));
+
+  if (modelId === undefined) {
+    sendJson(res, 200, { object: 'list', data: models });
+    return;
+  }
+
+  const model = models.find(m => m.id === modelId);
+  if (!model) {
+    throw new GatewayError(404, `The model '${modelId}' does not exist`, 'not_found_error');
+  }
+  sendJson(res, 200, model);
+}
+
+/**
+ * Route one request
+ */
+async function handleRequest(context: GatewayContext, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '');
+  const method = req.method ?? 'GET';
+
+  if (!isAuthorized(req, context.apiKey)) {
+    throw new GatewayError(401, 'Invalid API key', 'authentication_error');
+  }
+  if (!context.apiKey) {
+    checkKeylessRequest(req);
+  }
+
+  if (path === '/v1/chat/completions') {
+    if (method !== 'POST') throw new GatewayError(405, 'Use POST for /v1/chat/completions', 'invalid_request_error');
+    return handleChatCompletions(context, req, res);
+  }
+
+  if (path === '/v1/models' || path.startsWith('/v1/models/')) {
+    if (method !== 'GET') throw new GatewayError(405, 'Use GET for /v1/models', 'invalid_request_error');
+    const modelId = path.length > '/v1/models/'.length ? decodeURIComponent(path.slice('/v1/models/'.length)) : undefined;
+    return handleModels(context, res, modelId);
+  }
+
+  if (path === '/v1/embeddings') {
+    throw new GatewayError(501, 'Puter does not support embedding models', 'invalid_request_error');
+  }
+
+  throw new GatewayError(404, `Unknown endpoint: ${method} ${path || '/'}`, 'not_found_error');
+}
+
+/**
+ * Create the gateway HTTP server (not yet listening)
+ *
+ * Loads the stored accounts and puter.json settings from the config
+ * directory. Cooldowns are shared with the plugin, the MCP server and the
+ * CLI through the state file, and account switches made elsewhere are
+ * picked up while the server runs.
+ *
+ * @param options - API key and config directory (host and port are used by {@link startOpenAIServer})
+ * @returns The server; call `listen()` to start it
+ *
+ * @example
+ * ```ts
+ * const server = await createOpenAIServer({ apiKey: 'secret' });
+ * server.listen(8787, '127.0.0.1');
+ * ```
+ */
+export async function createOpenAIServer(options: OpenAIServerOptions = {}): Promise<Server> {
+  const configDir = options.configDir ?? getConfigDir();
+  const config = await loadConfig(configDir);
+  const logger = createLoggerFromConfig(config);
+  const stateStore = getCooldownStateStore(configDir, logger);
+
+  const authManager = createPuterAuthManager(configDir);
+  await authManager.init();
+  // Stay in sync with logins and account switches made by other processes
+  authManager.watch();
+
+  const context: GatewayContext = {
+    authManager,
+    clients: new Map(),
+    fallbackManager: new FallbackManager({
+      enabled: config.fallback_enabled,
+      fallbackModels: config.fallback_models,
+      cooldownMs: config.fallback_cooldown_ms,
+      maxCooldownMs: config.fallback_max_cooldown_ms,
+      failureThreshold: config.fallback_failure_threshold,
+      fallbackChains: config.fallback_chains,
+      modelAliases: config.model_aliases,
+      stateStore,
+    }),
+    rotationManager: config.account_rotation_enabled === false
+      ? null
+      : new AccountRotationManager(authManager, {
+          strategy: config.account_rotation_strategy,
+          cooldownMs: config.account_rotation_cooldown_ms,
+          creditThreshold: config.account_rotation_credit_threshold,
+          usageCacheTtlMs: config.account_rotation_usage_cache_ms,
+          stateStore,
+        }, logger),
+    config,
+    logger,
+    apiKey: options.apiKey,
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(context, req, res).catch(error => {
+      if (isAbortError(error) && res.destroyed) return;
+
+      const gatewayError = toGatewayError(error);
+      // Requests the gateway refuses on purpose (e.g. 501 embeddings) aren't failures
+      if (gatewayError.status >= 500 && !(error instanceof GatewayError)) {
+        logger.error(`${req.method} ${req.url} failed: ${gatewayError.message}`);
+      }
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        sendError(res, gatewayError);
+      }
+    });
+  });
+  server.on('close', () => authManager.unwatch());
+
+  return server;
+}
+
+/**
+ * Start the gateway and log where it's listening
+ *
+ * Signal handling is left to the caller (the CLI `serve` command closes
+ * the server on SIGINT/SIGTERM).
+ *
+ * @param options - Bind address, port, API key and config directory
+ * @returns The listening server
+ */
+export async function startOpenAIServer(options: OpenAIServerOptions = {}): Promise<Server> {
+  const host = options.host ?? '127.0.0.1';
+  const port = options.port ?? DEFAULT_GATEWAY_PORT;
+  const server = await createOpenAIServer(options);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const boundPort = typeof address === 'object' && address ? address.port : port;
+  console.log(`Puter OpenAI-compatible gateway listening on http://${host}:${boundPort}/v1`);
+  if (!options.apiKey) {
+    const isLoopback = host === '127.0.0.1' || host === 'localhost' || host === '::1';
+    console.warn(
+      isLoopback
+        ? `No API key set - any local process can use your Puter account. Use --api-key or ${API_KEY_ENV_VAR} to require one.`
+        : `WARNING: listening on ${host} without an API key - only requests addressed to localhost are accepted. Use --api-key to allow remote clients.`
+    );
+  }
+
+  return server;
+}
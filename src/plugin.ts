@@ -13,23 +13,14 @@
 
 import type { Plugin, PluginInput, Hooks } from '@opencode-ai/plugin';
 import { tool } from '@opencode-ai/plugin';
-import path from 'node:path';
-import os from 'node:os';
 import http from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { URL } from 'node:url';
+import { randomBytes } from 'node:crypto';
 import { PuterClient } from './client.js';
 import { createPuterAuthManager, type PuterAuthManager } from './auth.js';
 import type { PuterConfig, PuterChatMessage, PuterAccount } from './types.js';
-import { PuterConfigSchema } from './types.js';
-
-// Default config directory
-const getConfigDir = (): string => {
-  const xdgConfig = process.env.XDG_CONFIG_HOME;
-  if (xdgConfig) {
-    return path.join(xdgConfig, 'opencode');
-  }
-  return path.join(os.homedir(), '.config', 'opencode');
-};
+import { getConfigDir, loadConfig } from './config.js';
 
 // Plugin state
 let authManager: PuterAuthManager | null = null;
@@ -37,15 +28,17 @@ let puterClient: PuterClient | null = null;
 let pluginConfig: Partial<PuterConfig> = {};
 
 // OAuth server state
+const CALLBACK_HOST = 'localhost';
 const CALLBACK_PORT = 19847;
 const AUTH_TIMEOUT_MS = 300000;
 
 /**
  * Generate the HTML login page for Puter authentication.
  * Puter uses username/password login via REST API, not OAuth redirects.
- * This page handles the login flow entirely in the browser, including 2FA.
+ * This page handles the login flow entirely in the browser, including 2FA,
+ * and passes the login's one-time state back to the callback.
  */
-function getLoginPage(callbackPort: number): string {
+function getLoginPage(state: string): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -313,9 +306,10 @@ function getLoginPage(callbackPort: number): string {
           let username = document.getElementById('username').value.trim();
           
           // Redirect to callback with token
-          const callbackUrl = new URL('http://localhost:${callbackPort}/callback');
+          const callbackUrl = new URL('/callback', window.location.origin);
           callbackUrl.searchParams.set('token', data.token);
           callbackUrl.searchParams.set('username', username);
+          callbackUrl.searchParams.set('state', ${JSON.stringify(state)});
           if (data.email) {
             callbackUrl.searchParams.set('email', data.email);
           }
@@ -340,22 +334,6 @@ function getLoginPage(callbackPort: number): string {
 </html>`;
 }
 
-/**
- * Load plugin configuration from puter.json
- */
-async function loadConfig(configDir: string): Promise<Partial<PuterConfig>> {
-  const fs = await import('node:fs/promises');
-  const configPath = path.join(configDir, 'puter.json');
-  
-  try {
-    const data = await fs.readFile(configPath, 'utf-8');
-    const parsed = JSON.parse(data);
-    return PuterConfigSchema.partial().parse(parsed);
-  } catch {
-    return {};
-  }
-}
-
 /**
  * Log a message (respects quiet mode)
  */
@@ -377,14 +355,32 @@ export const PuterAuthPlugin: Plugin = async (_input: PluginInput): Promise<Hook
   
   // Initialize auth manager
   authManager = createPuterAuthManager(configDir, pluginConfig);
-  await authManager.init();
+  try {
+    await authManager.init();
+  } catch (error) {
+    // Don't overwrite a store we can't decrypt (e.g. missing PUTER_AUTH_PASSPHRASE)
+    log(error instanceof Error ? error.message : String(error), 'error');
+    authManager = null;
+  }
   
   // Initialize client if we have an active account
-  const activeAccount = authManager.getActiveAccount();
+  const activeAccount = authManager?.getActiveAccount();
   if (activeAccount) {
     puterClient = new PuterClient(activeAccount.authToken, pluginConfig);
     log(`Loaded account: ${activeAccount.username}${activeAccount.isTemporary ? ' (temporary)' : ''}`);
   }
+  
+  // Pick up logins, logouts and account switches made by the CLI or other sessions
+  authManager?.watch(() => {
+    const account = authManager?.getActiveAccount();
+    if (!account) {
+      puterClient = null;
+    } else if (puterClient) {
+      puterClient.setAuthToken(account.authToken);
+    } else {
+      puterClient = new PuterClient(account.authToken, pluginConfig);
+    }
+  });
 
   return {
     // ========================================
@@ -404,7 +400,14 @@ export const PuterAuthPlugin: Plugin = async (_input: PluginInput): Promise<Hook
       // Load auth credentials for Puter provider
       // Returns the API key (auth token) that OpenCode passes to the AI SDK provider
       async loader(_auth, provider) {
-        const account = authManager?.getActiveAccount();
+        // Provision a temporary account for first-time users (auto_create_temp_user)
+        const hadAccount = !!authManager?.getActiveAccount();
+        const account = await authManager?.getOrCreateActiveAccount();
+        if (account && !hadAccount) {
+          puterClient = new PuterClient(account.authToken, pluginConfig);
+          log(`Using temporary Puter account ${account.username}. Run \`puter-auth login\` to upgrade to a permanent account.`, 'warn');
+        }
+        
         if (account) {
           // Set cost to 0 for OpenCode's cost tracking (Puter handles billing separately)
           if (provider?.models) {
@@ -428,6 +431,12 @@ export const PuterAuthPlugin: Plugin = async (_input: PluginInput): Promise<Hook
           label: 'Puter.com (500+ AI Models, No API Keys)',
           
           async authorize() {
+            // The login page takes a password, so it's only served on loopback;
+            // remote logins use the paste-token method below. The port is configurable.
+            const callbackPort = pluginConfig.auth_callback_port ?? CALLBACK_PORT;
+            // One-time state the login page and callback must present
+            const state = randomBytes(16).toString('hex');
+            
             return new Promise((resolve) => {
               let resolved = false;
               let server: http.Server | null = null;
@@ -441,7 +450,13 @@ export const PuterAuthPlugin: Plugin = async (_input: PluginInput): Promise<Hook
                     return;
                   }
 
-                  const url = new URL(req.url || '/', `http://localhost:${CALLBACK_PORT}`);
+                  const url = new URL(req.url || '/', `http://localhost:${callbackPort}`);
+                  
+                  if ((url.pathname === '/callback' || url.pathname === '/') && url.searchParams.get('state') !== state) {
+                    res.writeHead(403, { 'Content-Type': 'text/html' });
+                    res.end('<html><body><h1>Invalid login link - start the login from OpenCode again</h1></body></html>');
+                    return;
+                  }
                   
                   if (url.pathname === '/callback') {
                     const token = url.searchParams.get('token');
@@ -450,6 +465,17 @@ export const PuterAuthPlugin: Plugin = async (_input: PluginInput): Promise<Hook
                     const isTemp = url.searchParams.get('temp') === 'true';
 
                     if (token) {
+                      // Check the token works before saving it; the user can try again
+                      if (!(await new PuterClient(token, pluginConfig).testConnection())) {
+                        res.writeHead(400, { 'Content-Type': 'text/html' });
+                        res.end('<html><body><h1>Token validation failed - go back and sign in again</h1></body></html>');
+                        return;
+                      }
+                      if (resolved) {
+                        res.writeHead(200, { 'Content-Type': 'text/html' });
+                        res.end('<html><body><h1>Already authenticated</h1></body></html>');
+                        return;
+                      }
                       resolved = true;
 
                       const account: PuterAccount = {
@@ -491,6 +517,7 @@ export const PuterAuthPlugin: Plugin = async (_input: PluginInput): Promise<Hook
                         </html>
                       `);
 
+                      clearTimeout(timeoutId);
                       server?.close();
                       resolveCallback({ type: 'success', key: token });
                     } else {
@@ -500,17 +527,25 @@ export const PuterAuthPlugin: Plugin = async (_input: PluginInput): Promise<Hook
                   } else if (url.pathname === '/') {
                     // Serve login page - Puter uses username/password, not OAuth redirects
                     res.writeHead(200, { 'Content-Type': 'text/html' });
-                    res.end(getLoginPage(CALLBACK_PORT));
+                    res.end(getLoginPage(state));
                   } else {
                     res.writeHead(404);
                     res.end('Not found');
                   }
                 });
 
-                server.listen(CALLBACK_PORT, 'localhost');
+                server.listen(callbackPort, CALLBACK_HOST, () => {
+                  const { port } = server!.address() as AddressInfo;
+                  resolve({
+                    url: `http://${CALLBACK_HOST}:${port}/?state=${state}`,
+                    instructions: 'Opening browser for Puter.com login. Enter your Puter username and password to authenticate.',
+                    method: 'auto' as const,
+                    callback: () => callbackPromise,
+                  });
+                });
 
                 // Timeout handler
-                setTimeout(() => {
+                const timeoutId = setTimeout(() => {
                   if (!resolved) {
                     resolved = true;
                     server?.close();
@@ -518,23 +553,50 @@ export const PuterAuthPlugin: Plugin = async (_input: PluginInput): Promise<Hook
                   }
                 }, AUTH_TIMEOUT_MS);
 
-                server.on('error', () => {
+                server.on('error', (error) => {
                   if (!resolved) {
                     resolved = true;
                     resolveCallback({ type: 'failed' });
+                    resolve({
+                      url: '',
+                      instructions: `Could not start the login server: ${error.message}`,
+                      method: 'auto' as const,
+                      callback: () => callbackPromise,
+                    });
                   }
                 });
               });
-              
-              resolve({
-                url: `http://localhost:${CALLBACK_PORT}`,
-                instructions: 'Opening browser for Puter.com login. Enter your Puter username and password to authenticate.',
-                method: 'auto' as const,
-                callback: () => callbackPromise,
-              });
             });
           },
         },
+        {
+          type: 'oauth',
+          label: 'Puter.com - Paste Auth Token (SSH / Headless)',
+          
+          async authorize() {
+            return {
+              url: 'https://puter.com',
+              instructions: 'Sign in at puter.com on any machine, copy your auth token (browser console: puter.authToken) and paste it here.',
+              method: 'code' as const,
+              async callback(code: string) {
+                if (!authManager) {
+                  return { type: 'failed' as const };
+                }
+                
+                // Validates the token with a test request before saving
+                const result = await authManager.loginWithToken(code);
+                if (!result.success || !result.account) {
+                  log(`Token login failed: ${result.error}`, 'error');
+                  return { type: 'failed' as const };
+                }
+                
+                puterClient = new PuterClient(result.account.authToken, pluginConfig);
+                log(`Authenticated as: ${result.account.username}`);
+                return { type: 'success' as const, key: result.account.authToken };
+              },
+            };
+          },
+        },
       ],
     },
 
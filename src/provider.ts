@@ -11,12 +11,30 @@
  *    - Used when Puter is configured as a separate provider with @ai-sdk/openai-compatible
  *    - Transforms OpenAI's format to Puter's format
  * 
- * The custom fetch function intercepts requests and routes them to Puter's API.
+ * 3. Anthropic Messages API format (for tools built on the Anthropic SDK)
+ *    - Used for /v1/messages requests, e.g. @ai-sdk/anthropic with baseURL http://localhost:8080/v1
+ *    - Transforms Anthropic's format to Puter's format
+ * 
+ * 4. OpenAI Responses API format (default for newer OpenAI clients)
+ *    - Used for /v1/responses requests
+ *    - Transforms Responses API input items to Puter's format
+ * 
+ * The custom fetch function intercepts requests and routes them to Puter's API
+ * through PuterClient, which handles the user-app-token handshake and retries.
  */
 
-import type { PuterChatMessage, PuterChatStreamChunk, PuterConfig } from './types.js';
-
-const PUTER_API_URL = 'https://api.puter.com';
+import type {
+  PuterChatMessage,
+  PuterChatStreamChunk,
+  PuterConfig,
+  PuterContentPart,
+  PuterResponseFormat,
+  PuterStreamUsage,
+  PuterToolChoice,
+} from './types.js';
+import { PuterClient } from './client.js';
+import { PuterApiError } from './errors.js';
+import { createAbortError, isAbortError } from './retry.js';
 
 // Puter model prefix - models starting with this are routed to Puter
 const PUTER_MODEL_PREFIX = 'puter-';
@@ -50,6 +68,33 @@ export function isOpenAIFormat(url: string): boolean {
   return url.includes('/chat/completions') || url.includes(PUTER_LOCAL_API);
 }
 
+/**
+ * Check if the request is using the Anthropic Messages API format.
+ * Checked before {@link isOpenAIFormat}, which matches any localhost:8080 URL.
+ */
+export function isAnthropicFormat(url: string): boolean {
+  return /\/v1\/messages(\?|$)/.test(url);
+}
+
+/**
+ * Check if the request is using the OpenAI Responses API format.
+ * Checked before {@link isOpenAIFormat}, which matches any localhost:8080 URL.
+ */
+export function isResponsesFormat(url: string): boolean {
+  return /\/v1\/responses(\?|$)/.test(url);
+}
+
+/**
+ * Wire format of an intercepted request
+ */
+type ApiFormat = 'openai' | 'google' | 'anthropic' | 'responses';
+
+function getApiFormat(url: string): ApiFormat {
+  if (isAnthropicFormat(url)) return 'anthropic';
+  if (isResponsesFormat(url)) return 'responses';
+  return isOpenAIFormat(url) ? 'openai' : 'google';
+}
+
 /**
  * Extract model ID from the request URL
  */
@@ -72,10 +117,109 @@ export function isStreamingRequest(url: string): boolean {
   return url.includes('streamGenerateContent') || url.includes('alt=sse');
 }
 
+// ============================================================================
+// Stream Chunk Helpers
+// ============================================================================
+
+/**
+ * Get the answer text of a stream chunk (not reasoning or tool input)
+ */
+function getStreamText(chunk: PuterChatStreamChunk): string | undefined {
+  if (chunk.type === 'tool_use' || chunk.type === 'reasoning') return undefined;
+  return chunk.text || undefined;
+}
+
+/**
+ * A tool call (or fragment of one) in a stream chunk
+ */
+interface StreamToolCall {
+  /** Identifies the call across fragments: its upstream index, else its ID, else the last open call */
+  key: string;
+  id?: string;
+  name?: string;
+  arguments: string;
+}
+
+/**
+ * Get the tool calls of a stream chunk, from either OpenAI-style `tool_calls`
+ * (possibly fragments of a call) or a Claude-style `tool_use` chunk (id, name
+ * and parsed input)
+ *
+ * @param chunk - Puter stream chunk
+ * @param state - Stream state; fragments with neither an index nor an ID
+ *   continue the last call it recorded (Puter streams have one choice)
+ */
+function getStreamToolCalls(chunk: PuterChatStreamChunk, state?: { lastToolCallKey?: string }): StreamToolCall[] {
+  const toolCalls: StreamToolCall[] = (chunk.tool_calls ?? []).map((tc, position) => ({
+    key: tc.index !== undefined ? `#${tc.index}` : tc.id ?? state?.lastToolCallKey ?? `#${position}`,
+    id: tc.id,
+    name: tc.function?.name,
+    arguments: tc.function?.arguments ?? '',
+  }));
+  if (chunk.type === 'tool_use' && chunk.id && chunk.name) {
+    toolCalls.push({
+      key: chunk.id,
+      id: chunk.id,
+      name: chunk.name,
+      arguments: typeof chunk.input === 'string' ? chunk.input : JSON.stringify(chunk.input ?? {}),
+    });
+  }
+  if (state && toolCalls.length > 0) {
+    state.lastToolCallKey = toolCalls[toolCalls.length - 1].key;
+  }
+  return toolCalls;
+}
+
+/**
+ * Normalize stream usage (Puter uses different names while streaming)
+ */
+function mapStreamUsage(usage: PuterStreamUsage): { prompt_tokens: number; completion_tokens: number; total_tokens: number } {
+  const prompt_tokens = usage.prompt_tokens ?? usage.prompt ?? 0;
+  const completion_tokens = usage.completion_tokens ?? usage.completion ?? 0;
+  return {
+    prompt_tokens,
+    completion_tokens,
+    total_tokens: usage.total_tokens ?? prompt_tokens + completion_tokens,
+  };
+}
+
 // ============================================================================
 // OpenAI Format Transformations
 // ============================================================================
 
+/**
+ * Convert OpenAI message content to Puter message content.
+ * Images and files become content parts; plain text stays a string.
+ */
+function transformOpenAIContent(content: OpenAIMessageContent): PuterChatMessage['content'] {
+  if (typeof content === 'string') return content;
+  if (!content) return '';
+  
+  const parts: PuterContentPart[] = [];
+  for (const part of content) {
+    if (part.type === 'text') {
+      parts.push({ type: 'text', text: part.text ?? '' });
+    } else if (part.type === 'image_url' && part.image_url) {
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url.url;
+      parts.push({ type: 'image_url', image_url: { url } });
+    } else if (part.type === 'file' && part.file?.file_data) {
+      parts.push({ type: 'file', file: { filename: part.file.filename, file_data: part.file.file_data } });
+    }
+  }
+  
+  return parts.every(part => part.type === 'text')
+    ? parts.map(part => part.text).join('\n')
+    : parts;
+}
+
+/**
+ * Get the text of OpenAI message content (tool results and tool-call turns)
+ */
+function getOpenAIContentText(content: OpenAIMessageContent): string {
+  if (typeof content === 'string') return content;
+  return content?.filter(part => part.type === 'text').map(part => part.text ?? '').join('\n') ?? '';
+}
+
 /**
  * Transform OpenAI chat completion request to Puter format
  */
@@ -93,7 +237,7 @@ export function transformOpenAIToPuter(
     if (msg.role === 'tool') {
       return {
         role: 'tool' as const,
-        content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content),
+        content: getOpenAIContentText(msg.content),
         tool_call_id: msg.tool_call_id,
       };
     }
@@ -101,7 +245,7 @@ export function transformOpenAIToPuter(
     if (msg.role === 'assistant' && msg.tool_calls) {
       return {
         role: 'assistant' as const,
-        content: typeof msg.content === 'string' ? msg.content : '',
+        content: getOpenAIContentText(msg.content),
         tool_calls: msg.tool_calls.map(tc => ({
           id: tc.id,
           type: 'function' as const,
@@ -115,7 +259,7 @@ export function transformOpenAIToPuter(
     
     return {
       role: msg.role as 'system' | 'user' | 'assistant',
-      content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content),
+      content: transformOpenAIContent(msg.content),
     };
   }) || [];
 
@@ -142,7 +286,11 @@ export function transformOpenAIToPuter(
       stream: body.stream || false,
       max_tokens: body.max_tokens,
       temperature: body.temperature,
+      top_p: body.top_p,
+      stop: typeof body.stop === 'string' ? [body.stop] : body.stop ?? undefined,
       tools,
+      tool_choice: body.tool_choice,
+      response_format: body.response_format,
     },
     auth_token: authToken,
   };
@@ -183,46 +331,140 @@ export function transformPuterToOpenAI(puterResponse: PuterChatResponse): OpenAI
   };
 }
 
+/**
+ * State of an OpenAI SSE stream: tool call indices must stay stable across
+ * chunks, and the final chunk carries the finish reason and usage.
+ */
+export interface OpenAIStreamState {
+  id: string;
+  model: string;
+  created: number;
+  /** The first delta (with the assistant role) has been sent */
+  sentRole: boolean;
+  /** The chunk with the finish reason has been sent */
+  finished: boolean;
+  /** Tool call index by call key (upstream index or call ID) */
+  toolCallIndices: Map<string, number>;
+  /** Key of the last tool call seen (continued by fragments without an index or ID) */
+  lastToolCallKey?: string;
+  usage?: PuterStreamUsage;
+}
+
+/**
+ * Create the state for a new OpenAI SSE stream
+ */
+export function createOpenAIStreamState(model = 'puter'): OpenAIStreamState {
+  return {
+    id: `chatcmpl-${Date.now()}`,
+    model,
+    created: Math.floor(Date.now() / 1000),
+    sentRole: false,
+    finished: false,
+    toolCallIndices: new Map(),
+  };
+}
+
+function openAIChunk(
+  state: OpenAIStreamState,
+  choices: OpenAIStreamChunk['choices'],
+  usage?: PuterStreamUsage
+): string {
+  const response: OpenAIStreamChunk = {
+    id: state.id,
+    object: 'chat.completion.chunk',
+    created: state.created,
+    model: state.model,
+    choices,
+    ...(usage ? { usage: mapStreamUsage(usage) } : {}),
+  };
+  return `data: ${JSON.stringify(response)}\n\n`;
+}
+
 /**
  * Transform Puter stream chunk to OpenAI SSE format
+ *
+ * Pass the same state for every chunk of a stream so tool calls keep their
+ * index; without it each chunk is converted on its own.
+ *
+ * @param chunk - Puter stream chunk
+ * @param state - Stream state from {@link createOpenAIStreamState}
+ * @returns Zero or more `data: ...` SSE events
  */
-export function transformPuterStreamToOpenAI(chunk: PuterChatStreamChunk): string {
+export function transformPuterStreamToOpenAI(
+  chunk: PuterChatStreamChunk,
+  state: OpenAIStreamState = createOpenAIStreamState()
+): string {
+  if (chunk.usage) {
+    state.usage = chunk.usage;
+    // Usage after the finish chunk gets its own chunk, as with stream_options.include_usage
+    if (state.finished) return openAIChunk(state, [], state.usage);
+  }
+  if (state.finished) return '';
+  
   const delta: OpenAIDelta = {};
   
-  if (chunk.text) {
-    delta.content = chunk.text;
+  const text = getStreamText(chunk);
+  if (text) {
+    delta.content = text;
   }
   
   if (chunk.reasoning) {
-    // Include reasoning as a special field (some clients support this)
-    delta.content = (delta.content || '') + chunk.reasoning;
+    delta.reasoning_content = chunk.reasoning;
   }
   
-  if (chunk.tool_calls && chunk.tool_calls.length > 0) {
-    delta.tool_calls = chunk.tool_calls.map((tc, idx) => ({
-      index: idx,
-      id: tc.id,
-      type: 'function' as const,
-      function: {
-        name: tc.function.name,
-        arguments: tc.function.arguments,
-      },
-    }));
+  const toolCalls = getStreamToolCalls(chunk, state);
+  if (toolCalls.length > 0) {
+    delta.tool_calls = toolCalls.map(tc => {
+      const knownIndex = state.toolCallIndices.get(tc.key);
+      if (knownIndex !== undefined) {
+        // More arguments for a call that has already started
+        return { index: knownIndex, function: { arguments: tc.arguments } };
+      }
+      const index = state.toolCallIndices.size;
+      state.toolCallIndices.set(tc.key, index);
+      return {
+        index,
+        id: tc.id ?? `call_${index}`,
+        type: 'function' as const,
+        function: {
+          name: tc.name ?? '',
+          arguments: tc.arguments,
+        },
+      };
+    });
   }
+  
+  let events = '';
+  if (Object.keys(delta).length > 0) {
+    if (!state.sentRole) {
+      delta.role = 'assistant';
+      state.sentRole = true;
+    }
+    events += openAIChunk(state, [{ index: 0, delta, finish_reason: null }]);
+  }
+  
+  if (chunk.done || chunk.finish_reason) {
+    events += finishOpenAIStream(state, chunk.finish_reason);
+  }
+  
+  return events;
+}
 
-  const response: OpenAIStreamChunk = {
-    id: `chatcmpl-${Date.now()}`,
-    object: 'chat.completion.chunk',
-    created: Math.floor(Date.now() / 1000),
-    model: 'puter',
-    choices: [{
-      index: 0,
-      delta,
-      finish_reason: chunk.done || chunk.finish_reason ? mapFinishReason(chunk.finish_reason) : null,
-    }],
-  };
-
-  return `data: ${JSON.stringify(response)}\n\n`;
+/**
+ * Send the final OpenAI chunk with the finish reason and usage.
+ * Does nothing if the stream was already finished by a final chunk.
+ *
+ * @param state - Stream state
+ * @param finishReason - Puter finish reason, if known
+ * @returns The final SSE event
+ */
+export function finishOpenAIStream(state: OpenAIStreamState, finishReason?: string): string {
+  if (state.finished) return '';
+  state.finished = true;
+  
+  const mapped = mapFinishReason(finishReason) ?? 'stop';
+  const finish_reason = state.toolCallIndices.size > 0 && mapped !== 'length' ? 'tool_calls' : mapped;
+  return openAIChunk(state, [{ index: 0, delta: {}, finish_reason }], state.usage);
 }
 
 function mapFinishReason(reason?: string): 'stop' | 'tool_calls' | 'length' | null {
@@ -413,8 +655,9 @@ export function transformPuterResponseToGoogle(puterResponse: PuterChatResponse)
 export function transformPuterStreamChunkToGoogle(chunk: PuterChatStreamChunk): string {
   const parts: GooglePart[] = [];
   
-  if (chunk.text) {
-    parts.push({ text: chunk.text });
+  const text = getStreamText(chunk);
+  if (text) {
+    parts.push({ text });
   }
   
   if (chunk.reasoning) {
@@ -424,22 +667,26 @@ export function transformPuterStreamChunkToGoogle(chunk: PuterChatStreamChunk):
     } as GooglePart);
   }
   
-  if (chunk.tool_calls && chunk.tool_calls.length > 0) {
-    for (const tc of chunk.tool_calls) {
-      parts.push({
-        functionCall: {
-          name: tc.function.name,
-          args: JSON.parse(tc.function.arguments),
-        },
-      });
-    }
+  const toolCalls = getStreamToolCalls(chunk);
+  for (const tc of toolCalls) {
+    parts.push({
+      functionCall: {
+        name: tc.name ?? '',
+        args: parseToolInput(tc.arguments),
+      },
+    });
   }
   
   let finishReason: string | undefined;
   if (chunk.done || chunk.finish_reason) {
-    finishReason = chunk.finish_reason === 'tool_calls' ? 'TOOL_CALLS' : 'STOP';
+    if (chunk.finish_reason === 'length') {
+      finishReason = 'MAX_TOKENS';
+    } else {
+      finishReason = chunk.finish_reason === 'tool_calls' || chunk.finish_reason === 'tool_use' ? 'TOOL_CALLS' : 'STOP';
+    }
   }
   
+  const usage = chunk.usage ? mapStreamUsage(chunk.usage) : undefined;
   const response: GoogleGenerateContentResponse = {
     candidates: [{
       content: {
@@ -449,217 +696,1113 @@ export function transformPuterStreamChunkToGoogle(chunk: PuterChatStreamChunk):
       finishReason,
       index: 0,
     }],
+    usageMetadata: usage ? {
+      promptTokenCount: usage.prompt_tokens,
+      candidatesTokenCount: usage.completion_tokens,
+      totalTokenCount: usage.total_tokens,
+    } : undefined,
   };
   
   return `data: ${JSON.stringify(response)}\n\n`;
 }
 
 // ============================================================================
-// Request Handler
+// Anthropic Format Transformations
 // ============================================================================
 
 /**
- * Make a request to Puter API and return transformed response
+ * Convert an Anthropic image or document block to a Puter content part
  */
-export async function makePuterRequest(
-  input: RequestInfo | URL,
-  init: RequestInit | undefined,
-  authToken: string,
-  config: Partial<PuterConfig> = {}
-): Promise<Response> {
-  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : (input as Request).url;
-  const useOpenAIFormat = isOpenAIFormat(url);
-  
-  let puterBody: PuterRequestBody;
-  let streaming = false;
+function transformAnthropicMediaBlock(block: AnthropicMediaBlock): PuterContentPart | null {
+  const source = block.source;
+  if (!source) return null;
+  const url = source.type === 'base64' ? `data:${source.media_type};base64,${source.data}` : source.url;
+  if (!url) return null;
   
-  if (useOpenAIFormat) {
-    // Parse OpenAI format request
-    let openaiBody: OpenAIChatCompletionRequest = {};
-    if (init?.body) {
-      try {
-        openaiBody = JSON.parse(init.body as string);
-      } catch {
-        // If parsing fails, use empty body
-      }
-    }
-    streaming = openaiBody.stream || false;
-    puterBody = transformOpenAIToPuter(openaiBody, authToken);
-  } else {
-    // Parse Google format request
-    const model = extractModelFromUrl(url);
-    streaming = isStreamingRequest(url);
-    
-    let googleBody: GoogleGenerateContentRequest = {};
-    if (init?.body) {
-      try {
-        googleBody = JSON.parse(init.body as string);
-      } catch {
-        // If parsing fails, use empty body
-      }
-    }
-    puterBody = transformRequestToPuter(googleBody, model, streaming, authToken);
+  if (block.type === 'image') {
+    return { type: 'image_url', image_url: { url } };
+  }
+  return { type: 'file', file: { file_data: url } };
+}
+
+/**
+ * Get the text of an Anthropic tool_result block (string or text blocks)
+ */
+function getToolResultText(content: AnthropicToolResultBlock['content']): string {
+  if (typeof content === 'string') return content;
+  return content?.filter(block => block.type === 'text').map(block => block.text ?? '').join('\n') ?? '';
+}
+
+/**
+ * Transform one Anthropic message to Puter messages.
+ * tool_result blocks become separate `tool` messages, placed before any
+ * other content of the same user turn.
+ */
+function transformAnthropicMessage(message: AnthropicMessage): PuterChatMessage[] {
+  if (typeof message.content === 'string') {
+    return [{ role: message.role, content: message.content }];
   }
   
-  const apiUrl = config.api_base_url || PUTER_API_URL;
-  const timeout = config.api_timeout_ms || 120000;
-  
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const messages: PuterChatMessage[] = [];
+  const parts: PuterContentPart[] = [];
+  const toolCalls: NonNullable<PuterChatMessage['tool_calls']> = [];
   
-  try {
-    const response = await fetch(`${apiUrl}/drivers/call`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(puterBody),
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      
-      if (useOpenAIFormat) {
-        return new Response(JSON.stringify({
-          error: {
-            message: `Puter API error: ${errorText}`,
-            type: response.status >= 500 ? 'server_error' : 'invalid_request_error',
-            code: response.status,
-          },
-        }), {
-          status: response.status,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      } else {
-        return new Response(JSON.stringify({
-          error: {
-            code: response.status,
-            message: `Puter API error: ${errorText}`,
-            status: response.status >= 500 ? 'INTERNAL' : 'INVALID_ARGUMENT',
-          },
-        }), {
-          status: response.status,
-          headers: { 'Content-Type': 'application/json' },
-        });
+  for (const block of message.content) {
+    switch (block.type) {
+      case 'text':
+        parts.push({ type: 'text', text: block.text ?? '' });
+        break;
+      case 'image':
+      case 'document': {
+        const part = transformAnthropicMediaBlock(block);
+        if (part) parts.push(part);
+        break;
       }
-    }
-    
-    if (streaming) {
-      return handleStreamingResponse(response, useOpenAIFormat);
-    } else {
-      const puterResponse = await response.json() as { result: PuterChatResponse };
-      
-      if (useOpenAIFormat) {
-        const openaiResponse = transformPuterToOpenAI(puterResponse.result);
-        return new Response(JSON.stringify(openaiResponse), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' },
+      case 'tool_use':
+        toolCalls.push({
+          id: block.id ?? `call_${toolCalls.length}`,
+          type: 'function',
+          function: { name: block.name ?? '', arguments: JSON.stringify(block.input ?? {}) },
         });
-      } else {
-        const googleResponse = transformPuterResponseToGoogle(puterResponse.result);
-        return new Response(JSON.stringify(googleResponse), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' },
+        break;
+      case 'tool_result':
+        messages.push({
+          role: 'tool',
+          content: getToolResultText(block.content),
+          tool_call_id: block.tool_use_id,
         });
-      }
-    }
-  } catch (error) {
-    clearTimeout(timeoutId);
-    
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    
-    if (useOpenAIFormat) {
-      return new Response(JSON.stringify({
-        error: {
-          message: `Puter request failed: ${message}`,
-          type: 'server_error',
-          code: 500,
-        },
-      }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    } else {
-      return new Response(JSON.stringify({
-        error: {
-          code: 500,
-          message: `Puter request failed: ${message}`,
-          status: 'INTERNAL',
-        },
-      }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      });
+        break;
+      // thinking / redacted_thinking blocks are not sent back
     }
   }
+  
+  // Plain text stays a string, as in the other formats
+  const content = parts.every(part => part.type === 'text')
+    ? parts.map(part => part.text).join('\n')
+    : parts;
+  
+  if (toolCalls.length > 0) {
+    messages.push({ role: 'assistant', content, tool_calls: toolCalls });
+  } else if (parts.length > 0 || messages.length === 0) {
+    messages.push({ role: message.role, content });
+  }
+  
+  return messages;
 }
 
 /**
- * Handle streaming response from Puter
+ * Transform Anthropic Messages API request to Puter format
  */
-async function handleStreamingResponse(response: Response, useOpenAIFormat: boolean): Promise<Response> {
-  if (!response.body) {
-    return new Response('No response body', { status: 500 });
-  }
+export function transformAnthropicToPuter(
+  body: AnthropicMessagesRequest,
+  authToken: string
+): PuterRequestBody {
+  // Strip puter- prefix from model name if present
+  const model = body.model?.startsWith(PUTER_MODEL_PREFIX)
+    ? body.model.slice(PUTER_MODEL_PREFIX.length)
+    : body.model || 'claude-opus-4-5';
   
-  const decoder = new TextDecoder();
-  const encoder = new TextEncoder();
+  const messages: PuterChatMessage[] = [];
   
-  let buffer = '';
+  const systemText = typeof body.system === 'string'
+    ? body.system
+    : body.system?.map(block => block.text).join('\n');
+  if (systemText) {
+    messages.push({ role: 'system', content: systemText });
+  }
   
-  const transformStream = new TransformStream({
-    async transform(chunk, controller) {
-      buffer += decoder.decode(chunk, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-      
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        
-        try {
-          const puterChunk = JSON.parse(line) as PuterChatStreamChunk;
-          const transformedChunk = useOpenAIFormat
-            ? transformPuterStreamToOpenAI(puterChunk)
-            : transformPuterStreamChunkToGoogle(puterChunk);
-          controller.enqueue(encoder.encode(transformedChunk));
-        } catch {
-          // Skip malformed lines
-        }
-      }
-    },
-    flush(controller) {
-      if (buffer.trim()) {
-        try {
-          const puterChunk = JSON.parse(buffer) as PuterChatStreamChunk;
-          const transformedChunk = useOpenAIFormat
-            ? transformPuterStreamToOpenAI(puterChunk)
-            : transformPuterStreamChunkToGoogle(puterChunk);
-          controller.enqueue(encoder.encode(transformedChunk));
-        } catch {
-          // Ignore
-        }
-      }
-      
-      // Send [DONE] for OpenAI format
-      if (useOpenAIFormat) {
-        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-      }
-    },
-  });
+  for (const message of body.messages ?? []) {
+    messages.push(...transformAnthropicMessage(message));
+  }
   
-  const transformedBody = response.body.pipeThrough(transformStream);
+  let tools: PuterTool[] | undefined;
+  if (body.tools && body.tools.length > 0) {
+    tools = body.tools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description || '',
+        parameters: tool.input_schema || { type: 'object', properties: {} },
+      },
+    }));
+  }
   
-  return new Response(transformedBody, {
-    status: 200,
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-    },
-  });
+  return {
+    interface: 'puter-chat-completion',
+    service: 'ai-chat',
+    method: 'complete',
+    args: {
+      messages,
+      model,
+      stream: body.stream || false,
+      max_tokens: body.max_tokens,
+      temperature: body.temperature,
+      tools,
+    },
+    auth_token: authToken,
+  };
+}
+
+/**
+ * Parse tool call arguments, falling back to an empty input
+ */
+function parseToolInput(args: string): Record<string, unknown> {
+  try {
+    const input = JSON.parse(args);
+    return input && typeof input === 'object' ? input : {};
+  } catch {
+    return {};
+  }
+}
+
+function mapAnthropicStopReason(reason: string | undefined, hasToolUse: boolean): AnthropicStopReason {
+  if (reason === 'tool_calls' || (hasToolUse && reason !== 'length')) return 'tool_use';
+  if (reason === 'length') return 'max_tokens';
+  return 'end_turn';
+}
+
+/**
+ * Transform Puter response to Anthropic Messages API format
+ */
+export function transformPuterToAnthropic(
+  puterResponse: PuterChatResponse,
+  model = 'puter'
+): AnthropicMessagesResponse {
+  const message = puterResponse.message;
+  const content: AnthropicResponseBlock[] = [];
+  
+  if (message?.content) {
+    content.push({ type: 'text', text: message.content });
+  }
+  
+  for (const tc of message?.tool_calls ?? []) {
+    content.push({
+      type: 'tool_use',
+      id: tc.id,
+      name: tc.function.name,
+      input: parseToolInput(tc.function.arguments),
+    });
+  }
+  
+  return {
+    id: `msg_${Date.now()}`,
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+    stop_reason: mapAnthropicStopReason(puterResponse.finish_reason, !!message?.tool_calls?.length),
+    stop_sequence: null,
+    usage: {
+      input_tokens: puterResponse.usage?.prompt_tokens ?? 0,
+      output_tokens: puterResponse.usage?.completion_tokens ?? 0,
+    },
+  };
+}
+
+/**
+ * State of an Anthropic SSE stream: Anthropic events describe content
+ * blocks with start/delta/stop, so chunks can't be converted one at a time.
+ */
+export interface AnthropicStreamState {
+  messageId: string;
+  model: string;
+  /** message_start has been sent */
+  started: boolean;
+  /** message_stop has been sent */
+  finished: boolean;
+  /** Index of the next content block */
+  blockIndex: number;
+  /** Type of the block currently open, if any */
+  openBlock: 'text' | 'thinking' | 'tool_use' | null;
+  /** Key of the tool call whose tool_use block is open */
+  openToolCall: string | null;
+  /** Key of the last tool call seen (continued by fragments without an index or ID) */
+  lastToolCallKey?: string;
+  hasToolUse: boolean;
+  usage?: PuterStreamUsage;
+}
+
+/**
+ * Create the state for a new Anthropic SSE stream
+ */
+export function createAnthropicStreamState(model = 'puter'): AnthropicStreamState {
+  return {
+    messageId: `msg_${Date.now()}`,
+    model,
+    started: false,
+    finished: false,
+    blockIndex: 0,
+    openBlock: null,
+    openToolCall: null,
+    hasToolUse: false,
+  };
+}
+
+function anthropicEvent(data: AnthropicStreamEvent): string {
+  return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function startAnthropicMessage(state: AnthropicStreamState): string {
+  if (state.started) return '';
+  state.started = true;
+  return anthropicEvent({
+    type: 'message_start',
+    message: {
+      id: state.messageId,
+      type: 'message',
+      role: 'assistant',
+      model: state.model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: 0, output_tokens: 0 },
+    },
+  });
+}
+
+function closeAnthropicBlock(state: AnthropicStreamState): string {
+  if (!state.openBlock) return '';
+  state.openBlock = null;
+  state.openToolCall = null;
+  return anthropicEvent({ type: 'content_block_stop', index: state.blockIndex++ });
+}
+
+function openAnthropicBlock(state: AnthropicStreamState, type: 'text' | 'thinking'): string {
+  if (state.openBlock === type) return '';
+  const content_block = type === 'text' ? { type, text: '' } : { type, thinking: '' };
+  const events = closeAnthropicBlock(state);
+  state.openBlock = type;
+  return events + anthropicEvent({
+    type: 'content_block_start',
+    index: state.blockIndex,
+    content_block,
+  });
+}
+
+/**
+ * Transform a Puter streaming chunk to Anthropic SSE events
+ *
+ * @param chunk - Puter stream chunk
+ * @param state - Stream state from {@link createAnthropicStreamState}
+ * @returns Zero or more `event: ...\ndata: ...` SSE events
+ */
+export function transformPuterStreamToAnthropic(
+  chunk: PuterChatStreamChunk,
+  state: AnthropicStreamState
+): string {
+  if (chunk.usage) state.usage = chunk.usage;
+  if (state.finished) return '';
+  let events = startAnthropicMessage(state);
+  
+  if (chunk.reasoning) {
+    events += openAnthropicBlock(state, 'thinking');
+    events += anthropicEvent({
+      type: 'content_block_delta',
+      index: state.blockIndex,
+      delta: { type: 'thinking_delta', thinking: chunk.reasoning },
+    });
+  }
+  
+  const text = getStreamText(chunk);
+  if (text) {
+    events += openAnthropicBlock(state, 'text');
+    events += anthropicEvent({
+      type: 'content_block_delta',
+      index: state.blockIndex,
+      delta: { type: 'text_delta', text },
+    });
+  }
+  
+  // A tool_use block stays open while fragments of the same call arrive
+  for (const tc of getStreamToolCalls(chunk, state)) {
+    state.hasToolUse = true;
+    if (state.openBlock !== 'tool_use' || state.openToolCall !== tc.key) {
+      events += closeAnthropicBlock(state);
+      state.openBlock = 'tool_use';
+      state.openToolCall = tc.key;
+      events += anthropicEvent({
+        type: 'content_block_start',
+        index: state.blockIndex,
+        content_block: { type: 'tool_use', id: tc.id ?? `toolu_${state.blockIndex}`, name: tc.name ?? '', input: {} },
+      });
+    }
+    if (tc.arguments) {
+      events += anthropicEvent({
+        type: 'content_block_delta',
+        index: state.blockIndex,
+        delta: { type: 'input_json_delta', partial_json: tc.arguments },
+      });
+    }
+  }
+  
+  if (chunk.done || chunk.finish_reason) {
+    events += finishAnthropicStream(state, chunk.finish_reason);
+  }
+  
+  return events;
+}
+
+/**
+ * Close an Anthropic SSE stream (open block, message_delta, message_stop).
+ * Does nothing if the stream was already finished by a final chunk.
+ *
+ * @param state - Stream state
+ * @param finishReason - Puter finish reason, if known
+ * @returns The closing SSE events
+ */
+export function finishAnthropicStream(state: AnthropicStreamState, finishReason?: string): string {
+  if (state.finished) return '';
+  const events = startAnthropicMessage(state) + closeAnthropicBlock(state);
+  state.finished = true;
+  return events
+    + anthropicEvent({
+      type: 'message_delta',
+      delta: { stop_reason: mapAnthropicStopReason(finishReason, state.hasToolUse), stop_sequence: null },
+      usage: { output_tokens: state.usage ? mapStreamUsage(state.usage).completion_tokens : 0 },
+    })
+    + anthropicEvent({ type: 'message_stop' });
+}
+
+// ============================================================================
+// OpenAI Responses API Transformations
+// ============================================================================
+
+/**
+ * Convert Responses API message content to Puter message content
+ */
+function transformResponsesContent(content: ResponsesMessageItem['content']): PuterChatMessage['content'] {
+  if (typeof content === 'string') return content;
+  
+  const parts: PuterContentPart[] = [];
+  for (const part of content) {
+    if (part.type === 'input_text' || part.type === 'output_text') {
+      parts.push({ type: 'text', text: part.text ?? '' });
+    } else if (part.type === 'input_image' && part.image_url) {
+      parts.push({ type: 'image_url', image_url: { url: part.image_url } });
+    } else if (part.type === 'input_file' && (part.file_data || part.file_url)) {
+      parts.push({ type: 'file', file: { filename: part.filename, file_data: (part.file_data ?? part.file_url)! } });
+    }
+  }
+  
+  // Plain text stays a string, as in the other formats
+  return parts.every(part => part.type === 'text')
+    ? parts.map(part => part.text).join('\n')
+    : parts;
+}
+
+/**
+ * Transform OpenAI Responses API request to Puter format
+ */
+export function transformResponsesToPuter(
+  body: ResponsesRequest,
+  authToken: string
+): PuterRequestBody {
+  // Strip puter- prefix from model name if present
+  const model = body.model?.startsWith(PUTER_MODEL_PREFIX)
+    ? body.model.slice(PUTER_MODEL_PREFIX.length)
+    : body.model || 'claude-opus-4-5';
+  
+  const messages: PuterChatMessage[] = [];
+  
+  if (body.instructions) {
+    messages.push({ role: 'system', content: body.instructions });
+  }
+  
+  const items = typeof body.input === 'string'
+    ? [{ type: 'message' as const, role: 'user' as const, content: body.input }]
+    : body.input ?? [];
+  
+  for (const item of items) {
+    const last = messages[messages.length - 1];
+    
+    if (item.type === 'function_call') {
+      const toolCall = {
+        id: item.call_id,
+        type: 'function' as const,
+        function: { name: item.name, arguments: item.arguments },
+      };
+      // Parallel calls (and the text before them) form one assistant turn
+      if (last?.role === 'assistant') {
+        last.tool_calls = [...(last.tool_calls ?? []), toolCall];
+      } else {
+        messages.push({ role: 'assistant', content: '', tool_calls: [toolCall] });
+      }
+    } else if (item.type === 'function_call_output') {
+      messages.push({
+        role: 'tool',
+        content: typeof item.output === 'string' ? item.output : JSON.stringify(item.output),
+        tool_call_id: item.call_id,
+      });
+    } else if (item.type === 'message' || item.type === undefined) {
+      messages.push({
+        role: item.role === 'developer' ? 'system' : item.role,
+        content: transformResponsesContent(item.content),
+      });
+    }
+    // reasoning and built-in tool items are not sent back
+  }
+  
+  let tools: PuterTool[] | undefined;
+  const functionTools = body.tools?.filter(tool => tool.type === 'function' && tool.name);
+  if (functionTools && functionTools.length > 0) {
+    tools = functionTools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name!,
+        description: tool.description || '',
+        parameters: tool.parameters || { type: 'object', properties: {} },
+      },
+    }));
+  }
+  
+  return {
+    interface: 'puter-chat-completion',
+    service: 'ai-chat',
+    method: 'complete',
+    args: {
+      messages,
+      model,
+      stream: body.stream || false,
+      max_tokens: body.max_output_tokens,
+      temperature: body.temperature,
+      tools,
+    },
+    auth_token: authToken,
+  };
+}
+
+/**
+ * Generate an ID for a Responses API object (`resp_...`, `msg_...`, `fc_...`)
+ */
+function responsesId(prefix: string): string {
+  return `${prefix}_${Date.now()}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Build a Responses API response object
+ */
+function buildResponsesResponse(
+  id: string,
+  model: string,
+  createdAt: number,
+  output: ResponsesOutputItem[],
+  status: ResponsesResponse['status'],
+  usage?: PuterChatResponse['usage']
+): ResponsesResponse {
+  return {
+    id,
+    object: 'response',
+    created_at: createdAt,
+    status,
+    model,
+    output,
+    incomplete_details: status === 'incomplete' ? { reason: 'max_output_tokens' } : null,
+    usage: usage ? {
+      input_tokens: usage.prompt_tokens,
+      output_tokens: usage.completion_tokens,
+      total_tokens: usage.total_tokens,
+    } : null,
+  };
+}
+
+/**
+ * Transform Puter response to OpenAI Responses API format
+ */
+export function transformPuterToResponses(
+  puterResponse: PuterChatResponse,
+  model = 'puter'
+): ResponsesResponse {
+  const message = puterResponse.message;
+  const output: ResponsesOutputItem[] = [];
+  
+  if (message?.content) {
+    output.push({
+      type: 'message',
+      id: responsesId('msg'),
+      status: 'completed',
+      role: 'assistant',
+      content: [{ type: 'output_text', text: message.content, annotations: [] }],
+    });
+  }
+  
+  for (const tc of message?.tool_calls ?? []) {
+    output.push({
+      type: 'function_call',
+      id: responsesId('fc'),
+      call_id: tc.id,
+      name: tc.function.name,
+      arguments: tc.function.arguments,
+      status: 'completed',
+    });
+  }
+  
+  return buildResponsesResponse(
+    responsesId('resp'),
+    model,
+    Math.floor(Date.now() / 1000),
+    output,
+    puterResponse.finish_reason === 'length' ? 'incomplete' : 'completed',
+    puterResponse.usage
+  );
+}
+
+/**
+ * State of a Responses API SSE stream: events describe output items with
+ * added/delta/done, so chunks can't be converted one at a time.
+ */
+export interface ResponsesStreamState {
+  responseId: string;
+  model: string;
+  createdAt: number;
+  /** response.created has been sent */
+  started: boolean;
+  /** The final response event has been sent */
+  finished: boolean;
+  /** Next sequence_number */
+  sequence: number;
+  /** Completed output items */
+  output: ResponsesOutputItem[];
+  /** Item currently receiving deltas, if any (text is a function call's arguments) */
+  open: {
+    type: 'message' | 'reasoning' | 'function_call';
+    id: string;
+    text: string;
+    /** function_call items: call key (upstream index or call ID), call ID and name */
+    call?: { key: string; callId: string; name: string };
+  } | null;
+  /** Key of the last tool call seen (continued by fragments without an index or ID) */
+  lastToolCallKey?: string;
+  usage?: PuterStreamUsage;
+}
+
+/**
+ * Create the state for a new Responses API SSE stream
+ */
+export function createResponsesStreamState(model = 'puter'): ResponsesStreamState {
+  return {
+    responseId: responsesId('resp'),
+    model,
+    createdAt: Math.floor(Date.now() / 1000),
+    started: false,
+    finished: false,
+    sequence: 0,
+    output: [],
+    open: null,
+  };
+}
+
+function responsesEvent(state: ResponsesStreamState, event: ResponsesStreamEvent): string {
+  const data = { ...event, sequence_number: state.sequence++ };
+  return `event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function startResponse(state: ResponsesStreamState): string {
+  if (state.started) return '';
+  state.started = true;
+  const response = buildResponsesResponse(state.responseId, state.model, state.createdAt, [], 'in_progress');
+  return responsesEvent(state, { type: 'response.created', response })
+    + responsesEvent(state, { type: 'response.in_progress', response });
+}
+
+function closeResponsesItem(state: ResponsesStreamState): string {
+  const open = state.open;
+  if (!open) return '';
+  state.open = null;
+  const output_index = state.output.length;
+  
+  if (open.type === 'function_call') {
+    const item: ResponsesOutputItem = {
+      type: 'function_call',
+      id: open.id,
+      call_id: open.call!.callId,
+      name: open.call!.name,
+      arguments: open.text,
+      status: 'completed',
+    };
+    state.output.push(item);
+    return responsesEvent(state, {
+      type: 'response.function_call_arguments.done',
+      item_id: open.id,
+      output_index,
+      arguments: open.text,
+    })
+      + responsesEvent(state, { type: 'response.output_item.done', output_index, item });
+  }
+  
+  if (open.type === 'reasoning') {
+    const part = { type: 'summary_text' as const, text: open.text };
+    const item: ResponsesOutputItem = { type: 'reasoning', id: open.id, summary: [part] };
+    state.output.push(item);
+    return responsesEvent(state, {
+      type: 'response.reasoning_summary_text.done',
+      item_id: open.id,
+      output_index,
+      summary_index: 0,
+      text: open.text,
+    })
+      + responsesEvent(state, { type: 'response.reasoning_summary_part.done', item_id: open.id, output_index, summary_index: 0, part })
+      + responsesEvent(state, { type: 'response.output_item.done', output_index, item });
+  }
+  
+  const part = { type: 'output_text' as const, text: open.text, annotations: [] };
+  const item: ResponsesOutputItem = { type: 'message', id: open.id, status: 'completed', role: 'assistant', content: [part] };
+  state.output.push(item);
+  return responsesEvent(state, {
+    type: 'response.output_text.done',
+    item_id: open.id,
+    output_index,
+    content_index: 0,
+    text: open.text,
+  })
+    + responsesEvent(state, { type: 'response.content_part.done', item_id: open.id, output_index, content_index: 0, part })
+    + responsesEvent(state, { type: 'response.output_item.done', output_index, item });
+}
+
+function openResponsesItem(state: ResponsesStreamState, type: 'message' | 'reasoning'): string {
+  if (state.open?.type === type) return '';
+  let events = closeResponsesItem(state);
+  const id = responsesId(type === 'message' ? 'msg' : 'rs');
+  const output_index = state.output.length;
+  state.open = { type, id, text: '' };
+  
+  if (type === 'reasoning') {
+    events += responsesEvent(state, {
+      type: 'response.output_item.added',
+      output_index,
+      item: { type: 'reasoning', id, summary: [] },
+    });
+    return events + responsesEvent(state, {
+      type: 'response.reasoning_summary_part.added',
+      item_id: id,
+      output_index,
+      summary_index: 0,
+      part: { type: 'summary_text', text: '' },
+    });
+  }
+  
+  events += responsesEvent(state, {
+    type: 'response.output_item.added',
+    output_index,
+    item: { type: 'message', id, status: 'in_progress', role: 'assistant', content: [] },
+  });
+  return events + responsesEvent(state, {
+    type: 'response.content_part.added',
+    item_id: id,
+    output_index,
+    content_index: 0,
+    part: { type: 'output_text', text: '', annotations: [] },
+  });
+}
+
+/**
+ * Transform a Puter streaming chunk to Responses API SSE events
+ *
+ * @param chunk - Puter stream chunk
+ * @param state - Stream state from {@link createResponsesStreamState}
+ * @returns Zero or more `event: ...\ndata: ...` SSE events
+ */
+export function transformPuterStreamToResponses(
+  chunk: PuterChatStreamChunk,
+  state: ResponsesStreamState
+): string {
+  if (chunk.usage) state.usage = chunk.usage;
+  if (state.finished) return '';
+  let events = startResponse(state);
+  
+  if (chunk.reasoning) {
+    events += openResponsesItem(state, 'reasoning');
+    state.open!.text += chunk.reasoning;
+    events += responsesEvent(state, {
+      type: 'response.reasoning_summary_text.delta',
+      item_id: state.open!.id,
+      output_index: state.output.length,
+      summary_index: 0,
+      delta: chunk.reasoning,
+    });
+  }
+  
+  const text = getStreamText(chunk);
+  if (text) {
+    events += openResponsesItem(state, 'message');
+    state.open!.text += text;
+    events += responsesEvent(state, {
+      type: 'response.output_text.delta',
+      item_id: state.open!.id,
+      output_index: state.output.length,
+      content_index: 0,
+      delta: text,
+    });
+  }
+  
+  // A function_call item stays open while fragments of the same call arrive
+  for (const tc of getStreamToolCalls(chunk, state)) {
+    if (state.open?.call?.key !== tc.key) {
+      events += closeResponsesItem(state);
+      const id = responsesId('fc');
+      const call = { key: tc.key, callId: tc.id ?? responsesId('call'), name: tc.name ?? '' };
+      state.open = { type: 'function_call', id, text: '', call };
+      events += responsesEvent(state, {
+        type: 'response.output_item.added',
+        output_index: state.output.length,
+        item: { type: 'function_call', id, call_id: call.callId, name: call.name, arguments: '', status: 'in_progress' },
+      });
+    }
+    if (tc.arguments) {
+      state.open!.text += tc.arguments;
+      events += responsesEvent(state, {
+        type: 'response.function_call_arguments.delta',
+        item_id: state.open!.id,
+        output_index: state.output.length,
+        delta: tc.arguments,
+      });
+    }
+  }
+  
+  if (chunk.done || chunk.finish_reason) {
+    events += finishResponsesStream(state, chunk.finish_reason);
+  }
+  
+  return events;
+}
+
+/**
+ * Close a Responses API SSE stream (open item, then `response.completed`,
+ * or `response.incomplete` when the output hit the token limit).
+ * Does nothing if the stream was already finished by a final chunk.
+ *
+ * @param state - Stream state
+ * @param finishReason - Puter finish reason, if known
+ * @returns The closing SSE events
+ */
+export function finishResponsesStream(state: ResponsesStreamState, finishReason?: string): string {
+  if (state.finished) return '';
+  const events = startResponse(state) + closeResponsesItem(state);
+  state.finished = true;
+  const status = finishReason === 'length' ? 'incomplete' : 'completed';
+  const usage = state.usage ? mapStreamUsage(state.usage) : undefined;
+  const response = buildResponsesResponse(state.responseId, state.model, state.createdAt, state.output, status, usage);
+  return events + responsesEvent(state, {
+    type: status === 'incomplete' ? 'response.incomplete' : 'response.completed',
+    response,
+  });
+}
+
+// ============================================================================
+// Request Handler
+// ============================================================================
+
+/**
+ * Build headers for an error response, keeping Puter's retry hint (as
+ * Retry-After) so the AI SDK and `createRetryFetch` can honor it
+ */
+function buildErrorHeaders(retryAfterMs?: number): Headers {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  if (retryAfterMs !== undefined) {
+    headers.set('retry-after', String(Math.ceil(retryAfterMs / 1000)));
+  }
+  return headers;
+}
+
+/**
+ * Anthropic error type for an HTTP status
+ */
+function anthropicErrorType(status: number): string {
+  if (status === 401) return 'authentication_error';
+  if (status === 402 || status === 403) return 'permission_error';
+  if (status === 404) return 'not_found_error';
+  if (status === 429) return 'rate_limit_error';
+  if (status === 529) return 'overloaded_error';
+  if (status >= 500) return 'api_error';
+  return 'invalid_request_error';
+}
+
+/**
+ * Build an error response in the request's API format
+ */
+function buildErrorResponse(format: ApiFormat, status: number, message: string, headers: Headers): Response {
+  let body: unknown;
+  if (format === 'openai') {
+    body = {
+      error: {
+        message,
+        type: status >= 500 ? 'server_error' : 'invalid_request_error',
+        code: status,
+      },
+    };
+  } else if (format === 'anthropic') {
+    body = {
+      type: 'error',
+      error: { type: anthropicErrorType(status), message },
+    };
+  } else if (format === 'responses') {
+    body = {
+      error: {
+        message,
+        type: status >= 500 ? 'server_error' : 'invalid_request_error',
+        code: String(status),
+        param: null,
+      },
+    };
+  } else {
+    body = {
+      error: {
+        code: status,
+        message,
+        status: status >= 500 ? 'INTERNAL' : 'INVALID_ARGUMENT',
+      },
+    };
+  }
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Parse a JSON request body, falling back to an empty body
+ */
+function parseRequestBody<T>(init: RequestInit | undefined): Partial<T> {
+  if (!init?.body) return {};
+  try {
+    return JSON.parse(init.body as string);
+  } catch {
+    // If parsing fails, use empty body
+    return {};
+  }
+}
+
+/**
+ * Make a request to Puter API and return transformed response
+ *
+ * The request goes through {@link PuterClient}, so it authenticates with a
+ * user-app-token and Origin header, retries transient failures and drops
+ * the cached user-app-token on 403.
+ *
+ * Aborting `init.signal` rejects with an AbortError and, until the response
+ * body is consumed or cancelled, aborts the upstream request. Running past
+ * `api_timeout_ms` (before a streamed response starts) returns a 504.
+ *
+ * @param input - Intercepted request URL
+ * @param init - Intercepted request options (OpenAI, Google, Anthropic or Responses format body)
+ * @param authToken - Puter auth token
+ * @param config - Optional Puter configuration
+ * @param client - Client to send the request with; reuse one to keep its user-app-token cached
+ */
+export async function makePuterRequest(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  authToken: string,
+  config: Partial<PuterConfig> = {},
+  client: PuterClient = new PuterClient(authToken, config)
+): Promise<Response> {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : (input as Request).url;
+  const format = getApiFormat(url);
+  
+  let puterBody: PuterRequestBody;
+  let streaming = false;
+  
+  if (format === 'openai') {
+    // Parse OpenAI format request
+    const openaiBody = parseRequestBody<OpenAIChatCompletionRequest>(init);
+    streaming = openaiBody.stream || false;
+    puterBody = transformOpenAIToPuter(openaiBody, authToken);
+  } else if (format === 'anthropic') {
+    // Parse Anthropic format request
+    const anthropicBody = parseRequestBody<AnthropicMessagesRequest>(init);
+    streaming = anthropicBody.stream || false;
+    puterBody = transformAnthropicToPuter(anthropicBody, authToken);
+  } else if (format === 'responses') {
+    // Parse Responses API format request
+    const responsesBody = parseRequestBody<ResponsesRequest>(init);
+    streaming = responsesBody.stream || false;
+    puterBody = transformResponsesToPuter(responsesBody, authToken);
+  } else {
+    // Parse Google format request
+    const model = extractModelFromUrl(url);
+    streaming = isStreamingRequest(url);
+    puterBody = transformRequestToPuter(parseRequestBody<GoogleGenerateContentRequest>(init), model, streaming, authToken);
+  }
+  
+  const timeout = config.api_timeout_ms || 120000;
+  
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onAbort = () => controller.abort(init?.signal?.reason);
+  if (init?.signal?.aborted) {
+    onAbort();
+  } else {
+    init?.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const unlink = () => {
+    clearTimeout(timeoutId);
+    init?.signal?.removeEventListener('abort', onAbort);
+  };
+  
+  let streamStarted = false;
+  try {
+    const response = await client.callDriver(puterBody.method, puterBody.args, controller.signal);
+    
+    if (streaming) {
+      // Streams may run longer than api_timeout_ms; cancelling still reaches Puter
+      clearTimeout(timeoutId);
+      streamStarted = true;
+      return handleStreamingResponse(response, format, puterBody.args.model, unlink);
+    }
+    
+    const puterResponse = await response.json() as { result: PuterChatResponse };
+    let body: unknown;
+    if (format === 'openai') {
+      body = transformPuterToOpenAI(puterResponse.result);
+    } else if (format === 'anthropic') {
+      body = transformPuterToAnthropic(puterResponse.result, puterBody.args.model);
+    } else if (format === 'responses') {
+      body = transformPuterToResponses(puterResponse.result, puterBody.args.model);
+    } else {
+      body = transformPuterResponseToGoogle(puterResponse.result);
+    }
+    
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (init?.signal?.aborted) {
+      throw isAbortError(error) ? error : createAbortError(init.signal);
+    }
+    
+    if (timedOut) {
+      return buildErrorResponse(format, 504, `Puter request timed out after ${timeout}ms`, buildErrorHeaders());
+    }
+    
+    if (error instanceof PuterApiError) {
+      return buildErrorResponse(
+        format,
+        error.status,
+        `Puter API error: ${error.body ?? error.message}`,
+        buildErrorHeaders(error.retryAfterMs)
+      );
+    }
+    
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return buildErrorResponse(format, 500, `Puter request failed: ${message}`, buildErrorHeaders());
+  } finally {
+    if (!streamStarted) unlink();
+  }
+}
+
+/**
+ * Wrap a response body so `onEnd` runs once it has been read to the end,
+ * failed or been cancelled
+ */
+function onBodyEnd(body: ReadableStream<Uint8Array>, onEnd: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          onEnd();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        onEnd();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      onEnd();
+      await reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Handle streaming response from Puter
+ *
+ * @param onEnd - Called once the stream has ended or been cancelled
+ */
+async function handleStreamingResponse(
+  response: Response,
+  format: ApiFormat,
+  model: string,
+  onEnd: () => void
+): Promise<Response> {
+  if (!response.body) {
+    onEnd();
+    return new Response('No response body', { status: 500 });
+  }
+  
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const openaiState = format === 'openai' ? createOpenAIStreamState(model) : null;
+  const anthropicState = format === 'anthropic' ? createAnthropicStreamState(model) : null;
+  const responsesState = format === 'responses' ? createResponsesStreamState(model) : null;
+  
+  const transformChunk = (puterChunk: PuterChatStreamChunk): string => {
+    if (openaiState) return transformPuterStreamToOpenAI(puterChunk, openaiState);
+    if (anthropicState) return transformPuterStreamToAnthropic(puterChunk, anthropicState);
+    if (responsesState) return transformPuterStreamToResponses(puterChunk, responsesState);
+    return transformPuterStreamChunkToGoogle(puterChunk);
+  };
+  
+  let buffer = '';
+  
+  const transformStream = new TransformStream({
+    async transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        
+        try {
+          const puterChunk = JSON.parse(line) as PuterChatStreamChunk;
+          const transformedChunk = transformChunk(puterChunk);
+          if (transformedChunk) controller.enqueue(encoder.encode(transformedChunk));
+        } catch {
+          // Skip malformed lines
+        }
+      }
+    },
+    flush(controller) {
+      if (buffer.trim()) {
+        try {
+          const puterChunk = JSON.parse(buffer) as PuterChatStreamChunk;
+          const transformedChunk = transformChunk(puterChunk);
+          if (transformedChunk) controller.enqueue(encoder.encode(transformedChunk));
+        } catch {
+          // Ignore
+        }
+      }
+      
+      // Close the stream if Puter didn't send a final chunk
+      let closing = '';
+      if (openaiState) closing = finishOpenAIStream(openaiState);
+      if (anthropicState) closing = finishAnthropicStream(anthropicState);
+      if (responsesState) closing = finishResponsesStream(responsesState);
+      if (closing) controller.enqueue(encoder.encode(closing));
+      
+      // Send [DONE] for OpenAI format
+      if (openaiState) {
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      }
+    },
+  });
+  
+  const transformedBody = onBodyEnd(response.body, onEnd).pipeThrough(transformStream);
+  
+  return new Response(transformedBody, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
 }
 
 // ============================================================================
@@ -683,6 +1826,9 @@ export function createPuterFetch(
   authToken: string,
   config: Partial<PuterConfig> = {}
 ): typeof fetch {
+  // One client per fetch function, so the user-app-token is reused across requests
+  const client = new PuterClient(authToken, config);
+  
   return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     // Only intercept Puter requests, pass through everything else
     if (!isPuterRequest(input)) {
@@ -690,7 +1836,7 @@ export function createPuterFetch(
     }
     
     // Route through Puter API with transformation
-    return makePuterRequest(input, init, authToken, config);
+    return makePuterRequest(input, init, authToken, config, client);
   };
 }
 
@@ -699,11 +1845,18 @@ export function createPuterFetch(
 // ============================================================================
 
 // OpenAI Types
-interface OpenAIChatCompletionRequest {
+type OpenAIMessageContent = string | null | Array<{
+  type: 'text' | 'image_url' | 'file' | 'input_audio';
+  text?: string;
+  image_url?: string | { url: string; detail?: string };
+  file?: { filename?: string; file_data?: string };
+}>;
+
+export interface OpenAIChatCompletionRequest {
   model?: string;
   messages?: Array<{
     role: 'system' | 'user' | 'assistant' | 'tool';
-    content: string | null;
+    content: OpenAIMessageContent;
     tool_call_id?: string;
     tool_calls?: Array<{
       id: string;
@@ -724,6 +1877,10 @@ interface OpenAIChatCompletionRequest {
   }>;
   max_tokens?: number;
   temperature?: number;
+  top_p?: number;
+  stop?: string | string[] | null;
+  tool_choice?: PuterToolChoice;
+  response_format?: PuterResponseFormat;
   stream?: boolean;
 }
 
@@ -758,6 +1915,8 @@ interface OpenAIChatCompletionResponse {
 interface OpenAIDelta {
   role?: 'assistant';
   content?: string;
+  /** Reasoning text (DeepSeek-style, read by @ai-sdk/openai-compatible) */
+  reasoning_content?: string;
   tool_calls?: Array<{
     index: number;
     id?: string;
@@ -779,6 +1938,11 @@ interface OpenAIStreamChunk {
     delta: OpenAIDelta;
     finish_reason: 'stop' | 'tool_calls' | 'length' | null;
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
 }
 
 // Google Types
@@ -838,6 +2002,198 @@ interface GoogleGenerateContentResponse {
   };
 }
 
+// Anthropic Types
+interface AnthropicMediaSource {
+  type: 'base64' | 'url';
+  media_type?: string;
+  data?: string;
+  url?: string;
+}
+
+interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+interface AnthropicMediaBlock {
+  type: 'image' | 'document';
+  source?: AnthropicMediaSource;
+}
+
+type AnthropicContentBlock =
+  | { type: 'text'; text?: string }
+  | AnthropicMediaBlock
+  | { type: 'tool_use'; id?: string; name?: string; input?: unknown }
+  | AnthropicToolResultBlock
+  | { type: 'thinking' | 'redacted_thinking' };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicMessagesRequest {
+  model?: string;
+  system?: string | Array<{ type: 'text'; text: string }>;
+  messages?: AnthropicMessage[];
+  tools?: Array<{
+    name: string;
+    description?: string;
+    input_schema?: Record<string, unknown>;
+  }>;
+  max_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+}
+
+type AnthropicStopReason = 'end_turn' | 'tool_use' | 'max_tokens';
+
+type AnthropicResponseBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> };
+
+interface AnthropicMessagesResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicResponseBlock[];
+  stop_reason: AnthropicStopReason | null;
+  stop_sequence: null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicMessagesResponse }
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: { type: 'text'; text: string } | { type: 'thinking'; thinking: string } | AnthropicResponseBlock;
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta:
+        | { type: 'text_delta'; text: string }
+        | { type: 'thinking_delta'; thinking: string }
+        | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason: AnthropicStopReason; stop_sequence: null };
+      usage: { output_tokens: number };
+    }
+  | { type: 'message_stop' };
+
+// OpenAI Responses API Types
+interface ResponsesMessageItem {
+  type?: 'message';
+  role: 'user' | 'assistant' | 'system' | 'developer';
+  content: string | Array<{
+    type: 'input_text' | 'output_text' | 'input_image' | 'input_file' | 'refusal';
+    text?: string;
+    image_url?: string;
+    file_data?: string;
+    file_url?: string;
+    filename?: string;
+  }>;
+}
+
+type ResponsesInputItem =
+  | ResponsesMessageItem
+  | { type: 'function_call'; call_id: string; name: string; arguments: string; id?: string }
+  | { type: 'function_call_output'; call_id: string; output: unknown }
+  | { type: 'reasoning' };
+
+interface ResponsesRequest {
+  model?: string;
+  instructions?: string;
+  input?: string | ResponsesInputItem[];
+  tools?: Array<{
+    type: string;
+    name?: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  }>;
+  max_output_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+}
+
+interface ResponsesOutputText {
+  type: 'output_text';
+  text: string;
+  annotations: unknown[];
+}
+
+interface ResponsesSummaryText {
+  type: 'summary_text';
+  text: string;
+}
+
+type ResponsesOutputItem =
+  | {
+      type: 'message';
+      id: string;
+      status: 'in_progress' | 'completed';
+      role: 'assistant';
+      content: ResponsesOutputText[];
+    }
+  | {
+      type: 'function_call';
+      id: string;
+      call_id: string;
+      name: string;
+      arguments: string;
+      status: 'in_progress' | 'completed';
+    }
+  | { type: 'reasoning'; id: string; summary: ResponsesSummaryText[] };
+
+interface ResponsesResponse {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'in_progress' | 'completed' | 'incomplete';
+  model: string;
+  output: ResponsesOutputItem[];
+  incomplete_details: { reason: 'max_output_tokens' } | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+type ResponsesStreamEvent =
+  | { type: 'response.created' | 'response.in_progress' | 'response.completed' | 'response.incomplete'; response: ResponsesResponse }
+  | { type: 'response.output_item.added' | 'response.output_item.done'; output_index: number; item: ResponsesOutputItem }
+  | {
+      type: 'response.content_part.added' | 'response.content_part.done';
+      item_id: string;
+      output_index: number;
+      content_index: number;
+      part: ResponsesOutputText;
+    }
+  | { type: 'response.output_text.delta'; item_id: string; output_index: number; content_index: number; delta: string }
+  | { type: 'response.output_text.done'; item_id: string; output_index: number; content_index: number; text: string }
+  | {
+      type: 'response.reasoning_summary_part.added' | 'response.reasoning_summary_part.done';
+      item_id: string;
+      output_index: number;
+      summary_index: number;
+      part: ResponsesSummaryText;
+    }
+  | { type: 'response.reasoning_summary_text.delta'; item_id: string; output_index: number; summary_index: number; delta: string }
+  | { type: 'response.reasoning_summary_text.done'; item_id: string; output_index: number; summary_index: number; text: string }
+  | { type: 'response.function_call_arguments.delta'; item_id: string; output_index: number; delta: string }
+  | { type: 'response.function_call_arguments.done'; item_id: string; output_index: number; arguments: string };
+
 // Puter Types
 interface PuterTool {
   type: 'function';
@@ -858,7 +2214,11 @@ interface PuterRequestBody {
     stream: boolean;
     max_tokens?: number;
     temperature?: number;
+    top_p?: number;
+    stop?: string[];
     tools?: PuterTool[];
+    tool_choice?: PuterToolChoice;
+    response_format?: PuterResponseFormat;
   };
   auth_token: string;
 }
@@ -19,10 +19,12 @@ export interface RetryOptions {
   backoffFactor?: number;
   /** Add random jitter to delays (default: true) */
   jitter?: boolean;
-  /** HTTP status codes that should trigger a retry (default: [429, 500, 502, 503, 504]) */
+  /** HTTP status codes that should trigger a retry (default: RETRYABLE_STATUSES) */
   retryableStatuses?: number[];
   /** Callback called before each retry attempt */
   onRetry?: (attempt: number, error: Error, delay: number) => void;
+  /** Abort signal - stops further attempts and pending backoff delays */
+  signal?: AbortSignal;
 }
 
 /**
@@ -40,16 +42,90 @@ export class RetryError extends Error {
   }
 }
 
+/**
+ * Error for a failed HTTP response
+ * 
+ * Carries the status code and the server's retry hint (from `Retry-After` /
+ * `X-RateLimit-Reset`) so retry and cooldown decisions can use them.
+ * The message keeps the `(status)` form used throughout the codebase.
+ */
+export class HttpStatusError extends Error {
+  public readonly status: number;
+  /** How long the server asked us to wait before retrying, in milliseconds */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Read the retry hint from response headers
+ * 
+ * Supports `Retry-After` (delay in seconds or an HTTP date) and
+ * `X-RateLimit-Reset` (Unix timestamp in seconds or milliseconds, or a delay
+ * in seconds). `Retry-After` takes precedence.
+ * 
+ * @param headers - Response headers
+ * @param now - Current time (for date/timestamp values)
+ * @returns Delay in milliseconds, or undefined if no usable hint
+ * 
+ * @example
+ * ```ts
+ * parseRetryAfter(new Headers({ 'Retry-After': '30' })); // 30000
+ * ```
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | undefined {
+  const retryAfter = headers.get('retry-after')?.trim();
+  if (retryAfter) {
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+      return Math.round(parseFloat(retryAfter) * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = headers.get('x-ratelimit-reset')?.trim();
+  if (reset && /^\d+(\.\d+)?$/.test(reset)) {
+    const value = parseFloat(reset);
+    if (value >= 1e12) return Math.max(0, Math.round(value - now));        // ms timestamp
+    if (value >= 1e9) return Math.max(0, Math.round(value * 1000 - now));  // s timestamp
+    return Math.round(value * 1000);                                        // delay in s
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the server's retry hint from an error, if it carries one
+ * 
+ * @param error - Error to inspect
+ * @returns Delay in milliseconds, or undefined
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  return error instanceof HttpStatusError ? error.retryAfterMs : undefined;
+}
+
+/**
+ * HTTP statuses that are worth retrying (also sets PuterApiError.retryable)
+ */
+export const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
 /**
  * Default retry options
  */
-const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'onRetry'>> = {
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'onRetry' | 'signal'>> = {
   maxRetries: 3,
   initialDelay: 1000,
   maxDelay: 30000,
   backoffFactor: 2,
   jitter: true,
-  retryableStatuses: [429, 500, 502, 503, 504],
+  retryableStatuses: RETRYABLE_STATUSES,
 };
 
 /**
@@ -94,14 +170,140 @@ export function calculateDelay(
   return Math.round(cappedDelay);
 }
 
+/**
+ * Create an AbortError for an aborted signal
+ * 
+ * Reuses the signal's reason when it is already an AbortError so callers
+ * see the same error object the AI SDK / fetch would surface.
+ * 
+ * @param signal - The aborted signal (optional)
+ * @returns An error with name 'AbortError'
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+  const reason: unknown = signal?.reason;
+  if (reason instanceof Error && reason.name === 'AbortError') {
+    return reason;
+  }
+  return new DOMException('The operation was aborted', 'AbortError');
+}
+
+/**
+ * Check if an error is an AbortError (from an AbortSignal or fetch)
+ * 
+ * @param error - The error to check
+ * @returns true if the error represents a cancelled operation
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ * 
+ * @param signal - Signal to check (no-op when undefined)
+ * @throws AbortError if the signal is aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Race a promise against an abort signal
+ * 
+ * Useful for APIs that don't accept a signal themselves (e.g. the Puter SDK):
+ * the underlying work keeps running, but the caller stops waiting immediately.
+ * 
+ * @param promise - Promise to wait for
+ * @param signal - Signal that rejects the race with an AbortError
+ * @returns The promise result
+ */
+export function raceWithAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError(signal));
+  
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Read the next stream chunk, failing if none arrives in time.
+ * 
+ * @param iterator - Stream iterator
+ * @param timeoutMs - How long to wait for the chunk (0 = no limit)
+ * @param deadline - Time the whole stream must finish by (0 = no limit)
+ * @param description - What we're waiting for, for the error message
+ * @param signal - Abort signal that stops waiting with an AbortError
+ */
+export async function nextChunkWithTimeout<T>(
+  iterator: AsyncIterator<T>,
+  timeoutMs: number,
+  deadline: number,
+  description: string,
+  signal?: AbortSignal
+): Promise<IteratorResult<T>> {
+  const remainingMs = deadline > 0 ? Math.max(0, deadline - Date.now()) : 0;
+  const useDeadline = deadline > 0 && (timeoutMs <= 0 || remainingMs < timeoutMs);
+  const waitMs = useDeadline ? remainingMs : timeoutMs;
+  const next = raceWithAbort(iterator.next(), signal);
+  if (!useDeadline && waitMs <= 0) return next;
+  
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(new Error(useDeadline
+        ? 'Streaming timeout: Stream exceeded its total duration limit'
+        : `Streaming timeout: No ${description} received within ${timeoutMs / 1000}s`));
+    }, waitMs);
+  });
+  
+  try {
+    return await Promise.race([next, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 /**
  * Sleep for a specified duration
  * 
  * @param ms - Duration in milliseconds
+ * @param signal - Optional signal that cancels the sleep with an AbortError
  * @returns Promise that resolves after the delay
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+  
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError(signal));
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -116,6 +318,13 @@ export function isRetryableError(
   retryableStatuses: number[] = DEFAULT_RETRY_OPTIONS.retryableStatuses
 ): boolean {
   if (error instanceof Error) {
+    // Cancelled operations must never be retried
+    if (isAbortError(error)) return false;
+    
+    if (error instanceof HttpStatusError && retryableStatuses.includes(error.status)) {
+      return true;
+    }
+    
     const message = error.message.toLowerCase();
     
     // Check for status codes in error message
@@ -147,11 +356,15 @@ export function isRetryableError(
  * 
  * Uses exponential backoff with jitter to handle transient failures.
  * Only retries on specific error conditions (rate limits, server errors, network issues).
+ * When the error carries a server retry hint ({@link HttpStatusError}), that
+ * delay is used instead; hints longer than `maxDelay` end the retries early so
+ * callers can fall back to another model or account.
  * 
  * @param operation - Async function to execute
  * @param options - Retry configuration options
  * @returns Result of the operation
  * @throws RetryError if all retry attempts fail
+ * @throws AbortError if `options.signal` is aborted
  * 
  * @example
  * ```ts
@@ -178,26 +391,35 @@ export async function withRetry<T>(
     jitter = DEFAULT_RETRY_OPTIONS.jitter,
     retryableStatuses = DEFAULT_RETRY_OPTIONS.retryableStatuses,
     onRetry,
+    signal,
   } = options;
 
   let lastError: Error = new Error('Unknown error');
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    throwIfAborted(signal);
+    
     try {
       return await operation();
     } catch (error) {
+      // Caller cancelled - surface an AbortError instead of the fetch failure
+      throwIfAborted(signal);
+      
       lastError = error instanceof Error ? error : new Error(String(error));
       
       // Check if we should retry
       const isLastAttempt = attempt === maxRetries;
-      const shouldRetry = !isLastAttempt && isRetryableError(error, retryableStatuses);
+      const retryAfterMs = getRetryAfterMs(error);
+      const shouldRetry = !isLastAttempt
+        && isRetryableError(error, retryableStatuses)
+        && (retryAfterMs === undefined || retryAfterMs <= maxDelay);
       
       if (!shouldRetry) {
         throw lastError;
       }
       
-      // Calculate delay for next attempt
-      const delay = calculateDelay(attempt, { initialDelay, maxDelay, backoffFactor, jitter });
+      // Calculate delay for next attempt (the server's hint wins)
+      const delay = retryAfterMs ?? calculateDelay(attempt, { initialDelay, maxDelay, backoffFactor, jitter });
       
       // Call onRetry callback if provided
       if (onRetry) {
@@ -205,7 +427,7 @@ export async function withRetry<T>(
       }
       
       // Wait before retrying
-      await sleep(delay);
+      await sleep(delay, signal);
     }
   }
 
@@ -234,16 +456,21 @@ export function createRetryFetch(options: RetryOptions = {}) {
     input: RequestInfo | URL,
     init?: RequestInit
   ): Promise<Response> {
+    const signal = options.signal ?? init?.signal ?? undefined;
     return withRetry(async () => {
       const response = await fetch(input, init);
       
       // Check if response status indicates a retryable error
       const retryableStatuses = options.retryableStatuses || DEFAULT_RETRY_OPTIONS.retryableStatuses;
       if (retryableStatuses.includes(response.status)) {
-        throw new Error(`HTTP error (${response.status}): ${response.statusText}`);
+        throw new HttpStatusError(
+          `HTTP error (${response.status}): ${response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers)
+        );
       }
       
       return response;
-    }, options);
+    }, { ...options, signal });
   };
 }
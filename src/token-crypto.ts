@@ -0,0 +1,177 @@
+/**
+ * At-rest encryption for stored auth tokens
+ *
+ * Tokens in puter-accounts.json are encrypted with AES-256-GCM. The key is
+ * derived with scrypt (random per-file salt) from either:
+ * - a passphrase, read from the PUTER_AUTH_PASSPHRASE environment variable, or
+ * - a random machine key generated once and kept next to the accounts file (0600)
+ *
+ * The machine key sits in the same directory as the encrypted file, so it
+ * only protects against the accounts file leaking on its own. Anyone who can
+ * copy the config directory can decrypt the tokens; use a passphrase for that.
+ *
+ * @module token-crypto
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/** Environment variable holding the passphrase for unattended use */
+export const PASSPHRASE_ENV_VAR = 'PUTER_AUTH_PASSPHRASE';
+
+/** File name of the generated machine key (stored in the config directory) */
+export const MACHINE_KEY_FILE = 'puter-accounts.key';
+
+/** Prefix marking an encrypted token value */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+/**
+ * Where the encryption key comes from
+ */
+export type TokenKeySource = 'passphrase' | 'machine';
+
+/**
+ * Error thrown when stored tokens can't be decrypted
+ * (wrong/missing passphrase, missing machine key, or corrupted data)
+ */
+export class TokenDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenDecryptionError';
+  }
+}
+
+/**
+ * Get the key source to use for new writes.
+ * A passphrase in the environment takes precedence over the machine key.
+ *
+ * @returns 'passphrase' if PUTER_AUTH_PASSPHRASE is set, otherwise 'machine'
+ */
+export function getKeySource(): TokenKeySource {
+  return process.env[PASSPHRASE_ENV_VAR] ? 'passphrase' : 'machine';
+}
+
+/**
+ * Load the secret for a key source.
+ *
+ * @param source - Passphrase or machine key
+ * @param configDir - Directory containing the machine key file
+ * @param create - Generate the machine key if it doesn't exist yet (writes only)
+ * @returns The secret to derive the encryption key from
+ * @throws TokenDecryptionError if the passphrase or machine key is unavailable
+ */
+export async function getKeySecret(
+  source: TokenKeySource,
+  configDir: string,
+  create = false
+): Promise<string> {
+  if (source === 'passphrase') {
+    const passphrase = process.env[PASSPHRASE_ENV_VAR];
+    if (!passphrase) {
+      throw new TokenDecryptionError(
+        `Stored Puter tokens are passphrase-encrypted. Set ${PASSPHRASE_ENV_VAR} to unlock them.`
+      );
+    }
+    return passphrase;
+  }
+
+  const keyFile = path.join(configDir, MACHINE_KEY_FILE);
+  try {
+    return (await fs.readFile(keyFile, 'utf-8')).trim();
+  } catch {
+    if (!create) {
+      throw new TokenDecryptionError(
+        `Machine key ${keyFile} is missing - stored Puter tokens can't be decrypted. Run: puter-auth login`
+      );
+    }
+  }
+
+  const key = randomBytes(KEY_LENGTH).toString('hex');
+  try {
+    await fs.writeFile(keyFile, key, { encoding: 'utf-8', mode: 0o600, flag: 'wx' });
+  } catch (error) {
+    // Another process created the key first - use theirs
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return (await fs.readFile(keyFile, 'utf-8')).trim();
+    }
+    throw error;
+  }
+  return key;
+}
+
+/**
+ * Generate a random salt for key derivation.
+ *
+ * @returns Base64-encoded salt
+ */
+export function generateSalt(): string {
+  return randomBytes(SALT_LENGTH).toString('base64');
+}
+
+/**
+ * Derive an AES-256 key from a secret and salt using scrypt.
+ * Runs on the libuv thread pool, so it doesn't block the event loop.
+ *
+ * @param secret - Passphrase or machine key
+ * @param salt - Base64-encoded salt
+ * @returns 32-byte key
+ */
+export function deriveTokenKey(secret: string, salt: string): Promise<Buffer> {
+  return scryptAsync(secret, Buffer.from(salt, 'base64'), KEY_LENGTH);
+}
+
+/**
+ * Check if a stored token value is encrypted.
+ */
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a token with AES-256-GCM.
+ *
+ * @param token - Plaintext token
+ * @param key - Key from {@link deriveTokenKey}
+ * @returns `enc:v1:<iv>:<tag>:<ciphertext>` (base64 parts)
+ */
+export function encryptToken(token: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf-8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `${ENCRYPTED_PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/**
+ * Decrypt a token produced by {@link encryptToken}.
+ *
+ * @param value - Encrypted token value
+ * @param key - Key from {@link deriveTokenKey}
+ * @returns Plaintext token
+ * @throws TokenDecryptionError if the key is wrong or the value is corrupted
+ */
+export function decryptToken(value: string, key: Buffer): string {
+  const parts = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  if (!isEncryptedToken(value) || parts.length !== 3) {
+    throw new TokenDecryptionError('Stored Puter token is not in a recognized encrypted format');
+  }
+
+  const [iv, tag, ciphertext] = parts.map(part => Buffer.from(part, 'base64'));
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new TokenDecryptionError(
+      `Unable to decrypt stored Puter tokens - wrong passphrase (${PASSPHRASE_ENV_VAR}) or corrupted accounts file`
+    );
+  }
+}
@@ -17,14 +17,48 @@ export const PuterAccountSchema = z.object({
 export type PuterAccount = z.infer<typeof PuterAccountSchema>;
 
 // Puter Accounts Storage Schema
+// version 1: plaintext tokens, version 2: tokens encrypted at rest (see token-crypto.ts)
 export const PuterAccountsStorageSchema = z.object({
   version: z.number().default(1),
   accounts: z.array(PuterAccountSchema),
   activeIndex: z.number().default(0),
+  encryption: z.object({
+    salt: z.string(),
+    keySource: z.enum(['passphrase', 'machine']),
+  }).optional(),
 });
 
 export type PuterAccountsStorage = z.infer<typeof PuterAccountsStorageSchema>;
 
+// Persisted model/account cooldowns (shared across processes)
+export const PuterCooldownStateSchema = z.object({
+  version: z.number().default(1),
+  models: z.record(z.string(), z.object({
+    expiresAt: z.number(),
+    reason: z.string(),
+    consecutiveFailures: z.number().default(0),
+    openCount: z.number().default(1),
+  })).default({}),
+  accounts: z.record(z.string(), z.object({
+    expiresAt: z.number(),
+    reason: z.string(),
+    consecutiveRateLimits: z.number().default(0),
+  })).default({}),
+  accountStats: z.record(z.string(), z.object({
+    lastUsedAt: z.number().default(0),
+    rateLimitCount: z.number().default(0),
+  })).default({}),
+});
+
+export type PuterCooldownState = z.infer<typeof PuterCooldownStateSchema>;
+
+// Per-model streaming timeout overrides in puter.json
+export const PuterStreamTimeoutsSchema = z.object({
+  first_chunk_ms: z.number().min(0).optional(),
+  chunk_ms: z.number().min(0).optional(),
+  total_ms: z.number().min(0).optional(),
+});
+
 // Puter Configuration Schema
 export const PuterConfigSchema = z.object({
   quiet_mode: z.boolean().default(false),
@@ -39,12 +73,20 @@ export const PuterConfigSchema = z.object({
   // Session Settings
   auto_create_temp_user: z.boolean().default(true),
   
+  // Login Settings (callback server for browser auth)
+  auth_callback_host: z.string().default('localhost'), // Use 0.0.0.0 to accept logins from other machines
+  auth_callback_port: z.number().int().min(0).max(65535).default(19847),
+  
   // Retry Settings
   max_retries: z.number().default(3),
   retry_delay_ms: z.number().default(1000),
   
   // Stream Settings
   stream_buffer_size: z.number().default(1024),
+  stream_first_chunk_timeout_ms: z.number().min(0).default(30000), // 0 disables
+  stream_chunk_timeout_ms: z.number().min(0).default(60000), // 0 disables
+  stream_total_timeout_ms: z.number().min(0).default(0), // 0 = no limit
+  stream_timeouts: z.record(z.string(), PuterStreamTimeoutsSchema).optional(), // Per-model overrides, keys may be globs
   
   // Cache Settings
   cache_ttl_ms: z.number().default(300000), // 5 minutes
@@ -53,11 +95,17 @@ export const PuterConfigSchema = z.object({
   fallback_enabled: z.boolean().default(true),
   fallback_models: z.array(z.string()).optional(), // Uses DEFAULT_FALLBACK_MODELS if not set
   fallback_cooldown_ms: z.number().default(60000), // 1 minute
+  fallback_max_cooldown_ms: z.number().default(900000), // 15 minutes
+  fallback_failure_threshold: z.number().int().min(1).default(1),
+  fallback_chains: z.record(z.string(), z.array(z.string())).optional(), // Per-model chains, keys may be globs
+  model_aliases: z.record(z.string(), z.string()).optional(), // e.g. { "fast": "gemini-2.5-flash" }
   
   // Account Rotation Settings
   account_rotation_enabled: z.boolean().default(true),
-  account_rotation_strategy: z.enum(['round-robin', 'least-recently-used']).default('round-robin'),
+  account_rotation_strategy: z.enum(['round-robin', 'least-recently-used', 'most-remaining-credits']).default('round-robin'),
   account_rotation_cooldown_ms: z.number().default(300000), // 5 minutes
+  account_rotation_credit_threshold: z.number().min(0).max(1).default(0.05), // rotate below 5% of the allowance
+  account_rotation_usage_cache_ms: z.number().default(60000), // 1 minute
 });
 
 export type PuterConfig = z.infer<typeof PuterConfigSchema>;
@@ -75,6 +123,8 @@ export interface PuterContentPart {
   text?: string;
   puter_path?: string;
   image_url?: { url: string };
+  /** Inline file payload (data URL or remote URL), e.g. for PDFs */
+  file?: { filename?: string; file_data: string };
 }
 
 export interface PuterToolCall {
@@ -86,16 +136,56 @@ export interface PuterToolCall {
   };
 }
 
+/**
+ * Streamed tool call. A call can be split across chunks: later fragments
+ * may carry only its index and more arguments.
+ */
+export interface PuterToolCallDelta {
+  index?: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 // Chat Options
 export interface PuterChatOptions {
   model?: string;
   stream?: boolean;
   max_tokens?: number;
   temperature?: number;
+  top_p?: number;
+  stop?: string[];
   tools?: PuterTool[];
+  tool_choice?: PuterToolChoice;
+  response_format?: PuterResponseFormat;
   test_mode?: boolean;
 }
 
+/**
+ * Which tool the model may call ('required' = at least one tool), OpenAI format
+ */
+export type PuterToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+/**
+ * Structured output mode, OpenAI format
+ */
+export interface PuterResponseFormat {
+  type: 'text' | 'json_object' | 'json_schema';
+  json_schema?: {
+    name: string;
+    description?: string;
+    schema?: Record<string, unknown>;
+    strict?: boolean;
+  };
+}
+
 export interface PuterTool {
   type: 'function';
   function: {
@@ -121,11 +211,27 @@ export interface PuterChatResponse {
   };
 }
 
+// Token usage reported in a stream (names differ from non-streaming responses)
+export interface PuterStreamUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt?: number;
+  completion?: number;
+}
+
 // Chat Stream Chunk
 export interface PuterChatStreamChunk {
+  /** Chunk kind from the drivers API ('text', 'reasoning', 'tool_use', ...) */
+  type?: string;
   text?: string;
   reasoning?: string;
-  tool_calls?: PuterToolCall[];
+  tool_calls?: PuterToolCallDelta[];
+  /** tool_use chunks: call ID, function name and (already parsed) arguments */
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown> | string;
+  usage?: PuterStreamUsage;
   finish_reason?: string;
   done?: boolean;
 }
@@ -149,6 +255,18 @@ export interface PuterAuthResult {
   error?: string;
 }
 
+// Login Options
+export interface PuterLoginOptions {
+  /** Don't try to open a browser; print the login URL instead (SSH/containers) */
+  headless?: boolean;
+  /** Headless only: address the callback server binds to (default: config.auth_callback_host or localhost) */
+  host?: string;
+  /** Port the callback server listens on (default: config.auth_callback_port or 19847) */
+  port?: number;
+  /** Stops the callback server, e.g. when the token was pasted instead */
+  signal?: AbortSignal;
+}
+
 // Available Claude Models
 export const PUTER_CLAUDE_MODELS = [
   'claude-opus-4-5',
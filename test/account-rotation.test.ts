@@ -14,8 +14,9 @@ import {
   type IAuthManager,
   type AccountRotationOptions,
 } from '../src/account-rotation.js';
-import type { PuterAccount } from '../src/types.js';
+import type { PuterAccount, PuterMonthlyUsage } from '../src/types.js';
 import { nullLogger } from '../src/logger.js';
+import { HttpStatusError } from '../src/retry.js';
 
 /**
  * Create a mock auth manager for testing
@@ -357,6 +358,92 @@ describe('AccountRotationManager', () => {
     });
   });
 
+  describe('most-remaining-credits strategy', () => {
+    const ALLOWANCE = 50_000_000;
+    let remaining: Record<string, number>;
+    let usageFetcher: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      remaining = { user1: ALLOWANCE, user2: ALLOWANCE / 2, user3: ALLOWANCE / 4 };
+      usageFetcher = vi.fn(async (account: PuterAccount): Promise<PuterMonthlyUsage> => ({
+        allowanceInfo: { monthUsageAllowance: ALLOWANCE, remaining: remaining[account.username] },
+      }));
+      manager = new AccountRotationManager(mockAuthManager, {
+        strategy: 'most-remaining-credits',
+        cooldownMs: 1000,
+        creditThreshold: 0.1,
+        usageFetcher,
+      }, nullLogger);
+    });
+
+    it('should keep the current account while it is above the threshold', async () => {
+      const result = await manager.getNextAvailableAccount();
+
+      expect(result.account.username).toBe('user1');
+      expect(result.wasRotated).toBe(false);
+    });
+
+    it('should rotate to the account with the most credits before the current one runs out', async () => {
+      remaining.user1 = ALLOWANCE * 0.05;
+
+      const result = await manager.rotateIfLowOnCredits();
+
+      expect(result?.wasRotated).toBe(true);
+      expect(result?.account.username).toBe('user2');
+      expect(mockAuthManager.switchAccount).toHaveBeenCalledWith(1);
+    });
+
+    it('should cache usage for the configured TTL', async () => {
+      await manager.getNextAvailableAccount();
+      await manager.getNextAvailableAccount();
+
+      expect(usageFetcher).toHaveBeenCalledTimes(3);
+
+      manager.configure({ usageCacheTtlMs: 0 });
+      await manager.getNextAvailableAccount();
+
+      expect(usageFetcher).toHaveBeenCalledTimes(6);
+    });
+
+    it('should skip exhausted accounts until the monthly reset', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-03-15T12:00:00Z'));
+      try {
+        remaining.user1 = 0;
+
+        const result = await manager.getNextAvailableAccount();
+
+        expect(result.account.username).toBe('user2');
+        const status = manager.getAccountStatuses().find(s => s.username === 'user1')!;
+        expect(status.isOnCooldown).toBe(true);
+        expect(status.cooldownReason).toBe('Monthly credits exhausted');
+        expect(Date.now() + status.cooldownRemainingMs).toBe(Date.UTC(2026, 3, 1));
+
+        vi.setSystemTime(new Date('2026-04-01T00:00:00Z'));
+        expect(manager.isAccountOnCooldown('user1')).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should ignore usage fetch failures', async () => {
+      usageFetcher.mockRejectedValue(new Error('Failed to get monthly usage (500)'));
+
+      const result = await manager.getNextAvailableAccount();
+
+      expect(result.account.username).toBe('user1');
+      expect(manager.isLowOnCredits('user1')).toBe(false);
+    });
+
+    it('should do nothing for other strategies', async () => {
+      manager.configure({ strategy: 'round-robin' });
+      remaining.user1 = 0;
+
+      expect(await manager.rotateIfLowOnCredits()).toBeNull();
+      expect(usageFetcher).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleRateLimitError', () => {
     it('should add current account to cooldown and return next available', async () => {
       const error = new Error('Rate limit exceeded');
@@ -368,6 +455,14 @@ describe('AccountRotationManager', () => {
       expect(manager.isAccountOnCooldown('user1')).toBe(true);
     });
 
+    it('should use the server retry hint as the cooldown', async () => {
+      await manager.handleRateLimitError(new HttpStatusError('Puter API error (429): slow down', 429, 5000));
+
+      const remaining = manager.getCooldownRemaining('user1');
+      expect(remaining).toBeGreaterThan(4000);
+      expect(remaining).toBeLessThanOrEqual(5000);
+    });
+
     it('should return null when all accounts on cooldown', async () => {
       manager.addToCooldown('user2', 'Rate limited');
       manager.addToCooldown('user3', 'Rate limited');
@@ -457,6 +552,12 @@ describe('AccountRotationManager', () => {
       
       expect(manager.getConfig().strategy).toBe('least-recently-used');
     });
+
+    it('should update credit settings', () => {
+      manager.configure({ creditThreshold: 0.2, usageCacheTtlMs: 1000 });
+      
+      expect(manager.getConfig()).toMatchObject({ creditThreshold: 0.2, usageCacheTtlMs: 1000 });
+    });
   });
 
   describe('resetStats', () => {
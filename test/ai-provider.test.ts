@@ -3,9 +3,17 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createPuter, puter } from '../src/ai-provider/index.js';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { createPuter, puter, PuterApiError, PuterRateLimitError } from '../src/ai-provider/index.js';
 import puterDefault from '../src/ai-provider/index.js';
-import type { PuterChatLanguageModel } from '../src/ai-provider/index.js';
+import type { PuterChatLanguageModel, PuterChatSettings, PuterProviderConfig } from '../src/ai-provider/index.js';
+import { resetGlobalFallbackManager } from '../src/fallback.js';
+import { getCooldownStateStore } from '../src/cooldown-state.js';
+import { getGlobalAccountRotationManager, resetGlobalAccountRotationManager } from '../src/account-rotation.js';
+import { createPuterAuthManager } from '../src/auth.js';
+import * as errors from '../src/errors.js';
 import type { LanguageModelV3CallOptions, LanguageModelV3Message } from '@ai-sdk/provider';
 
 /**
@@ -63,6 +71,11 @@ describe('Puter AI SDK Provider', () => {
     it('should be the same as the named puter export', () => {
       expect(puterDefault).toBe(puter);
     });
+
+    it('should export the error classes for instanceof checks', () => {
+      expect(PuterApiError).toBe(errors.PuterApiError);
+      expect(errors.createPuterApiError('Slow down', { status: 429 })).toBeInstanceOf(PuterRateLimitError);
+    });
   });
 
   describe('createPuter', () => {
@@ -149,6 +162,95 @@ describe('Puter AI SDK Provider', () => {
   });
 
   describe('PuterChatLanguageModel', () => {
+    type CallOptions = Parameters<PuterChatLanguageModel['doGenerate']>[0];
+    type ChatReply = (messages: any[], options: Record<string, any>) => unknown;
+
+    let configDir: string;
+    let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }];
+    const textReply = { message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' };
+
+    /**
+     * Create a model with a mocked Puter SDK. `reply` answers every chat call;
+     * the messages and SDK options each attempt sent are in `chat.mock.calls`.
+     */
+    const createMockedModel = (
+      modelId: string,
+      { reply = async () => textReply, settings, ...config }: PuterProviderConfig & { reply?: ChatReply; settings?: PuterChatSettings } = {}
+    ) => {
+      const model = createPuter({ authToken: 'test-token', configDir, ...config })(modelId, settings);
+      const chat = vi.fn<ChatReply>(reply);
+      const sdk = { ai: { chat }, setAuthToken: () => {}, print: () => {} };
+      // Account rotation resets the SDK instance; keep serving the mock
+      Object.defineProperty(model, 'puterInstance', { get: () => sdk, set: () => {} });
+      return { model, chat };
+    };
+
+    /**
+     * Run doGenerate on one model (no fallback) and return what it sent to Puter.
+     */
+    const generate = async (modelId: string, options: Record<string, unknown> = {}, reply?: ChatReply) => {
+      const { model, chat } = createMockedModel(modelId, { reply, settings: { disableFallback: true } });
+      const result = await model.doGenerate({ prompt, ...options } as CallOptions);
+      const [messages, sdkOptions] = chat.mock.calls[0];
+      return { result, messages, sdkOptions, warnings: result.warnings };
+    };
+
+    const addAccounts = async (...usernames: string[]) => {
+      const authManager = createPuterAuthManager(configDir);
+      await authManager.init();
+      for (const [index, username] of usernames.entries()) {
+        await authManager.addAccount({ username, authToken: `token-${username}`, addedAt: index, isTemporary: false });
+      }
+      await authManager.switchAccount(0);
+    };
+
+    const readParts = async (stream: ReadableStream<any>) => {
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return parts;
+        parts.push(value);
+      }
+    };
+
+    // Stream that sends `chunks`, then never sends another
+    const stallingStream = (chunks: unknown[] = []) => ({
+      [Symbol.asyncIterator]: () => {
+        let index = 0;
+        return {
+          next: () => index < chunks.length
+            ? Promise.resolve({ done: false as const, value: chunks[index++] })
+            : new Promise<IteratorResult<unknown>>(() => {}),
+          return: async () => ({ done: true as const, value: undefined }),
+        };
+      },
+    });
+    const failingStream = async function* () {
+      throw new Error('Puter API error (503): overloaded');
+    };
+    const textStream = async function* () {
+      yield { type: 'text', text: 'Hello' };
+    };
+
+    beforeEach(async () => {
+      resetGlobalFallbackManager();
+      configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'puter-model-test-'));
+      // The model catalog is refreshed in the background; keep it offline
+      fetchSpy = vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('offline'));
+    });
+
+    afterEach(async () => {
+      vi.useRealTimers();
+      fetchSpy.mockRestore();
+      resetGlobalFallbackManager();
+      resetGlobalAccountRotationManager();
+      await getCooldownStateStore(configDir).flush();
+      await fs.rm(configDir, { recursive: true, force: true });
+    });
+
     it('should have correct specification version', () => {
       const provider = createPuter({
         authToken: 'test-token',
@@ -159,14 +261,583 @@ describe('Puter AI SDK Provider', () => {
       expect(model.specificationVersion).toBe('v2');
     });
 
-    it('should return empty supportedUrls', () => {
+    it('should advertise http(s) URLs for images and PDFs', () => {
       const provider = createPuter({
         authToken: 'test-token',
       });
 
       const model = provider('claude-opus-4-5');
+      const urls = model.supportedUrls as Record<string, RegExp[]>;
+
+      expect(Object.keys(urls)).toEqual(['image/*', 'application/pdf']);
+      expect(urls['image/*'][0].test('https://example.com/cat.png')).toBe(true);
+      expect(urls['application/pdf'][0].test('file:///tmp/doc.pdf')).toBe(false);
+    });
+
+    describe('file parts', () => {
+      it('should keep text-only user messages as plain strings', async () => {
+        const { messages, warnings } = await generate('claude-sonnet-4-5', {
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+        });
+
+        expect(messages).toEqual([{ role: 'user', content: 'Hello' }]);
+        expect(warnings).toEqual([]);
+      });
+
+      it('should map images to image_url parts', async () => {
+        const { messages, warnings } = await generate('claude-sonnet-4-5', {
+          prompt: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'What is this?' },
+                { type: 'file', mediaType: 'image/png', data: new Uint8Array([1, 2, 3]) },
+                { type: 'file', mediaType: 'image/*', data: new URL('https://example.com/cat.jpg') },
+              ],
+            },
+          ],
+        });
+
+        expect(messages[0].content).toEqual([
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AQID' } },
+          { type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } },
+        ]);
+        expect(warnings).toEqual([]);
+      });
+
+      it('should map PDFs to file parts', async () => {
+        const { messages } = await generate('gemini-2.5-pro', {
+          prompt: [
+            {
+              role: 'user',
+              content: [
+                { type: 'file', mediaType: 'application/pdf', filename: 'spec.pdf', data: 'JVBERi0=' },
+              ],
+            },
+          ],
+        });
+
+        expect(messages[0].content).toEqual([
+          { type: 'file', file: { filename: 'spec.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' } },
+        ]);
+      });
+
+      it('should drop unsupported media types with a warning', async () => {
+        const { messages, warnings } = await generate('gpt-4o', {
+          prompt: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'Transcribe' },
+                { type: 'file', mediaType: 'audio/wav', data: 'AAAA' },
+              ],
+            },
+          ],
+        });
+
+        expect(messages[0].content).toEqual([{ type: 'text', text: 'Transcribe' }]);
+        expect(warnings).toEqual([expect.objectContaining({ message: expect.stringContaining('audio/wav') })]);
+      });
+
+      it('should warn when the model lacks vision support', async () => {
+        const { warnings } = await generate('o3-mini', {
+          prompt: [
+            {
+              role: 'user',
+              content: [{ type: 'file', mediaType: 'image/png', data: 'AAAA' }],
+            },
+          ],
+        });
+
+        expect(warnings).toEqual([expect.objectContaining({ message: expect.stringContaining('o3-mini') })]);
+      });
+    });
+
+    describe('account rotation options', () => {
+      const exhausted: ChatReply = async () => {
+        throw { error: { code: 'insufficient_funds', message: 'Credits exhausted' } };
+      };
+
+      beforeEach(async () => {
+        await fs.writeFile(path.join(configDir, 'puter.json'), JSON.stringify({
+          account_rotation_enabled: true,
+          account_rotation_strategy: 'least-recently-used',
+          account_rotation_cooldown_ms: 1000,
+          account_rotation_credit_threshold: 0.1,
+        }), 'utf-8');
+        await addAccounts('first', 'second');
+      });
+
+      it('should load rotation settings from puter.json', async () => {
+        const { model } = createMockedModel('claude-opus-4-5', { settings: { disableFallback: true } });
+
+        await model.doGenerate({ prompt } as CallOptions);
+
+        expect(getGlobalAccountRotationManager().getConfig()).toEqual({
+          enabled: true,
+          strategy: 'least-recently-used',
+          cooldownMs: 1000,
+          creditThreshold: 0.1,
+          usageCacheTtlMs: 60000,
+        });
+      });
+
+      it('should let the accountRotation option override puter.json', async () => {
+        let calls = 0;
+        const { model } = createMockedModel('claude-opus-4-5', {
+          accountRotation: { strategy: 'round-robin', cooldownMs: 5000 },
+          settings: { disableFallback: true },
+          reply: async (...args) => (calls++ === 0 ? exhausted(...args) : textReply),
+        });
+
+        const result = await model.doGenerate({ prompt } as CallOptions);
+        const rotation = getGlobalAccountRotationManager();
+
+        expect(result.providerMetadata?.puter).toMatchObject({ accountUsed: 'second', wasRotated: true });
+        expect(rotation.getConfig()).toMatchObject({ enabled: true, strategy: 'round-robin', cooldownMs: 5000 });
+        expect(rotation.getCooldownRemaining('first')).toBeGreaterThan(1000);
+      });
+
+      it('should skip rotation entirely when disabled', async () => {
+        const { model, chat } = createMockedModel('claude-opus-4-5', {
+          accountRotation: { enabled: false },
+          settings: { disableFallback: true },
+          reply: exhausted,
+        });
+
+        await expect(model.doGenerate({ prompt } as CallOptions)).rejects.toBeInstanceOf(PuterApiError);
+        expect(chat).toHaveBeenCalledTimes(1);
+        expect(() => getGlobalAccountRotationManager()).toThrow();
+      });
+    });
+
+    describe('fallback chains and aliases', () => {
+      // Fails every model except `answering`
+      const onlyAnswers = (answering: string): ChatReply => async (_messages, options) => {
+        if (options.model !== answering) throw { error: { code: 'too_many_requests', message: 'Slow down' } };
+        return textReply;
+      };
+      const calledModels = (chat: ReturnType<typeof createMockedModel>['chat']) =>
+        chat.mock.calls.map(([, options]) => options.model);
+
+      beforeEach(async () => {
+        await fs.writeFile(path.join(configDir, 'puter.json'), JSON.stringify({
+          model_aliases: { fast: 'gemini-2.5-flash' },
+          fallback_chains: { 'gemini-*': ['gpt-5-nano'] },
+        }), 'utf-8');
+      });
+
+      it('should apply chains and aliases from puter.json', async () => {
+        const { model, chat } = createMockedModel('fast', { reply: onlyAnswers('gpt-5-nano') });
+
+        await model.doGenerate({ prompt } as CallOptions);
+
+        expect(calledModels(chat)).toEqual(['gemini-2.5-flash', 'gpt-5-nano']);
+      });
+
+      it('should let the fallback option override puter.json', async () => {
+        const { model, chat } = createMockedModel('fast', {
+          fallback: { modelAliases: { fast: 'gemini-2.0-flash' } },
+          reply: onlyAnswers('gpt-5-nano'),
+        });
+
+        await model.doGenerate({ prompt } as CallOptions);
+
+        expect(calledModels(chat)).toEqual(['gemini-2.0-flash', 'gpt-5-nano']);
+      });
+
+      it('should keep the fallback option of each createPuter instance', async () => {
+        const first = createMockedModel('model-a', {
+          fallback: { fallbackModels: ['model-b'] },
+          reply: onlyAnswers('model-b'),
+        });
+        const second = createMockedModel('model-c', {
+          fallback: { fallbackModels: ['model-d'] },
+          reply: onlyAnswers('model-d'),
+        });
+
+        await first.model.doGenerate({ prompt } as CallOptions);
+        await second.model.doGenerate({ prompt } as CallOptions);
+
+        expect(calledModels(first.chat)).toEqual(['model-a', 'model-b']);
+        expect(calledModels(second.chat)).toEqual(['model-c', 'model-d']);
+      });
+    });
+
+    describe('tool choice and response format', () => {
+      const tool = { type: 'function', name: 'get_weather', description: 'Weather', inputSchema: { type: 'object' } };
+      const schema = { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] };
+
+      it('should map tool choices', async () => {
+        const toolChoice = async (type: string, toolName?: string) =>
+          (await generate('claude-sonnet-4-5', { tools: [tool], toolChoice: { type, toolName } })).sdkOptions.tool_choice;
+
+        expect(await toolChoice('auto')).toBe('auto');
+        expect(await toolChoice('none')).toBe('none');
+        expect(await toolChoice('required')).toBe('required');
+        expect(await toolChoice('tool', 'get_weather')).toEqual({ type: 'function', function: { name: 'get_weather' } });
+      });
+
+      it('should drop a required tool choice without tools', async () => {
+        const { sdkOptions, warnings } = await generate('claude-sonnet-4-5', { toolChoice: { type: 'required' } });
+
+        expect(sdkOptions.tool_choice).toBeUndefined();
+        expect(warnings).toEqual([expect.objectContaining({ type: 'unsupported-setting', setting: 'toolChoice' })]);
+      });
+
+      it('should use native JSON schema output for OpenAI models', async () => {
+        const { messages, sdkOptions, warnings } = await generate('gpt-4o', {
+          responseFormat: { type: 'json', schema, name: 'weather' },
+        });
+
+        expect(sdkOptions.response_format).toEqual({
+          type: 'json_schema',
+          json_schema: { name: 'weather', description: undefined, schema },
+        });
+        expect(messages).toEqual([{ role: 'user', content: 'Hi' }]);
+        expect(warnings).toEqual([]);
+        expect((await generate('gpt-4o', { responseFormat: { type: 'json' } })).sdkOptions.response_format)
+          .toEqual({ type: 'json_object' });
+      });
 
-      expect(model.supportedUrls).toEqual({});
+      it('should put the schema in the system prompt for other models', async () => {
+        const { messages, sdkOptions, warnings } = await generate('claude-sonnet-4-5', {
+          prompt: [
+            { role: 'system', content: 'You are helpful.' },
+            { role: 'user', content: [{ type: 'text', text: 'Weather?' }] },
+          ],
+          responseFormat: { type: 'json', schema },
+        });
+
+        expect(sdkOptions.response_format).toBeUndefined();
+        expect(messages[0].content).toContain('You are helpful.');
+        expect(messages[0].content).toContain(JSON.stringify(schema));
+        expect(messages).toHaveLength(2);
+        expect(warnings).toEqual([expect.objectContaining({ type: 'unsupported-setting', setting: 'responseFormat' })]);
+      });
+
+      it('should only report warnings for the model that answered', async () => {
+        const { model } = createMockedModel('claude-sonnet-4-5', {
+          fallback: { fallbackModels: ['gpt-4o'] },
+          reply: async (_messages, options) => {
+            if (options.model !== 'gpt-4o') throw { error: { code: 'too_many_requests', message: 'Slow down' } };
+            return textReply;
+          },
+        });
+
+        const result = await model.doGenerate({ prompt, responseFormat: { type: 'json', schema } } as CallOptions);
+
+        expect(result.warnings).toEqual([expect.objectContaining({ type: 'other', message: expect.stringContaining('used fallback: gpt-4o') })]);
+      });
+    });
+
+    describe('unsupported settings', () => {
+      const settings = { topK: 40, presencePenalty: 0.5, frequencyPenalty: 0.2, seed: 7 };
+
+      it('should forward the settings each model family supports', async () => {
+        const openai = await generate('gpt-4o', settings);
+        expect(openai.sdkOptions).toMatchObject({ presence_penalty: 0.5, frequency_penalty: 0.2, seed: 7 });
+        expect(openai.sdkOptions.top_k).toBeUndefined();
+        expect(openai.warnings).toEqual([expect.objectContaining({ type: 'unsupported-setting', setting: 'topK' })]);
+
+        const anthropic = await generate('claude-sonnet-4-5', settings);
+        expect(anthropic.sdkOptions.top_k).toBe(40);
+        expect(anthropic.warnings.map(w => w.type === 'unsupported-setting' && w.setting))
+          .toEqual(['presencePenalty', 'frequencyPenalty', 'seed']);
+
+        const openrouter = await generate('openrouter:meta-llama/llama-3.3-70b-instruct', settings);
+        expect(openrouter.sdkOptions).toMatchObject({ top_k: 40, presence_penalty: 0.5, frequency_penalty: 0.2, seed: 7 });
+        expect(openrouter.warnings).toEqual([]);
+      });
+
+      it('should warn about headers and provider-defined tools', async () => {
+        const providerTool = { type: 'provider-defined', id: 'openai.web_search', name: 'web_search', args: {} };
+        const { sdkOptions, warnings } = await generate('gpt-4o', {
+          headers: { 'x-custom': 'value' },
+          tools: [providerTool],
+        });
+
+        expect(sdkOptions.tools).toBeUndefined();
+        expect(warnings).toEqual([
+          expect.objectContaining({ type: 'unsupported-setting', setting: 'headers' }),
+          expect.objectContaining({ type: 'unsupported-tool', tool: providerTool }),
+        ]);
+        expect((await generate('gpt-4o', { headers: { 'x-custom': undefined } })).warnings).toEqual([]);
+      });
+
+      it('should not warn about the AI SDK user-agent header', async () => {
+        expect((await generate('gpt-4o', { headers: { 'user-agent': 'ai/6.x' } })).warnings).toEqual([]);
+      });
+    });
+
+    describe('reasoning', () => {
+      const reasoning = (value: unknown) => ({ providerOptions: { puter: { reasoning: value } } });
+      const sent = async (modelId: string, options: Record<string, unknown>) => (await generate(modelId, options)).sdkOptions;
+
+      it('should map reasoning options per model family', async () => {
+        expect((await sent('gpt-5', reasoning({ effort: 'high' }))).reasoning_effort).toBe('high');
+        expect((await sent('o3-mini', reasoning({ budgetTokens: 1000 }))).reasoning_effort).toBe('low');
+        expect((await sent('gemini-2.5-pro', reasoning({ effort: 'low' }))).thinking_config)
+          .toEqual({ thinking_budget: 2048, include_thoughts: true });
+        expect((await sent('openrouter:deepseek/deepseek-r1', reasoning({ budgetTokens: 4000 }))).reasoning)
+          .toEqual({ max_tokens: 4000 });
+        expect((await sent('openrouter:deepseek/deepseek-r1', reasoning({ effort: 'medium' }))).reasoning)
+          .toEqual({ effort: 'medium' });
+      });
+
+      it('should enable extended thinking for Claude', async () => {
+        const { sdkOptions, warnings } = await generate('claude-sonnet-4-5', {
+          ...reasoning({ budgetTokens: 8000 }),
+          maxOutputTokens: 2000,
+          temperature: 0.5,
+        });
+
+        expect(sdkOptions.thinking).toEqual({ type: 'enabled', budget_tokens: 8000 });
+        expect(sdkOptions.max_tokens).toBe(10000);
+        expect(sdkOptions.temperature).toBeUndefined();
+        expect(warnings).toEqual([expect.objectContaining({ type: 'unsupported-setting', setting: 'temperature' })]);
+        expect((await sent('claude-sonnet-4-5', reasoning({ budgetTokens: 8000 }))).max_tokens).toBe(12096);
+      });
+
+      it('should warn about unsupported models and invalid options', async () => {
+        const gpt4o = await generate('gpt-4o', reasoning({ effort: 'high' }));
+        expect(gpt4o.sdkOptions.reasoning_effort).toBeUndefined();
+        expect(gpt4o.warnings).toEqual([expect.objectContaining({ type: 'unsupported-setting', setting: 'providerOptions' })]);
+
+        const invalid = await generate('gpt-5', reasoning({ effort: 'maximum', budgetTokens: -1 }));
+        expect(invalid.sdkOptions.reasoning_effort).toBeUndefined();
+        expect(invalid.warnings).toHaveLength(2);
+      });
+
+      it('should return reasoning content from doGenerate', async () => {
+        const { result } = await generate('claude-sonnet-4-5', {}, async () => ({
+          message: {
+            role: 'assistant',
+            content: [
+              { type: 'thinking', thinking: 'Euclid: multiply all primes and add one.', signature: 'sig-1' },
+              { type: 'text', text: 'There are infinitely many primes.' },
+            ],
+          },
+          finish_reason: 'stop',
+        }));
+
+        expect(result.content).toEqual([
+          {
+            type: 'reasoning',
+            text: 'Euclid: multiply all primes and add one.',
+            providerMetadata: { puter: { signature: 'sig-1' } },
+          },
+          { type: 'text', text: 'There are infinitely many primes.' },
+        ]);
+
+        const plain = await generate('claude-sonnet-4-5', {}, async () => ({
+          message: { role: 'assistant', content: 'Yes.', reasoning_content: 'Thinking it over.' },
+        }));
+        expect(plain.result.content[0]).toEqual({ type: 'reasoning', text: 'Thinking it over.' });
+      });
+
+      it('should send signed thinking back and warn about unsigned reasoning', async () => {
+        const { messages, warnings } = await generate('claude-sonnet-4-5', {
+          prompt: [
+            {
+              role: 'assistant',
+              content: [
+                { type: 'reasoning', text: 'Signed thought', providerOptions: { puter: { signature: 'sig-1' } } },
+                { type: 'reasoning', text: 'Streamed thought' },
+                { type: 'text', text: 'Answer' },
+              ],
+            },
+          ],
+        });
+
+        expect(messages[0].content).toEqual([
+          { type: 'thinking', thinking: 'Signed thought', signature: 'sig-1' },
+          { type: 'text', text: 'Answer' },
+        ]);
+        expect(warnings).toEqual([expect.objectContaining({ type: 'other' })]);
+      });
+    });
+
+    describe('stream timeouts', () => {
+      /**
+       * Stream from a model that sends `chunks` and then stalls, and return the
+       * message of the error part it ends with once `waitMs` have passed.
+       */
+      const stallError = async (
+        modelId: string,
+        chunks: unknown[],
+        waitMs: number,
+        config: Parameters<typeof createMockedModel>[1] = {}
+      ) => {
+        const { model, chat } = createMockedModel(modelId, {
+          ...config,
+          settings: { disableFallback: true, ...config.settings },
+          reply: async () => stallingStream(chunks),
+        });
+        const parts = model.doStream({ prompt } as CallOptions).then(({ stream }) => readParts(stream));
+
+        await vi.waitFor(() => expect(chat).toHaveBeenCalled());
+        await vi.advanceTimersByTimeAsync(waitMs);
+        return (await parts).find(part => part.type === 'error')?.error.message;
+      };
+
+      beforeEach(async () => {
+        await fs.writeFile(path.join(configDir, 'puter.json'), JSON.stringify({
+          stream_chunk_timeout_ms: 90000,
+          stream_timeouts: { 'deepseek-r1*': { first_chunk_ms: 300000 } },
+        }), 'utf-8');
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      });
+
+      it('should use defaults and puter.json, with per-model overrides', async () => {
+        expect(await stallError('gpt-4o', [], 30000)).toContain('No initial response received within 30s');
+        expect(await stallError('gpt-4o', [{ type: 'text', text: 'Hel' }], 90000)).toContain('No chunk received within 90s');
+        expect(await stallError('deepseek-r1-0528', [], 300000)).toContain('No initial response received within 300s');
+      });
+
+      it('should let provider options and model settings override puter.json', async () => {
+        const config = {
+          streamTimeouts: { chunkMs: 45000, totalMs: 600000 },
+          modelStreamTimeouts: { 'deepseek-*': { firstChunkMs: 120000 } },
+        };
+
+        expect(await stallError('deepseek-r1', [], 120000, config)).toContain('within 120s');
+        expect(await stallError('deepseek-r1', [{ type: 'text', text: 'Hel' }], 45000, config)).toContain('within 45s');
+        // No first-chunk limit left, so only the total duration applies
+        expect(await stallError('deepseek-r1', [], 600000, { ...config, settings: { streamTimeouts: { firstChunkMs: 0 } } }))
+          .toContain('total duration limit');
+      });
+    });
+
+    describe('stream start fallback', () => {
+      const createModel = (streams: Record<string, () => AsyncIterable<unknown>>) => createMockedModel('model-a', {
+        fallback: { fallbackModels: ['model-b'] },
+        reply: async (_messages, options) => streams[options.model](),
+      });
+
+      it('should fall back when the stream fails before the first chunk', async () => {
+        const { model } = createModel({ 'model-a': failingStream, 'model-b': textStream });
+
+        const { stream, request } = await model.doStream({ prompt } as CallOptions);
+        const parts = await readParts(stream);
+
+        expect(request?.body).toMatchObject({ model: 'model-b' });
+        expect(parts.find(p => p.type === 'text-delta')?.delta).toBe('Hello');
+        expect(parts.at(-1)).toMatchObject({ type: 'finish', finishReason: 'stop' });
+      });
+
+      it('should report fallback details as providerMetadata on the finish part', async () => {
+        const { model } = createModel({ 'model-a': failingStream, 'model-b': textStream });
+
+        const parts = await readParts((await model.doStream({ prompt } as CallOptions)).stream);
+        const metadata = parts.at(-1).providerMetadata.puter;
+
+        expect(metadata).toMatchObject({
+          requestedModel: 'model-a',
+          usedModel: 'model-b',
+          wasFallback: true,
+          accountUsed: null,
+          wasRotated: false,
+        });
+        expect(metadata.attempts.map((a: any) => [a.model, a.success, a.httpStatus])).toEqual([
+          ['model-a', false, 503],
+          ['model-b', true, null],
+        ]);
+        expect(metadata.latencyMs).toBeGreaterThanOrEqual(0);
+        expect(metadata.durationMs).toBeGreaterThanOrEqual(metadata.latencyMs);
+      });
+
+      it('should not wait for the model catalog', async () => {
+        fetchSpy.mockImplementation(() => new Promise<Response>(() => {}));
+        const { model } = createModel({ 'model-a': textStream });
+
+        const parts = await readParts((await model.doStream({ prompt } as CallOptions)).stream);
+
+        expect(parts.find(p => p.type === 'text-delta')?.delta).toBe('Hello');
+        expect(fetchSpy).toHaveBeenCalled();
+      });
+
+      it('should report providerMetadata from doGenerate', async () => {
+        const { model } = createMockedModel('model-a', {
+          fallback: { fallbackModels: ['model-b'] },
+          reply: async (_messages, options) => {
+            if (options.model === 'model-a') throw { error: { code: 'too_many_requests', message: 'Slow down' } };
+            return { message: { role: 'assistant', content: 'Hi there' }, finish_reason: 'stop' };
+          },
+        });
+
+        const result = await model.doGenerate({ prompt } as CallOptions);
+
+        expect(result.content).toEqual([{ type: 'text', text: 'Hi there' }]);
+        expect(result.providerMetadata?.puter).toMatchObject({
+          requestedModel: 'model-a',
+          usedModel: 'model-b',
+          wasFallback: true,
+          attempts: [
+            { model: 'model-a', success: false, errorType: 'rate_limit', httpStatus: 429 },
+            { model: 'model-b', success: true },
+          ],
+        });
+      });
+
+      it('should fall back when the first chunk times out', async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const { model, chat } = createModel({ 'model-a': stallingStream, 'model-b': textStream });
+
+        const result = model.doStream({ prompt } as CallOptions);
+        await vi.waitFor(() => expect(chat).toHaveBeenCalledTimes(1));
+        await vi.advanceTimersByTimeAsync(30000);
+        await vi.waitFor(() => expect(chat).toHaveBeenCalledTimes(2));
+
+        const parts = await readParts((await result).stream);
+        expect(parts.find(p => p.type === 'text-delta')?.delta).toBe('Hello');
+      });
+
+      it('should rotate accounts when the first chunk times out', async () => {
+        await addAccounts('first', 'second');
+        let calls = 0;
+        const { model } = createModel({ 'model-a': () => (calls++ === 0 ? stallingStream() : textStream()) });
+
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const result = model.doStream({ prompt } as CallOptions);
+        await vi.waitFor(() => expect(calls).toBe(1));
+        await vi.advanceTimersByTimeAsync(30000);
+        await vi.waitFor(() => expect(calls).toBe(2));
+
+        const { stream, request } = await result;
+        const parts = await readParts(stream);
+        expect(request?.body).toMatchObject({ model: 'model-a' });
+        expect(parts.find(p => p.type === 'text-delta')?.delta).toBe('Hello');
+        expect(parts.at(-1).providerMetadata.puter).toMatchObject({ accountUsed: 'second', wasRotated: true });
+      });
+
+      it('should end with an error part when the stream stalls mid-response', async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const { model } = createModel({ 'model-a': () => stallingStream([{ type: 'text', text: 'Hel' }]) });
+
+        const { stream } = await model.doStream({ prompt } as CallOptions);
+        const pending = readParts(stream);
+        await vi.advanceTimersByTimeAsync(90000);
+        const parts = await pending;
+
+        expect(parts.map(p => p.type)).toEqual(['stream-start', 'text-start', 'text-delta', 'text-end', 'error', 'finish']);
+        expect(parts[2].delta).toBe('Hel');
+        expect(parts[4].error.message).toContain('Streaming timeout');
+        expect(parts[5].finishReason).toBe('error');
+      });
+
+      it('should emit an error part once every model failed', async () => {
+        const { model } = createModel({ 'model-a': failingStream, 'model-b': failingStream });
+
+        const parts = await readParts((await model.doStream({ prompt } as CallOptions)).stream);
+
+        expect(parts.map(p => p.type)).toEqual(['stream-start', 'error', 'finish']);
+        expect(parts[1].error.name).toBe('FallbackExhaustedError');
+        expect(parts[2].finishReason).toBe('error');
+        expect(parts[2].providerMetadata.puter).toMatchObject({ usedModel: null, wasFallback: false });
+        expect(parts[2].providerMetadata.puter.attempts).toHaveLength(2);
+      });
     });
 
     // NOTE: The following tests are skipped because PuterChatLanguageModel uses the
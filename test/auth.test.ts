@@ -2,7 +2,9 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import { createPuterAuthManager, type PuterAuthManager } from '../src/auth.js';
+import { createPuterAuthManager, getSharedAuthManager, type PuterAuthManager } from '../src/auth.js';
+import { PuterClient } from '../src/client.js';
+import { PASSPHRASE_ENV_VAR, TokenDecryptionError } from '../src/token-crypto.js';
 
 describe('PuterAuthManager', () => {
   let testDir: string;
@@ -184,4 +186,254 @@ describe('PuterAuthManager', () => {
       expect(newManager.getActiveAccount()?.username).toBe('persistent-user');
     });
   });
+
+  describe('token encryption', () => {
+    const accountsFile = () => path.join(testDir, 'puter-accounts.json');
+
+    afterEach(() => {
+      delete process.env[PASSPHRASE_ENV_VAR];
+    });
+
+    it('should not store tokens in plaintext', async () => {
+      await authManager.init();
+      await authManager.addAccount({
+        username: 'secret-user',
+        authToken: 'super-secret-token',
+        addedAt: Date.now(),
+        isTemporary: false,
+      });
+
+      const raw = await fs.readFile(accountsFile(), 'utf-8');
+      expect(raw).not.toContain('super-secret-token');
+      expect(JSON.parse(raw).version).toBe(2);
+
+      if (process.platform !== 'win32') {
+        const stat = await fs.stat(accountsFile());
+        expect(stat.mode & 0o777).toBe(0o600);
+      }
+    });
+
+    it('should migrate plaintext version 1 stores on load', async () => {
+      await fs.writeFile(accountsFile(), JSON.stringify({
+        version: 1,
+        accounts: [{ username: 'legacy', authToken: 'legacy-token', addedAt: 1, isTemporary: false }],
+        activeIndex: 0,
+      }), 'utf-8');
+
+      await authManager.init();
+
+      expect(authManager.getActiveAccount()?.authToken).toBe('legacy-token');
+      const raw = JSON.parse(await fs.readFile(accountsFile(), 'utf-8'));
+      expect(raw.version).toBe(2);
+      expect(raw.accounts[0].authToken).not.toBe('legacy-token');
+    });
+
+    it('should require the passphrase to load passphrase-encrypted stores', async () => {
+      process.env[PASSPHRASE_ENV_VAR] = 'correct passphrase';
+      await authManager.init();
+      await authManager.addAccount({
+        username: 'locked',
+        authToken: 'locked-token',
+        addedAt: Date.now(),
+        isTemporary: false,
+      });
+
+      delete process.env[PASSPHRASE_ENV_VAR];
+      await expect(createPuterAuthManager(testDir).init()).rejects.toThrow(TokenDecryptionError);
+
+      process.env[PASSPHRASE_ENV_VAR] = 'wrong passphrase';
+      await expect(createPuterAuthManager(testDir).init()).rejects.toThrow(TokenDecryptionError);
+
+      process.env[PASSPHRASE_ENV_VAR] = 'correct passphrase';
+      const unlocked = createPuterAuthManager(testDir);
+      await unlocked.init();
+      expect(unlocked.getActiveAccount()?.authToken).toBe('locked-token');
+    });
+
+    it('should share one decrypted manager per directory and retry failed loads', async () => {
+      process.env[PASSPHRASE_ENV_VAR] = 'correct passphrase';
+      await authManager.init();
+      await authManager.addAccount({ username: 'shared', authToken: 'shared-token', addedAt: 1, isTemporary: false });
+
+      delete process.env[PASSPHRASE_ENV_VAR];
+      await expect(getSharedAuthManager(testDir)).rejects.toThrow(TokenDecryptionError);
+
+      process.env[PASSPHRASE_ENV_VAR] = 'correct passphrase';
+      const shared = await getSharedAuthManager(testDir);
+      try {
+        expect(shared.getActiveAccount()?.authToken).toBe('shared-token');
+        expect(await getSharedAuthManager(testDir)).toBe(shared);
+      } finally {
+        shared.unwatch();
+      }
+    });
+  });
+
+  describe('temporary accounts', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const stubSignup = () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(
+        JSON.stringify({ token: 'temp-token', user: { username: 'guest_123' } }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      ));
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    };
+
+    it('should create and persist a temporary account', async () => {
+      const fetchMock = stubSignup();
+      await authManager.init();
+
+      const result = await authManager.createTempAccount();
+
+      expect(fetchMock).toHaveBeenCalledWith('https://puter.com/signup', expect.objectContaining({ method: 'POST' }));
+      expect(result.success).toBe(true);
+      expect(authManager.getActiveAccount()).toMatchObject({
+        username: 'guest_123',
+        authToken: 'temp-token',
+        isTemporary: true,
+      });
+    });
+
+    it('should only auto-create when no account is stored', async () => {
+      const fetchMock = stubSignup();
+      await authManager.init();
+
+      const created = await authManager.getOrCreateActiveAccount();
+      const reused = await authManager.getOrCreateActiveAccount();
+
+      expect(created?.isTemporary).toBe(true);
+      expect(reused?.username).toBe(created?.username);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should respect auto_create_temp_user: false', async () => {
+      const fetchMock = stubSignup();
+      const manager = createPuterAuthManager(testDir, { auto_create_temp_user: false });
+      await manager.init();
+
+      expect(await manager.getOrCreateActiveAccount()).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should replace temporary accounts after a proper login', async () => {
+      stubSignup();
+      await authManager.init();
+      await authManager.createTempAccount();
+
+      await authManager.addAccount({
+        username: 'real-user',
+        authToken: 'real-token',
+        addedAt: Date.now(),
+        isTemporary: false,
+      });
+
+      expect(authManager.getAllAccounts().map(a => a.username)).toEqual(['real-user']);
+      expect(authManager.getActiveAccount()?.username).toBe('real-user');
+    });
+  });
+
+  describe('multi-process access', () => {
+    it('should not clobber accounts added by another instance', async () => {
+      const other = createPuterAuthManager(testDir);
+      await authManager.init();
+      await other.init();
+
+      await Promise.all([
+        authManager.addAccount({ username: 'a', authToken: 'token-a', addedAt: 1, isTemporary: false }),
+        other.addAccount({ username: 'b', authToken: 'token-b', addedAt: 2, isTemporary: false }),
+      ]);
+
+      const fresh = createPuterAuthManager(testDir);
+      await fresh.init();
+      expect(fresh.getAllAccounts().map(a => a.username).sort()).toEqual(['a', 'b']);
+    });
+
+    it('should reload when another instance switches accounts', async () => {
+      await authManager.init();
+      await authManager.addAccount({ username: 'a', authToken: 'token-a', addedAt: 1, isTemporary: false });
+      await authManager.addAccount({ username: 'b', authToken: 'token-b', addedAt: 2, isTemporary: false });
+
+      const other = createPuterAuthManager(testDir);
+      await other.init();
+      const changed = new Promise<void>(resolve => other.watch(resolve));
+
+      try {
+        await authManager.switchAccount(0);
+        await changed;
+        expect(other.getActiveAccount()?.username).toBe('a');
+      } finally {
+        other.unwatch();
+      }
+    });
+  });
+
+  describe('headless login', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should save a pasted token after validating it', async () => {
+      const testConnection = vi.spyOn(PuterClient.prototype, 'testConnection').mockResolvedValue(true);
+      await authManager.init();
+
+      const result = await authManager.loginWithToken('  pasted-token\n', 'remote-user');
+
+      expect(testConnection).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(true);
+      expect(authManager.getActiveAccount()?.authToken).toBe('pasted-token');
+      expect(authManager.getActiveAccount()?.username).toBe('remote-user');
+    });
+
+    it('should reject a token that fails validation', async () => {
+      vi.spyOn(PuterClient.prototype, 'testConnection').mockResolvedValue(false);
+      await authManager.init();
+
+      const result = await authManager.loginWithToken('bad-token');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('validation failed');
+      expect(authManager.isAuthenticated()).toBe(false);
+    });
+
+    it('should stop the callback server when the signal aborts', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      await authManager.init();
+      const controller = new AbortController();
+
+      const login = authManager.login({ headless: true, host: '127.0.0.1', port: 0, signal: controller.signal });
+      controller.abort();
+
+      await expect(login).resolves.toEqual({ success: false, error: 'Login cancelled' });
+    });
+
+    it('should require the login state and keep waiting after a bad token', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(PuterClient.prototype, 'testConnection').mockImplementation(async function (this: any) {
+        return this.authToken === 'good-token';
+      });
+      await authManager.init();
+
+      const login = authManager.login({ headless: true, host: '127.0.0.1', port: 0 });
+      await vi.waitFor(() => expect(log.mock.calls.flat().join('\n')).toContain('state='));
+      const loginUrl = new URL(log.mock.calls.flat().find(line => String(line).includes('state='))!.trim());
+      const state = loginUrl.searchParams.get('state')!;
+      const callback = (params: Record<string, string>) =>
+        fetch(`${loginUrl.origin}/callback?${new URLSearchParams({ success: 'true', ...params })}`);
+
+      expect((await fetch(`${loginUrl.origin}/`)).status).toBe(403);
+      expect((await callback({ token: 'attacker-token', username: 'attacker' })).status).toBe(403);
+      expect((await callback({ token: 'bad-token', state })).status).toBe(400);
+
+      const response = await callback({ token: 'good-token', username: '<b>me</b>', state });
+      expect(await response.text()).toContain('&#60;b&#62;me&#60;/b&#62;');
+      const result = await login;
+
+      expect(result.success).toBe(true);
+      expect(authManager.getActiveAccount()?.authToken).toBe('good-token');
+    });
+  });
 });
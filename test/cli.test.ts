@@ -0,0 +1,58 @@
+/**
+ * Tests for the puter-auth CLI
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { PuterClient } from '../src/client.js';
+
+describe('puter-auth CLI', () => {
+  const originalArgv = process.argv;
+  const originalEnv = { HOME: process.env.HOME, XDG_CONFIG_HOME: process.env.XDG_CONFIG_HOME };
+  let homeDir: string;
+
+  beforeEach(async () => {
+    homeDir = path.join(os.tmpdir(), `puter-cli-test-${Date.now()}`);
+    await fs.mkdir(homeDir, { recursive: true });
+    process.env.HOME = homeDir;
+    process.env.XDG_CONFIG_HOME = path.join(homeDir, '.config');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    process.argv = originalArgv;
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  it('should log in headlessly through the printed login URL', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    vi.spyOn(PuterClient.prototype, 'testConnection').mockImplementation(async function (this: any) {
+      return this.authToken === 'good-token';
+    });
+    const output = () => log.mock.calls.flat().map(String);
+
+    process.argv = ['node', 'puter-auth', 'login', '--headless', '--host', '127.0.0.1', '--port', '0'];
+    await import('../src/cli.js');
+
+    await vi.waitFor(() => expect(output().some(line => line.includes('state='))).toBe(true));
+    const loginUrl = new URL(output().find(line => line.includes('state='))!.trim());
+    const state = loginUrl.searchParams.get('state')!;
+    const callback = (params: Record<string, string>) =>
+      fetch(`${loginUrl.origin}/callback?${new URLSearchParams({ success: 'true', ...params })}`);
+
+    expect(loginUrl.hostname).toBe('127.0.0.1');
+    expect((await callback({ token: 'bad-token', state })).status).toBe(400);
+    expect((await callback({ token: 'good-token', username: 'remote-user', state })).status).toBe(200);
+
+    await vi.waitFor(() => expect(output()).toContain('   Account: remote-user'));
+    expect(exit).not.toHaveBeenCalled();
+  });
+});
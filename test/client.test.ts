@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { PuterClient } from '../src/client.js';
+import { PuterRateLimitError } from '../src/errors.js';
 
 describe('PuterClient', () => {
   let originalFetch: typeof fetch;
@@ -196,4 +197,20 @@ describe('PuterClient', () => {
       expect(fetchCount).toBe(2);
     });
   });
+
+  describe('Errors', () => {
+    it('should throw typed errors with the status, code and retry hint', async () => {
+      const client = new PuterClient('test-token', { max_retries: 0 });
+      global.fetch = vi.fn().mockResolvedValue(new Response(
+        JSON.stringify({ error: { code: 'too_many_requests', message: 'Slow down' } }),
+        { status: 429, headers: { 'Retry-After': '30' } }
+      ));
+
+      const error = await client.getMonthlyUsage().catch(e => e);
+
+      expect(error).toBeInstanceOf(PuterRateLimitError);
+      expect(error).toMatchObject({ status: 429, code: 'too_many_requests', retryAfterMs: 30000, retryable: true });
+      expect(error.message).toContain('(429)');
+    });
+  });
 });
@@ -0,0 +1,62 @@
+/**
+ * Tests for configuration loading
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { getConfigDir, loadConfig } from '../src/config.js';
+
+describe('getConfigDir', () => {
+  const originalXdg = process.env.XDG_CONFIG_HOME;
+
+  afterEach(() => {
+    if (originalXdg === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = originalXdg;
+    }
+  });
+
+  it('should default to ~/.config/opencode', () => {
+    delete process.env.XDG_CONFIG_HOME;
+    expect(getConfigDir()).toBe(path.join(os.homedir(), '.config', 'opencode'));
+  });
+
+  it('should respect XDG_CONFIG_HOME', () => {
+    process.env.XDG_CONFIG_HOME = '/tmp/xdg';
+    expect(getConfigDir()).toBe(path.join('/tmp/xdg', 'opencode'));
+  });
+});
+
+describe('loadConfig', () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = path.join(os.tmpdir(), `puter-config-test-${Date.now()}`);
+    await fs.mkdir(configDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty config when puter.json is missing', async () => {
+    expect(await loadConfig(configDir)).toEqual({});
+  });
+
+  it('should parse settings from puter.json', async () => {
+    await fs.writeFile(path.join(configDir, 'puter.json'), JSON.stringify({
+      account_rotation_strategy: 'least-recently-used',
+    }), 'utf-8');
+
+    expect(await loadConfig(configDir)).toMatchObject({ account_rotation_strategy: 'least-recently-used' });
+  });
+
+  it('should ignore invalid settings files', async () => {
+    await fs.writeFile(path.join(configDir, 'puter.json'), '{ not json', 'utf-8');
+
+    expect(await loadConfig(configDir)).toEqual({});
+  });
+});
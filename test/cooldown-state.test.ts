@@ -0,0 +1,192 @@
+/**
+ * Tests for persisted model/account cooldowns
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  CooldownStateStore,
+  COOLDOWN_STATE_FILE,
+  getCooldownStateStore,
+  pruneExpiredCooldowns,
+} from '../src/cooldown-state.js';
+import { FallbackManager } from '../src/fallback.js';
+import { AccountRotationManager, type IAuthManager } from '../src/account-rotation.js';
+import type { PuterAccount } from '../src/types.js';
+
+function createMockAuthManager(accounts: PuterAccount[]): IAuthManager {
+  let currentIndex = 0;
+  return {
+    getActiveAccount: () => accounts[currentIndex] ?? null,
+    getAllAccounts: () => accounts,
+    switchAccount: vi.fn(async (index: number) => {
+      currentIndex = index;
+      return true;
+    }),
+    isAuthenticated: () => accounts.length > 0,
+  };
+}
+
+function createTestAccount(username: string): PuterAccount {
+  return { username, authToken: `token-${username}`, addedAt: Date.now(), isTemporary: false };
+}
+
+describe('CooldownStateStore', () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = path.join(os.tmpdir(), `puter-cooldown-test-${Date.now()}`);
+    await fs.mkdir(configDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should return empty state when the file is missing or invalid', async () => {
+    const store = new CooldownStateStore(configDir);
+    expect(store.load()).toEqual({ version: 1, models: {}, accounts: {}, accountStats: {} });
+
+    await fs.writeFile(path.join(configDir, COOLDOWN_STATE_FILE), 'not json', 'utf-8');
+    expect(store.load().models).toEqual({});
+  });
+
+  it('should write updates and drop expired entries', async () => {
+    const store = new CooldownStateStore(configDir);
+
+    await store.update(state => {
+      state.models['gpt-4o'] = { expiresAt: Date.now() + 60000, reason: 'Rate limited' };
+      state.models['old-model'] = { expiresAt: Date.now() - 1, reason: 'Rate limited' };
+    });
+
+    const raw = JSON.parse(await fs.readFile(path.join(configDir, COOLDOWN_STATE_FILE), 'utf-8'));
+    expect(Object.keys(raw.models)).toEqual(['gpt-4o']);
+    expect(new CooldownStateStore(configDir).load().models['gpt-4o'].reason).toBe('Rate limited');
+  });
+
+  it('should only reload when another writer changed the file', async () => {
+    const store = new CooldownStateStore(configDir);
+    await store.update(state => {
+      state.models['gpt-4o'] = { expiresAt: Date.now() + 60000, reason: 'Rate limited' };
+    });
+
+    expect(store.loadIfChanged()).toBeNull();
+
+    await new CooldownStateStore(configDir).update(state => {
+      state.models['claude-opus-4-5'] = { expiresAt: Date.now() + 60000, reason: 'Rate limited' };
+    });
+
+    expect(Object.keys(store.loadIfChanged()?.models ?? {})).toContain('claude-opus-4-5');
+  });
+
+  it('should share one store per config directory', () => {
+    expect(getCooldownStateStore(configDir)).toBe(getCooldownStateStore(path.join(configDir, '.')));
+  });
+
+  it('should prune by timestamp', () => {
+    const state = pruneExpiredCooldowns({
+      version: 1,
+      models: { a: { expiresAt: 100, reason: 'x' }, b: { expiresAt: 300, reason: 'x' } },
+      accounts: { user1: { expiresAt: 100, reason: 'x', consecutiveRateLimits: 1 } },
+      accountStats: { user1: { lastUsedAt: 50, rateLimitCount: 1 } },
+    }, 200);
+
+    expect(Object.keys(state.models)).toEqual(['b']);
+    expect(state.accounts).toEqual({});
+    expect(state.accountStats.user1.rateLimitCount).toBe(1);
+  });
+
+  describe('with FallbackManager', () => {
+    it('should restore model cooldowns in a new manager', async () => {
+      const store = new CooldownStateStore(configDir);
+      const first = new FallbackManager({ stateStore: store });
+      first.addToCooldown('claude-opus-4-5', 'Rate limited');
+      await store.flush();
+
+      const second = new FallbackManager({ stateStore: new CooldownStateStore(configDir) });
+
+      expect(second.isModelOnCooldown('claude-opus-4-5')).toBe(true);
+      expect(second.getCooldownStatus().get('claude-opus-4-5')?.reason).toBe('Rate limited');
+    });
+
+    it('should pick up cooldowns added by another process', async () => {
+      const manager = new FallbackManager({ stateStore: new CooldownStateStore(configDir) });
+      const other = new CooldownStateStore(configDir);
+      new FallbackManager({ stateStore: other }).addToCooldown('gpt-4o', 'Rate limited');
+      await other.flush();
+
+      expect(manager.buildModelQueue('gpt-4o')).not.toContain('gpt-4o');
+    });
+
+    it('should drop cooldowns cleared by another process', async () => {
+      const store = new CooldownStateStore(configDir);
+      const manager = new FallbackManager({ stateStore: store });
+      manager.addToCooldown('gpt-4o', 'Rate limited');
+      await store.flush();
+
+      const other = new CooldownStateStore(configDir);
+      await other.update(state => {
+        state.models = {};
+      });
+
+      expect(manager.buildModelQueue('gpt-4o')).toContain('gpt-4o');
+      expect(manager.isModelOnCooldown('gpt-4o')).toBe(false);
+    });
+
+    it('should persist removals and clears', async () => {
+      const store = new CooldownStateStore(configDir);
+      const manager = new FallbackManager({ stateStore: store });
+      manager.addToCooldown('a', 'Rate limited');
+      manager.addToCooldown('b', 'Rate limited');
+      manager.removeFromCooldown('a');
+      await store.flush();
+
+      expect(Object.keys(store.load().models)).toEqual(['b']);
+
+      manager.clearCooldowns();
+      await store.flush();
+
+      expect(store.load().models).toEqual({});
+    });
+  });
+
+  describe('with AccountRotationManager', () => {
+    it('should restore account cooldowns and rate-limit counters', async () => {
+      const accounts = [createTestAccount('user1'), createTestAccount('user2')];
+      const store = new CooldownStateStore(configDir);
+      const first = new AccountRotationManager(createMockAuthManager(accounts), { stateStore: store });
+      first.addToCooldown('user1', 'Rate limited');
+      first.addToCooldown('user1', 'Rate limited');
+      await store.flush();
+
+      const second = new AccountRotationManager(createMockAuthManager(accounts), {
+        stateStore: new CooldownStateStore(configDir),
+      });
+      const status = second.getAccountStatuses().find(s => s.username === 'user1')!;
+
+      expect(status.isOnCooldown).toBe(true);
+      expect(status.rateLimitCount).toBe(2);
+
+      const result = await second.getNextAvailableAccount();
+      expect(result.account.username).toBe('user2');
+    });
+
+    it('should drop account cooldowns cleared by another process', async () => {
+      const accounts = [createTestAccount('user1'), createTestAccount('user2')];
+      const store = new CooldownStateStore(configDir);
+      const manager = new AccountRotationManager(createMockAuthManager(accounts), { stateStore: store });
+      manager.addToCooldown('user1', 'Rate limited');
+      await store.flush();
+
+      const other = new CooldownStateStore(configDir);
+      await other.update(state => {
+        state.accounts = {};
+      });
+
+      const result = await manager.getNextAvailableAccount();
+      expect(result.account.username).toBe('user1');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for typed Puter API errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createPuterApiError,
+  toPuterApiError,
+  PuterApiError,
+  PuterAuthError,
+  PuterForbiddenError,
+  PuterNotFoundError,
+  PuterRateLimitError,
+  PuterServerError,
+} from '../src/errors.js';
+import { HttpStatusError, getRetryAfterMs } from '../src/retry.js';
+
+describe('createPuterApiError', () => {
+  it('should pick the subclass for the status', () => {
+    expect(createPuterApiError('x', { status: 401 })).toBeInstanceOf(PuterAuthError);
+    expect(createPuterApiError('x', { status: 402 })).toBeInstanceOf(PuterForbiddenError);
+    expect(createPuterApiError('x', { status: 403 })).toBeInstanceOf(PuterForbiddenError);
+    expect(createPuterApiError('x', { status: 404 })).toBeInstanceOf(PuterNotFoundError);
+    expect(createPuterApiError('x', { status: 429 })).toBeInstanceOf(PuterRateLimitError);
+    expect(createPuterApiError('x', { status: 503 })).toBeInstanceOf(PuterServerError);
+    expect(createPuterApiError('x', { status: 400 }).constructor).toBe(PuterApiError);
+  });
+
+  it('should carry request details and the Puter error code', () => {
+    const body = JSON.stringify({ success: false, error: { code: 'insufficient_funds', message: 'No credits' } });
+    const error = createPuterApiError('Puter API error (402): No credits', {
+      status: 402,
+      body,
+      model: 'gpt-4o',
+      account: 'user1',
+      retryAfterMs: 1000,
+    });
+
+    expect(error).toBeInstanceOf(HttpStatusError);
+    expect(error).toMatchObject({
+      name: 'PuterForbiddenError',
+      status: 402,
+      code: 'insufficient_funds',
+      model: 'gpt-4o',
+      account: 'user1',
+      body,
+      retryable: false,
+    });
+    expect(getRetryAfterMs(error)).toBe(1000);
+  });
+
+  it('should mark rate limits and server errors as retryable', () => {
+    expect(createPuterApiError('x', { status: 429 }).retryable).toBe(true);
+    expect(createPuterApiError('x', { status: 502 }).retryable).toBe(true);
+    expect(createPuterApiError('x', { status: 404 }).retryable).toBe(false);
+  });
+});
+
+describe('toPuterApiError', () => {
+  it('should convert SDK error objects', () => {
+    const error = toPuterApiError(
+      { success: false, error: { code: 'forbidden', message: 'Permission denied' } },
+      { model: 'claude-opus-4-5', account: 'user1' }
+    );
+
+    expect(error).toBeInstanceOf(PuterForbiddenError);
+    expect(error.message).toBe('Puter API error (403): Permission denied');
+    expect(error).toMatchObject({ code: 'forbidden', model: 'claude-opus-4-5', account: 'user1' });
+  });
+
+  it('should prefer an explicit status over the code mapping', () => {
+    const error = toPuterApiError({ error: { code: 'forbidden', message: 'Busy', status: 429 } });
+    expect(error).toBeInstanceOf(PuterRateLimitError);
+  });
+
+  it('should read the status from Error instances', () => {
+    const sdkError = Object.assign(new Error('Service unavailable'), { status: 503 });
+    expect(toPuterApiError(sdkError)).toBeInstanceOf(PuterServerError);
+  });
+
+  it('should leave errors without a known status for the message heuristics', () => {
+    const plain = new Error('Puter API error (429): slow down');
+    expect(toPuterApiError(plain)).toBe(plain);
+
+    const converted = toPuterApiError({ error: { message: 'Something broke' } });
+    expect(converted).not.toBeInstanceOf(PuterApiError);
+    expect(converted.message).toBe('Something broke');
+    expect(toPuterApiError('boom').message).toBe('boom');
+  });
+
+  it('should return PuterApiErrors unchanged', () => {
+    const error = createPuterApiError('x', { status: 429 });
+    expect(toPuterApiError(error)).toBe(error);
+  });
+});
@@ -4,7 +4,9 @@
  * Tests the automatic model fallback functionality when rate limits are encountered.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HttpStatusError } from '../src/retry.js';
+import { createPuterApiError } from '../src/errors.js';
 import {
   FallbackManager,
   isRateLimitError,
@@ -12,8 +14,13 @@ import {
   classifyError,
   getErrorTypeDescription,
   FallbackExhaustedError,
+  NoCompatibleFallbackError,
+  getIncompatibilityReason,
+  matchesModelPattern,
   DEFAULT_FALLBACK_MODELS,
   DEFAULT_COOLDOWN_MS,
+  MODEL_CATALOG_LOAD_TIMEOUT_MS,
+  PROBE_TIMEOUT_MS,
   getGlobalFallbackManager,
   resetGlobalFallbackManager,
   type FallbackErrorType,
@@ -150,6 +157,18 @@ describe('classifyError', () => {
     expect(classifyError(new Error(''))).toBe('unknown');
   });
 
+  it('should use the status of typed errors before the message', () => {
+    const serverError = createPuterApiError('Puter API error (500): request 403 failed upstream', { status: 500 });
+    expect(classifyError(serverError)).toBe('server_error');
+    expect(extractHttpStatus(serverError)).toBe(500);
+    expect(isRateLimitError(serverError)).toBe(false);
+
+    const badRequest = createPuterApiError('Puter API error (400): context length exceeded', { status: 400 });
+    expect(classifyError(badRequest)).toBe('context_length');
+    expect(classifyError(createPuterApiError('Upstream failed', { status: 520 }))).toBe('server_error');
+    expect(classifyError(createPuterApiError('No credits', { status: 402 }))).toBe('forbidden');
+  });
+
   it('should handle non-Error values', () => {
     expect(classifyError('rate limit')).toBe('unknown');
     expect(classifyError(null)).toBe('unknown');
@@ -260,6 +279,15 @@ describe('FallbackManager', () => {
       expect(manager.getCooldownRemaining('model-b')).toBeGreaterThan(500);
     });
 
+    it('should not grow the cooldown when the same model is added again', () => {
+      manager.addToCooldown('model-a', 'Rate limited');
+      manager.addToCooldown('model-a', 'Rate limited');
+      manager.addToCooldown('model-a', 'Rate limited');
+      
+      expect(manager.getCooldownRemaining('model-a')).toBeLessThanOrEqual(1000);
+      expect(manager.getCooldownStatus().get('model-a')?.openCount).toBe(1);
+    });
+
     it('should return cooldown status for all models', () => {
       manager.addToCooldown('model-a', 'Error A');
       manager.addToCooldown('model-b', 'Error B');
@@ -283,6 +311,125 @@ describe('FallbackManager', () => {
     });
   });
 
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      manager = new FallbackManager({
+        fallbackModels: ['fallback-model-1'],
+        cooldownMs: 1000,
+        maxCooldownMs: 3000,
+        failureThreshold: 2,
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should open only after the failure threshold', () => {
+      expect(manager.recordFailure('model-a', 'Rate limited')).toBe('closed');
+      expect(manager.isModelOnCooldown('model-a')).toBe(false);
+      expect(manager.getCooldownStatus().get('model-a')).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+
+      expect(manager.recordFailure('model-a', 'Rate limited')).toBe('open');
+      expect(manager.isModelOnCooldown('model-a')).toBe(true);
+      expect(manager.getCooldownRemaining('model-a')).toBe(1000);
+    });
+
+    it('should go half-open after the cooldown and reopen for longer on a failed probe', () => {
+      manager.recordFailure('model-a', 'Rate limited');
+      manager.recordFailure('model-a', 'Rate limited');
+      vi.advanceTimersByTime(1000);
+
+      expect(manager.getCircuitState('model-a')).toBe('half-open');
+      expect(manager.isModelOnCooldown('model-a')).toBe(false);
+
+      // A single failed probe reopens the circuit, with a doubled cooldown
+      expect(manager.recordFailure('model-a', 'Still limited')).toBe('open');
+      expect(manager.getCooldownRemaining('model-a')).toBe(2000);
+
+      vi.advanceTimersByTime(2000);
+      manager.recordFailure('model-a', 'Still limited');
+      expect(manager.getCooldownRemaining('model-a')).toBe(3000); // capped at maxCooldownMs
+      expect(manager.getCooldownStatus().get('model-a')).toMatchObject({ state: 'open', openCount: 3 });
+    });
+
+    it('should close on success', () => {
+      manager.recordFailure('model-a', 'Rate limited');
+      manager.recordSuccess('model-a');
+
+      expect(manager.getCooldownStatus().has('model-a')).toBe(false);
+
+      // Failure count restarted
+      expect(manager.recordFailure('model-a', 'Rate limited')).toBe('closed');
+    });
+
+    it('should let only one probe through a half-open circuit', async () => {
+      manager.addToCooldown('model-a', 'Rate limited');
+      vi.advanceTimersByTime(1000);
+
+      let releaseProbe!: (value: string) => void;
+      const operation = vi.fn((model: string) => model === 'model-a'
+        ? new Promise<string>(resolve => { releaseProbe = resolve; })
+        : Promise.resolve(`ok from ${model}`));
+
+      const probe = manager.executeWithFallback('model-a', operation);
+      await vi.advanceTimersByTimeAsync(0);
+
+      // While the probe is in flight, other requests skip the model
+      expect(manager.isModelOnCooldown('model-a')).toBe(true);
+      const other = await manager.executeWithFallback('model-a', operation);
+      expect(other.usedModel).toBe('fallback-model-1');
+
+      releaseProbe('ok from model-a');
+      expect((await probe).usedModel).toBe('model-a');
+      expect(manager.getCircuitState('model-a')).toBe('closed');
+      expect(manager.getCooldownStatus().has('model-a')).toBe(false);
+    });
+
+    it('should let another request probe once a probe times out', async () => {
+      manager.addToCooldown('model-a', 'Rate limited');
+      vi.advanceTimersByTime(1000);
+
+      const hung = vi.fn(() => new Promise<string>(() => {}));
+      void manager.executeWithFallback('model-a', hung);
+      await vi.advanceTimersByTimeAsync(PROBE_TIMEOUT_MS);
+
+      expect(manager.isModelOnCooldown('model-a')).toBe(false);
+      const retry = await manager.executeWithFallback('model-a', async model => `ok from ${model}`);
+      expect(retry.usedModel).toBe('model-a');
+      expect(manager.getCircuitState('model-a')).toBe('closed');
+    });
+
+    it('should close the circuit when the model works without its :free suffix', async () => {
+      manager.addToCooldown('model-a:free', 'Rate limited');
+      vi.advanceTimersByTime(1000);
+
+      const result = await manager.executeWithFallback('model-a:free', async model => {
+        if (model === 'model-a:free') throw createPuterApiError('Model not found', { status: 404 });
+        return `ok from ${model}`;
+      });
+
+      expect(result.usedModel).toBe('model-a');
+      expect(manager.getCircuitState('model-a:free')).toBe('closed');
+      expect(manager.getCooldownStatus().has('model-a:free')).toBe(false);
+    });
+
+    it('should stay open for the server retry hint, capped at maxCooldownMs', async () => {
+      manager.recordFailure('model-a', 'Rate limited');
+      manager.recordFailure('model-a', 'Rate limited', 2500);
+      expect(manager.getCooldownRemaining('model-a')).toBe(2500);
+
+      const threshold1 = new FallbackManager({ fallbackModels: ['fallback-model-1'], maxCooldownMs: 3000 });
+      const operation = vi.fn((model: string) => model === 'model-b'
+        ? Promise.reject(new HttpStatusError('Puter API error (429): slow down', 429, 60000))
+        : Promise.resolve(`ok from ${model}`));
+
+      await threshold1.executeWithFallback('model-b', operation);
+      expect(threshold1.getCooldownRemaining('model-b')).toBe(3000);
+    });
+  });
+
   describe('buildModelQueue', () => {
     it('should include primary model first when not on cooldown', () => {
       const queue = manager.buildModelQueue('primary-model');
@@ -336,6 +483,170 @@ describe('FallbackManager', () => {
     });
   });
 
+  describe('capability-aware queue', () => {
+    beforeEach(() => {
+      manager = new FallbackManager({
+        fallbackModels: ['unknown-model', 'text-only:free', 'small-context', 'capable'],
+        cooldownMs: 1000,
+      });
+      manager.setModelCatalog([
+        { id: 'text-only', name: 'Text Only', provider: 'test', supports_tools: false, supports_vision: false, context_window: 128000 },
+        { id: 'small-context', name: 'Small', provider: 'test', supports_tools: true, supports_vision: true, context_window: 8000, max_output_tokens: 4096 },
+        { id: 'capable', name: 'Capable', provider: 'test', supports_tools: true, supports_vision: true, context_window: 200000, max_output_tokens: 64000 },
+      ]);
+    });
+
+    it('should skip fallbacks missing a required capability', () => {
+      const plan = manager.planModelQueue('primary-model', { tools: true, minContextWindow: 20000 });
+
+      expect(plan.queue).toEqual(['primary-model', 'capable', 'unknown-model']);
+      expect(plan.skipped).toEqual([
+        { model: 'text-only:free', reason: 'no tool calling support' },
+        { model: 'small-context', reason: 'context window 8000 < 20000 tokens' },
+      ]);
+    });
+
+    it('should order known-compatible fallbacks before unknown ones', () => {
+      expect(manager.buildModelQueue('primary-model', { vision: true })).toEqual([
+        'primary-model', 'small-context', 'capable', 'unknown-model',
+      ]);
+    });
+
+    it('should keep the configured order without requirements', () => {
+      expect(manager.buildModelQueue('primary-model')).toEqual([
+        'primary-model', 'text-only:free', 'small-context', 'capable', 'unknown-model',
+      ]);
+    });
+
+    it('should throw NoCompatibleFallbackError when compatible models fail', async () => {
+      const operation = vi.fn().mockRejectedValue(new Error('Rate limit exceeded (429)'));
+
+      const error = await manager.executeWithFallback('primary-model', operation, undefined, undefined, {
+        tools: true,
+        minOutputTokens: 100000,
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NoCompatibleFallbackError);
+      expect(error).toBeInstanceOf(FallbackExhaustedError);
+      expect(operation.mock.calls.map(call => call[0])).toEqual(['primary-model', 'unknown-model']);
+      expect(error.skippedModels.map((s: { model: string }) => s.model)).toEqual(['text-only:free', 'small-context', 'capable']);
+      expect(error.message).toContain('No compatible fallback model left');
+    });
+
+    it('should load the catalog once and share concurrent loads', async () => {
+      const fresh = new FallbackManager();
+      const loader = vi.fn().mockResolvedValue([{ id: 'm', name: 'M', provider: 'test', supports_tools: false }]);
+
+      await Promise.all([fresh.ensureModelCatalog(loader), fresh.ensureModelCatalog(loader)]);
+      await fresh.ensureModelCatalog(loader);
+
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(fresh.getModelInfo('m:free')?.supports_tools).toBe(false);
+    });
+
+    it('should give up on a catalog load that hangs', async () => {
+      vi.useFakeTimers();
+      try {
+        const fresh = new FallbackManager();
+        const load = fresh.ensureModelCatalog(() => new Promise(() => {}));
+
+        await vi.advanceTimersByTimeAsync(MODEL_CATALOG_LOAD_TIMEOUT_MS);
+        await load;
+
+        const loader = vi.fn().mockResolvedValue([]);
+        await fresh.ensureModelCatalog(loader);
+        expect(loader).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should ignore catalog load failures', async () => {
+      const fresh = new FallbackManager({ fallbackModels: ['a'] });
+
+      await fresh.ensureModelCatalog(() => Promise.reject(new Error('offline')));
+
+      expect(fresh.buildModelQueue('primary-model', { tools: true })).toEqual(['primary-model', 'a']);
+    });
+  });
+
+  describe('fallback chains and aliases', () => {
+    beforeEach(() => {
+      manager = new FallbackManager({
+        fallbackModels: ['global-fallback'],
+        fallbackChains: {
+          'claude-opus-*': ['claude-sonnet-4-5', 'gpt-5.2'],
+          'claude-opus-4-5': ['cheap'],
+          'gemini-*-flash': ['cheap', 'fast-free'],
+        },
+        modelAliases: { smart: 'claude-opus-4-1', fast: 'gemini-2.5-flash', cheap: 'gpt-5-nano' },
+      });
+    });
+
+    it('should use the chain matching a glob pattern', () => {
+      expect(manager.buildModelQueue('claude-opus-4-1')).toEqual(['claude-opus-4-1', 'claude-sonnet-4-5', 'gpt-5.2']);
+    });
+
+    it('should prefer an exact chain key over patterns', () => {
+      expect(manager.buildModelQueue('claude-opus-4-5')).toEqual(['claude-opus-4-5', 'gpt-5-nano']);
+    });
+
+    it('should fall back to the global list when no chain matches', () => {
+      expect(manager.buildModelQueue('gpt-4o')).toEqual(['gpt-4o', 'global-fallback']);
+    });
+
+    it('should resolve aliases for the primary model and chain entries', () => {
+      expect(manager.resolveModelAlias('fast')).toBe('gemini-2.5-flash');
+      expect(manager.resolveModelAlias('gpt-4o')).toBe('gpt-4o');
+      expect(manager.buildModelQueue('fast')).toEqual(['gemini-2.5-flash', 'gpt-5-nano', 'fast-free']);
+    });
+
+    it('should call the operation with resolved model IDs', async () => {
+      const operation = vi.fn()
+        .mockRejectedValueOnce(new Error('Rate limit exceeded (429)'))
+        .mockResolvedValue('ok');
+
+      const result = await manager.executeWithFallback('smart', operation);
+
+      expect(operation.mock.calls.map(call => call[0])).toEqual(['claude-opus-4-1', 'claude-sonnet-4-5']);
+      expect(result.usedModel).toBe('claude-sonnet-4-5');
+      expect(result.wasFallback).toBe(true);
+    });
+
+    it('should expose chains and aliases in getConfig', () => {
+      manager.configure({ modelAliases: { quick: 'gpt-4o' } });
+
+      expect(manager.getConfig().modelAliases).toEqual({ quick: 'gpt-4o' });
+      expect(Object.keys(manager.getConfig().fallbackChains)).toContain('claude-opus-*');
+    });
+  });
+
+  describe('matchesModelPattern', () => {
+    it('should match * and ? wildcards', () => {
+      expect(matchesModelPattern('claude-opus-4-5', 'claude-opus-*')).toBe(true);
+      expect(matchesModelPattern('gpt-5.2', 'gpt-5.?')).toBe(true);
+      expect(matchesModelPattern('claude-sonnet-4-5', 'claude-opus-*')).toBe(false);
+    });
+
+    it('should treat other characters literally', () => {
+      expect(matchesModelPattern('gpt-5x2', 'gpt-5.2')).toBe(false);
+      expect(matchesModelPattern('openrouter:qwen/qwen3-coder:free', 'openrouter:qwen/*')).toBe(true);
+    });
+  });
+
+  describe('getIncompatibilityReason', () => {
+    it('should treat unknown capabilities as compatible', () => {
+      expect(getIncompatibilityReason(undefined, { tools: true, vision: true })).toBeNull();
+      expect(getIncompatibilityReason({ id: 'm', name: 'M', provider: 'p' }, { tools: true, minContextWindow: 1e6 })).toBeNull();
+    });
+
+    it('should report missing vision and output capacity', () => {
+      const info = { id: 'm', name: 'M', provider: 'p', supports_vision: false, max_output_tokens: 1000 };
+      expect(getIncompatibilityReason(info, { vision: true })).toBe('no image input support');
+      expect(getIncompatibilityReason(info, { minOutputTokens: 2000 })).toBe('max output 1000 < 2000 tokens');
+    });
+  });
+
   describe('executeWithFallback', () => {
     it('should return result from successful primary model', async () => {
       const operation = vi.fn().mockResolvedValue('success');
@@ -528,6 +839,32 @@ describe('FallbackManager', () => {
       expect(result.attempts[1].errorType).toBe('server_error');
       expect(result.attempts[1].httpStatus).toBe(500);
     });
+
+    it('should stop immediately when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const operation = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw new Error('Rate limit exceeded (429)');
+      });
+      
+      await expect(
+        manager.executeWithFallback('primary-model', operation, nullLogger, controller.signal)
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(manager.isModelOnCooldown('primary-model')).toBe(false);
+    });
+
+    it('should not call the operation when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const operation = vi.fn().mockResolvedValue('success');
+      
+      await expect(
+        manager.executeWithFallback('primary-model', operation, nullLogger, controller.signal)
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(operation).not.toHaveBeenCalled();
+    });
   });
 
   describe('verbose and quiet modes', () => {
@@ -600,6 +937,20 @@ describe('FallbackManager', () => {
     });
   });
 
+  describe('withOptions', () => {
+    it('should share cooldowns but keep its own settings', () => {
+      const derived = manager.withOptions({ fallbackModels: ['other-model'], cooldownMs: 5000 });
+      
+      derived.addToCooldown('model-a', 'Rate limited');
+      derived.configure({ enabled: false });
+      
+      expect(manager.isModelOnCooldown('model-a')).toBe(true);
+      expect(manager.getCooldownRemaining('model-a')).toBeGreaterThan(1000);
+      expect(manager.getConfig()).toMatchObject({ fallbackModels: ['fallback-model-1', 'fallback-model-2'], enabled: true });
+      expect(derived.getConfig()).toMatchObject({ fallbackModels: ['other-model'], cooldownMs: 5000, enabled: false });
+    });
+  });
+
   describe('configure', () => {
     it('should update fallback models', () => {
       manager.configure({ fallbackModels: ['new-model'] });
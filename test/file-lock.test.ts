@@ -0,0 +1,111 @@
+/**
+ * Tests for cross-process file helpers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { withFileLock, writeFileAtomic, FileLockTimeoutError } from '../src/file-lock.js';
+
+describe('withFileLock', () => {
+  let testDir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `puter-lock-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    file = path.join(testDir, 'data.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should serialize concurrent read-modify-write operations', async () => {
+    await fs.writeFile(file, '0', 'utf-8');
+
+    const increment = () => withFileLock(file, async () => {
+      const value = Number(await fs.readFile(file, 'utf-8'));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await fs.writeFile(file, String(value + 1), 'utf-8');
+    });
+    await Promise.all([increment(), increment(), increment(), increment()]);
+
+    expect(await fs.readFile(file, 'utf-8')).toBe('4');
+  });
+
+  it('should release the lock when the operation throws', async () => {
+    await expect(withFileLock(file, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    await expect(fs.access(`${file}.lock`)).rejects.toThrow();
+  });
+
+  it('should time out while another holder keeps the lock', async () => {
+    await fs.writeFile(`${file}.lock`, '12345', 'utf-8');
+
+    await expect(
+      withFileLock(file, async () => 'never', { timeoutMs: 50 })
+    ).rejects.toBeInstanceOf(FileLockTimeoutError);
+  });
+
+  it('should break stale locks', async () => {
+    await fs.writeFile(`${file}.lock`, '12345', 'utf-8');
+    const old = new Date(Date.now() - 60000);
+    await fs.utimes(`${file}.lock`, old, old);
+
+    await expect(withFileLock(file, async () => 'ok', { staleMs: 1000 })).resolves.toBe('ok');
+  });
+
+  it('should let only one waiter take over a stale lock', async () => {
+    await fs.writeFile(file, '0', 'utf-8');
+    await fs.writeFile(`${file}.lock`, '12345', 'utf-8');
+    const old = new Date(Date.now() - 60000);
+    await fs.utimes(`${file}.lock`, old, old);
+
+    const increment = () => withFileLock(file, async () => {
+      const value = Number(await fs.readFile(file, 'utf-8'));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await fs.writeFile(file, String(value + 1), 'utf-8');
+    }, { staleMs: 1000 });
+    await Promise.all([increment(), increment(), increment(), increment()]);
+
+    expect(await fs.readFile(file, 'utf-8')).toBe('4');
+    expect(await fs.readdir(testDir)).toEqual(['data.json']);
+  });
+
+  it('should not remove a lock another holder took over', async () => {
+    await withFileLock(file, async () => {
+      // Simulates a waiter breaking this lock as stale and taking it
+      await fs.writeFile(`${file}.lock`, 'other-owner', 'utf-8');
+    });
+
+    expect(await fs.readFile(`${file}.lock`, 'utf-8')).toBe('other-owner');
+    expect(await fs.readdir(testDir)).toEqual(['data.json.lock']);
+  });
+});
+
+describe('writeFileAtomic', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `puter-atomic-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should replace the file without leaving temp files behind', async () => {
+    const file = path.join(testDir, 'data.json');
+    await fs.writeFile(file, 'old', 'utf-8');
+
+    await writeFileAtomic(file, 'new');
+
+    expect(await fs.readFile(file, 'utf-8')).toBe('new');
+    expect(await fs.readdir(testDir)).toEqual(['data.json']);
+  });
+});
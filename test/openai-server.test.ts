@@ -0,0 +1,354 @@
+/**
+ * Tests for the local OpenAI-compatible gateway
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { request, type Server } from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { createOpenAIServer } from '../src/openai-server.js';
+import { getCooldownStateStore } from '../src/cooldown-state.js';
+
+describe('OpenAI-compatible gateway', () => {
+  const realFetch = global.fetch;
+  let configDir: string;
+  let server: Server | undefined;
+  let driverCall: (token: string, body: any) => Response;
+
+  async function writeAccounts(usernames: string[]): Promise<void> {
+    await fs.writeFile(path.join(configDir, 'puter-accounts.json'), JSON.stringify({
+      version: 1,
+      accounts: usernames.map(username => ({
+        username,
+        authToken: `token-${username}`,
+        addedAt: Date.now(),
+        isTemporary: false,
+      })),
+      activeIndex: 0,
+    }), 'utf-8');
+  }
+
+  async function startServer(apiKey?: string): Promise<string> {
+    server = await createOpenAIServer({ configDir, apiKey });
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function chat(baseUrl: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return realFetch(`${baseUrl}/v1/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeEach(async () => {
+    configDir = path.join(os.tmpdir(), `puter-gateway-test-${Date.now()}`);
+    await fs.mkdir(configDir, { recursive: true });
+    await fs.writeFile(path.join(configDir, 'puter.json'), JSON.stringify({
+      fallback_enabled: false,
+      max_retries: 0,
+      quiet_mode: true,
+    }), 'utf-8');
+    await writeAccounts(['alice']);
+
+    driverCall = () => new Response(JSON.stringify({
+      result: { message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' },
+    }));
+
+    // Local requests go to the gateway, everything else is the fake Puter API
+    global.fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      if (url.startsWith('http://127.0.0.1')) return realFetch(input, init);
+      if (url.endsWith('/auth/get-user-app-token')) {
+        const token = new Headers(init?.headers).get('Authorization')?.replace('Bearer ', '');
+        return new Response(JSON.stringify({ token: `app-${token}` }));
+      }
+      if (url.endsWith('/puterai/chat/models/details')) {
+        return new Response(JSON.stringify({
+          models: [
+            { id: 'gpt-4o', name: 'GPT-4o', provider: 'openai' },
+            { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', provider: 'anthropic' },
+          ],
+        }));
+      }
+      const body = JSON.parse(init?.body as string);
+      return driverCall(body.auth_token.replace(/^app-/, ''), body);
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = realFetch;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise(resolve => server!.close(resolve));
+      server = undefined;
+    }
+    await getCooldownStateStore(configDir).flush();
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should reject requests without the API key', async () => {
+    const baseUrl = await startServer('secret');
+
+    const missing = await realFetch(`${baseUrl}/v1/models`);
+    const wrong = await realFetch(`${baseUrl}/v1/models`, { headers: { Authorization: 'Bearer nope' } });
+    const right = await realFetch(`${baseUrl}/v1/models`, { headers: { Authorization: 'Bearer secret' } });
+
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).error.type).toBe('authentication_error');
+    expect(wrong.status).toBe(401);
+    expect(right.status).toBe(200);
+  });
+
+  it('should reject browser-style requests when no API key is set', async () => {
+    const baseUrl = await startServer();
+    const post = (headers: Record<string, string>) => new Promise<number>((resolve, reject) => {
+      const req = request(`${baseUrl}/v1/chat/completions`, { method: 'POST', headers }, res => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify({ model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] }));
+    });
+
+    expect(await post({ 'Content-Type': 'text/plain' })).toBe(415);
+    expect(await post({ 'Content-Type': 'application/json', Host: 'evil.example:8787' })).toBe(403);
+    expect(await post({ 'Content-Type': 'application/json', Host: 'localhost:8787' })).toBe(200);
+  });
+
+  it('should list models in OpenAI format', async () => {
+    const baseUrl = await startServer();
+
+    const list = await (await realFetch(`${baseUrl}/v1/models`)).json();
+    const one = await realFetch(`${baseUrl}/v1/models/gpt-4o`);
+    const unknown = await realFetch(`${baseUrl}/v1/models/nope`);
+
+    expect(list.object).toBe('list');
+    expect(list.data).toContainEqual({ id: 'claude-sonnet-4-5', object: 'model', created: 0, owned_by: 'anthropic' });
+    expect((await one.json()).id).toBe('gpt-4o');
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should answer chat completions', async () => {
+    const baseUrl = await startServer();
+
+    const response = await chat(baseUrl, {
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-puter-model')).toBe('gpt-4o');
+    expect(body.model).toBe('gpt-4o');
+    expect(body.choices[0].message.content).toBe('Hello!');
+  });
+
+  it('should stream chat completions as SSE', async () => {
+    driverCall = () => new Response([
+      JSON.stringify({ type: 'text', text: 'Hel' }),
+      JSON.stringify({ type: 'text', text: 'lo' }),
+      JSON.stringify({ done: true, finish_reason: 'stop' }),
+    ].join('\n'));
+    const baseUrl = await startServer();
+
+    const response = await chat(baseUrl, {
+      model: 'gpt-4o',
+      stream: true,
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const text = await response.text();
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const events = text.split('\n\n').filter(Boolean).map(e => e.replace(/^data: /, ''));
+    expect(events.at(-1)).toBe('[DONE]');
+    const chunks = events.slice(0, -1).map(e => JSON.parse(e));
+    expect(chunks.map(c => c.choices[0]?.delta.content ?? '').join('')).toBe('Hello');
+    expect(chunks.at(-1).choices[0].finish_reason).toBe('stop');
+  });
+
+  it('should rotate to another account when one is out of credits', async () => {
+    await writeAccounts(['alice', 'bob']);
+    const tokens: string[] = [];
+    driverCall = token => {
+      tokens.push(token);
+      if (token === 'token-alice') {
+        return new Response(JSON.stringify({ error: { code: 'insufficient_funds' } }), { status: 402 });
+      }
+      return new Response(JSON.stringify({ result: { message: { role: 'assistant', content: 'From Bob' } } }));
+    };
+    const baseUrl = await startServer();
+
+    const response = await chat(baseUrl, { model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).choices[0].message.content).toBe('From Bob');
+    expect(tokens).toEqual(['token-alice', 'token-bob']);
+  });
+
+  it('should keep each in-flight request on its own account while another rotates', async () => {
+    await writeAccounts(['alice', 'bob']);
+    let releaseFirst!: () => void;
+    const firstHeld = new Promise<void>(resolve => { releaseFirst = resolve; });
+    const calls: string[] = [];
+    driverCall = (token, body) => {
+      const prompt = body.args.messages[0].content;
+      calls.push(`${prompt}:${token}`);
+      if (prompt === 'first') {
+        return new Response(new ReadableStream({
+          async start(controller) {
+            await firstHeld;
+            controller.enqueue(new TextEncoder().encode(JSON.stringify({
+              result: { message: { role: 'assistant', content: `first via ${token}` } },
+            })));
+            controller.close();
+          },
+        }));
+      }
+      if (token === 'token-alice') {
+        return new Response(JSON.stringify({ error: { code: 'insufficient_funds' } }), { status: 402 });
+      }
+      return new Response(JSON.stringify({ result: { message: { role: 'assistant', content: `second via ${token}` } } }));
+    };
+    const baseUrl = await startServer();
+
+    const first = chat(baseUrl, { model: 'gpt-4o', messages: [{ role: 'user', content: 'first' }] });
+    await vi.waitFor(() => expect(calls).toContain('first:token-alice'));
+    const second = await chat(baseUrl, { model: 'gpt-4o', messages: [{ role: 'user', content: 'second' }] });
+    releaseFirst();
+
+    expect((await second.json()).choices[0].message.content).toBe('second via token-bob');
+    expect((await (await first).json()).choices[0].message.content).toBe('first via token-alice');
+    expect(calls).toEqual(['first:token-alice', 'second:token-alice', 'second:token-bob']);
+  });
+
+  it('should forward image parts and sampling, stop, tool and format options', async () => {
+    let args: any;
+    driverCall = (_token, body) => {
+      args = body.args;
+      return new Response(JSON.stringify({ result: { message: { role: 'assistant', content: '{}' } } }));
+    };
+    const baseUrl = await startServer();
+
+    const response = await chat(baseUrl, {
+      model: 'gpt-4o',
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        ],
+      }],
+      top_p: 0.5,
+      stop: 'END',
+      tools: [{ type: 'function', function: { name: 'lookup', parameters: { type: 'object' } } }],
+      tool_choice: { type: 'function', function: { name: 'lookup' } },
+      response_format: { type: 'json_object' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(args.messages[0].content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+    ]);
+    expect(args).toMatchObject({
+      top_p: 0.5,
+      stop: ['END'],
+      tool_choice: { type: 'function', function: { name: 'lookup' } },
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('should reject invalid sampling, stop, tool and format options', async () => {
+    const baseUrl = await startServer();
+    const messages = [{ role: 'user', content: 'Hi' }];
+
+    const responses = await Promise.all([
+      chat(baseUrl, { model: 'gpt-4o', messages, top_p: 'high' }),
+      chat(baseUrl, { model: 'gpt-4o', messages, stop: [1] }),
+      chat(baseUrl, { model: 'gpt-4o', messages, tool_choice: 'always' }),
+      chat(baseUrl, { model: 'gpt-4o', messages, tool_choice: { type: 'function', function: { name: 'missing' } } }),
+      chat(baseUrl, { model: 'gpt-4o', messages, response_format: { type: 'yaml' } }),
+    ]);
+
+    for (const response of responses) {
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.type).toBe('invalid_request_error');
+    }
+  });
+
+  it('should rotate when the stream starts with an error chunk', async () => {
+    await writeAccounts(['alice', 'bob']);
+    driverCall = token => new Response(token === 'token-alice'
+      ? JSON.stringify({ success: false, error: { code: 'insufficient_funds', message: 'No credits' } })
+      : JSON.stringify({ type: 'text', text: 'From Bob' }));
+    const baseUrl = await startServer();
+
+    const response = await chat(baseUrl, {
+      model: 'gpt-4o',
+      stream: true,
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(text).toContain('From Bob');
+    expect(text).not.toContain('No credits');
+  });
+
+  it('should end a stalled stream with an error event', async () => {
+    await fs.writeFile(path.join(configDir, 'puter.json'), JSON.stringify({
+      fallback_enabled: false,
+      max_retries: 0,
+      quiet_mode: true,
+      stream_chunk_timeout_ms: 100,
+    }), 'utf-8');
+    driverCall = () => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(JSON.stringify({ type: 'text', text: 'Hel' }) + '\n'));
+      },
+    }));
+    const baseUrl = await startServer();
+
+    const response = await chat(baseUrl, {
+      model: 'gpt-4o',
+      stream: true,
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const events = (await response.text()).split('\n\n').filter(Boolean);
+
+    expect(events[0]).toContain('Hel');
+    expect(JSON.parse(events.at(-2)!.replace(/^data: /, '')).error.message).toContain('Streaming timeout');
+    expect(events.at(-1)).toBe('data: [DONE]');
+  });
+
+  it('should pass Puter errors through with their status', async () => {
+    driverCall = () => new Response('Too many requests', { status: 429, headers: { 'retry-after': '7' } });
+    const baseUrl = await startServer();
+
+    const response = await chat(baseUrl, { model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('7');
+    expect((await response.json()).error.type).toBe('rate_limit_error');
+  });
+
+  it('should reject invalid requests and unsupported endpoints', async () => {
+    const baseUrl = await startServer();
+
+    const noMessages = await chat(baseUrl, { model: 'gpt-4o', messages: [] });
+    const embeddings = await realFetch(`${baseUrl}/v1/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    const unknown = await realFetch(`${baseUrl}/v1/nope`);
+
+    expect(noMessages.status).toBe(400);
+    expect(embeddings.status).toBe(501);
+    expect(unknown.status).toBe(404);
+  });
+});
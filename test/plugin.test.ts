@@ -0,0 +1,64 @@
+/**
+ * Tests for the OpenCode plugin's browser login
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import type { PluginInput } from '@opencode-ai/plugin';
+import { z } from 'zod';
+import { PuterAuthPlugin } from '../src/plugin.js';
+import { PuterClient } from '../src/client.js';
+
+// The published package's ESM build has an extensionless import Node can't resolve
+vi.mock('@opencode-ai/plugin', () => ({
+  tool: Object.assign((input: unknown) => input, { schema: z }),
+}));
+
+describe('PuterAuthPlugin', () => {
+  const originalXdg = process.env.XDG_CONFIG_HOME;
+  let xdgDir: string;
+
+  beforeEach(async () => {
+    xdgDir = path.join(os.tmpdir(), `puter-plugin-test-${Date.now()}`);
+    await fs.mkdir(path.join(xdgDir, 'opencode'), { recursive: true });
+    await fs.writeFile(path.join(xdgDir, 'opencode', 'puter.json'), JSON.stringify({
+      auth_callback_port: 0,
+      quiet_mode: true,
+    }), 'utf-8');
+    process.env.XDG_CONFIG_HOME = xdgDir;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (originalXdg === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = originalXdg;
+    }
+    await fs.rm(xdgDir, { recursive: true, force: true });
+  });
+
+  it('should only accept a validated token with the login state', async () => {
+    vi.spyOn(PuterClient.prototype, 'testConnection').mockImplementation(async function (this: any) {
+      return this.authToken === 'good-token';
+    });
+    const hooks = await PuterAuthPlugin({} as PluginInput);
+    const authorize = await (hooks.auth!.methods[0] as any).authorize();
+
+    const loginUrl = new URL(authorize.url);
+    const state = loginUrl.searchParams.get('state')!;
+    const callback = (params: Record<string, string>) =>
+      fetch(`${loginUrl.origin}/callback?${new URLSearchParams(params)}`);
+
+    expect(loginUrl.hostname).toBe('localhost');
+    expect((await fetch(`${loginUrl.origin}/`)).status).toBe(403);
+    expect((await fetch(authorize.url)).status).toBe(200);
+    expect((await callback({ token: 'attacker-token', username: 'attacker' })).status).toBe(403);
+    expect((await callback({ token: 'bad-token', state })).status).toBe(400);
+    expect((await callback({ token: 'good-token', username: 'me', state })).status).toBe(200);
+
+    await expect(authorize.callback()).resolves.toEqual({ type: 'success', key: 'good-token' });
+  });
+});
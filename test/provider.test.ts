@@ -13,8 +13,30 @@ import {
   transformRequestToPuter,
   transformPuterResponseToGoogle,
   transformPuterStreamChunkToGoogle,
+  transformPuterStreamToOpenAI,
+  createOpenAIStreamState,
+  finishOpenAIStream,
+  transformAnthropicToPuter,
+  transformPuterToAnthropic,
+  transformPuterStreamToAnthropic,
+  createAnthropicStreamState,
+  finishAnthropicStream,
+  transformResponsesToPuter,
+  transformPuterToResponses,
+  transformPuterStreamToResponses,
+  createResponsesStreamState,
+  finishResponsesStream,
   createPuterFetch,
 } from '../src/provider.js';
+import type { PuterChatStreamChunk } from '../src/types.js';
+
+// An OpenAI-style tool call whose later fragments only carry the index
+const splitToolCall: PuterChatStreamChunk[] = [
+  { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'weather', arguments: '' } }] },
+  { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] },
+  { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] },
+  { finish_reason: 'tool_calls' },
+];
 
 describe('Provider', () => {
   describe('isPuterRequest', () => {
@@ -387,6 +409,24 @@ describe('Provider', () => {
       expect(parsed.candidates[0].finishReason).toBe('STOP');
     });
 
+    it('should transform tool_use and usage chunks', () => {
+      const toolUse = JSON.parse(transformPuterStreamChunkToGoogle({
+        type: 'tool_use',
+        id: 'toolu_1',
+        name: 'weather',
+        input: { city: 'Paris' },
+      }).replace('data: ', '').trim());
+      expect(toolUse.candidates[0].content.parts).toEqual([{ functionCall: { name: 'weather', args: { city: 'Paris' } } }]);
+
+      const usage = JSON.parse(transformPuterStreamChunkToGoogle({
+        usage: { prompt: 3, completion: 4 },
+        done: true,
+        finish_reason: 'length',
+      }).replace('data: ', '').trim());
+      expect(usage.candidates[0].finishReason).toBe('MAX_TOKENS');
+      expect(usage.usageMetadata).toEqual({ promptTokenCount: 3, candidatesTokenCount: 4, totalTokenCount: 7 });
+    });
+
     it('should transform tool_calls chunk', () => {
       const chunk = {
         tool_calls: [{
@@ -408,9 +448,361 @@ describe('Provider', () => {
     });
   });
 
+  describe('transformPuterStreamToOpenAI', () => {
+    const parseChunks = (sse: string) => sse
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => JSON.parse(event.replace('data: ', '')));
+
+    it('should stream reasoning, text and tool calls with stable indices', () => {
+      const state = createOpenAIStreamState('gpt-4o');
+      const chunks = parseChunks([
+        transformPuterStreamToOpenAI({ type: 'reasoning', reasoning: 'Hmm' }, state),
+        transformPuterStreamToOpenAI({ type: 'text', text: 'Checking.' }, state),
+        transformPuterStreamToOpenAI({ type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris' } }, state),
+        transformPuterStreamToOpenAI({ type: 'tool_use', id: 'toolu_2', name: 'weather', input: { city: 'Rome' } }, state),
+        transformPuterStreamToOpenAI({
+          tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '' } }],
+        }, state),
+        transformPuterStreamToOpenAI({ type: 'usage', usage: { prompt: 12, completion: 8 } }, state),
+        transformPuterStreamToOpenAI({ done: true }, state),
+      ].join(''));
+
+      expect(chunks[0].choices[0].delta).toEqual({ role: 'assistant', reasoning_content: 'Hmm' });
+      expect(chunks[1].choices[0].delta).toEqual({ content: 'Checking.' });
+      expect(chunks[2].choices[0].delta.tool_calls).toEqual([{
+        index: 0,
+        id: 'toolu_1',
+        type: 'function',
+        function: { name: 'weather', arguments: '{"city":"Paris"}' },
+      }]);
+      expect(chunks[3].choices[0].delta.tool_calls[0].index).toBe(1);
+      expect(chunks[4].choices[0].delta.tool_calls).toEqual([{ index: 0, function: { arguments: '' } }]);
+      expect(chunks).toHaveLength(6);
+      expect(chunks[5].choices[0]).toEqual({ index: 0, delta: {}, finish_reason: 'tool_calls' });
+      expect(chunks[5].usage).toEqual({ prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 });
+      expect(new Set(chunks.map(chunk => chunk.id)).size).toBe(1);
+    });
+
+    it('should keep a tool call split across chunks at one index', () => {
+      const state = createOpenAIStreamState('gpt-4o');
+      const chunks = parseChunks(splitToolCall.map(chunk => transformPuterStreamToOpenAI(chunk, state)).join(''));
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.tool_calls)).toEqual([
+        [{ index: 0, id: 'call_1', type: 'function', function: { name: 'weather', arguments: '' } }],
+        [{ index: 0, function: { arguments: '{"city":' } }],
+        [{ index: 0, function: { arguments: '"Paris"}' } }],
+        undefined,
+      ]);
+    });
+
+    it('should add fragments without an index or ID to the last open tool call', () => {
+      const state = createOpenAIStreamState();
+      const chunks = parseChunks([
+        { tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":' } }] },
+        { tool_calls: [{ function: { arguments: '"Paris"}' } }] },
+        { tool_calls: [{ id: 'call_2', type: 'function', function: { name: 'time', arguments: '{"tz":' } }] },
+        { tool_calls: [{ function: { arguments: '"CET"}' } }] },
+      ].map(chunk => transformPuterStreamToOpenAI(chunk as PuterChatStreamChunk, state)).join(''));
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.tool_calls[0].index)).toEqual([0, 0, 1, 1]);
+      expect(chunks[3].choices[0].delta.tool_calls).toEqual([{ index: 1, function: { arguments: '"CET"}' } }]);
+    });
+
+    it('should send usage that arrives after the finish chunk on its own', () => {
+      const state = createOpenAIStreamState();
+      transformPuterStreamToOpenAI({ text: 'Hi', finish_reason: 'length' }, state);
+
+      const [usageChunk] = parseChunks(transformPuterStreamToOpenAI({ usage: { prompt_tokens: 1, completion_tokens: 2 } }, state));
+      expect(usageChunk.choices).toEqual([]);
+      expect(usageChunk.usage.total_tokens).toBe(3);
+      expect(finishOpenAIStream(state)).toBe('');
+    });
+
+    it('should finish a stream that ended without a final chunk', () => {
+      const state = createOpenAIStreamState();
+      transformPuterStreamToOpenAI({ text: 'Hi' }, state);
+
+      expect(parseChunks(finishOpenAIStream(state))[0].choices[0].finish_reason).toBe('stop');
+    });
+  });
+
+  describe('Anthropic format', () => {
+    // Parse `event: ...\ndata: ...` SSE text into event payloads
+    const parseEvents = (sse: string) => sse
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => JSON.parse(event.split('\n')[1].replace('data: ', '')));
+
+    it('should transform system prompts, content blocks and tools', () => {
+      const result = transformAnthropicToPuter({
+        model: 'puter-claude-sonnet-4-5',
+        system: [{ type: 'text', text: 'Be brief.' }],
+        max_tokens: 1024,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBOR' } },
+            ],
+          },
+          {
+            role: 'assistant',
+            content: [
+              { type: 'thinking' },
+              { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'png' } },
+            ],
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'A logo' }] },
+              { type: 'text', text: 'Thanks' },
+            ],
+          },
+        ],
+        tools: [{ name: 'lookup', input_schema: { type: 'object' } }],
+      }, 'test-token');
+
+      expect(result.args.model).toBe('claude-sonnet-4-5');
+      expect(result.args.max_tokens).toBe(1024);
+      expect(result.args.messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBOR' } },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"png"}' } }],
+        },
+        { role: 'tool', content: 'A logo', tool_call_id: 'toolu_1' },
+        { role: 'user', content: 'Thanks' },
+      ]);
+      expect(result.args.tools?.[0].function).toEqual({ name: 'lookup', description: '', parameters: { type: 'object' } });
+    });
+
+    it('should transform responses to messages', () => {
+      const result = transformPuterToAnthropic({
+        message: {
+          role: 'assistant',
+          content: 'Checking.',
+          tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } }],
+        },
+        finish_reason: 'tool_calls',
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      }, 'claude-sonnet-4-5');
+
+      expect(result).toMatchObject({
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'x' } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      });
+    });
+
+    it('should emit the Anthropic SSE event sequence', () => {
+      const state = createAnthropicStreamState('claude-sonnet-4-5');
+      const sse = [
+        transformPuterStreamToAnthropic({ reasoning: 'Hmm' }, state),
+        transformPuterStreamToAnthropic({ text: 'Hel' }, state),
+        transformPuterStreamToAnthropic({ text: 'lo' }, state),
+        transformPuterStreamToAnthropic({
+          tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'lookup', arguments: '{}' } }],
+        }, state),
+        transformPuterStreamToAnthropic({ done: true }, state),
+      ].join('');
+      const events = parseEvents(sse);
+
+      expect(events.map(event => event.type)).toEqual([
+        'message_start',
+        'content_block_start', 'content_block_delta', 'content_block_stop',
+        'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+        'content_block_start', 'content_block_delta', 'content_block_stop',
+        'message_delta',
+        'message_stop',
+      ]);
+      expect(sse.startsWith('event: message_start\n')).toBe(true);
+      expect(events[1].content_block).toEqual({ type: 'thinking', thinking: '' });
+      expect(events[5].delta).toEqual({ type: 'text_delta', text: 'Hel' });
+      expect(events[8]).toMatchObject({ index: 2, content_block: { type: 'tool_use', id: 'toolu_1', name: 'lookup' } });
+      expect(events[11].delta.stop_reason).toBe('tool_use');
+      expect(finishAnthropicStream(state)).toBe('');
+    });
+
+    it('should stream a tool call split across chunks as one tool_use block', () => {
+      const state = createAnthropicStreamState();
+      const events = parseEvents(splitToolCall.map(chunk => transformPuterStreamToAnthropic(chunk, state)).join(''));
+
+      expect(events.filter(event => event.type === 'content_block_start')).toEqual([
+        { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'call_1', name: 'weather', input: {} } },
+      ]);
+      expect(events.filter(event => event.type === 'content_block_delta').map(event => event.delta.partial_json).join(''))
+        .toBe('{"city":"Paris"}');
+      expect(events.at(-2).delta.stop_reason).toBe('tool_use');
+    });
+
+    it('should close a stream that ended without a final chunk', () => {
+      const state = createAnthropicStreamState();
+      transformPuterStreamToAnthropic({ text: 'Hi' }, state);
+
+      expect(parseEvents(finishAnthropicStream(state)).map(event => event.type))
+        .toEqual(['content_block_stop', 'message_delta', 'message_stop']);
+    });
+  });
+
+  describe('Responses API format', () => {
+    const parseEvents = (sse: string) => sse
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => JSON.parse(event.split('\n')[1].replace('data: ', '')));
+
+    it('should transform instructions, input items and function tools', () => {
+      const result = transformResponsesToPuter({
+        model: 'gpt-4o',
+        instructions: 'Be brief.',
+        max_output_tokens: 500,
+        input: [
+          { role: 'developer', content: 'Use tools.' },
+          { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Weather in Paris and Rome?' }] },
+          { type: 'reasoning' },
+          { type: 'function_call', call_id: 'call_1', name: 'weather', arguments: '{"city":"Paris"}' },
+          { type: 'function_call', call_id: 'call_2', name: 'weather', arguments: '{"city":"Rome"}' },
+          { type: 'function_call_output', call_id: 'call_1', output: 'Sunny' },
+          { type: 'function_call_output', call_id: 'call_2', output: { sky: 'cloudy' } },
+        ],
+        tools: [
+          { type: 'function', name: 'weather', parameters: { type: 'object' } },
+          { type: 'web_search' },
+        ],
+      }, 'test-token');
+
+      expect(result.args.max_tokens).toBe(500);
+      expect(result.args.messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'system', content: 'Use tools.' },
+        { role: 'user', content: 'Weather in Paris and Rome?' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'weather', arguments: '{"city":"Rome"}' } },
+          ],
+        },
+        { role: 'tool', content: 'Sunny', tool_call_id: 'call_1' },
+        { role: 'tool', content: '{"sky":"cloudy"}', tool_call_id: 'call_2' },
+      ]);
+      expect(result.args.tools).toHaveLength(1);
+      expect(transformResponsesToPuter({ input: 'Hi' }, 'test-token').args.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    });
+
+    it('should transform responses to output items', () => {
+      const result = transformPuterToResponses({
+        message: {
+          role: 'assistant',
+          content: 'Checking.',
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{}' } }],
+        },
+        finish_reason: 'tool_calls',
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      }, 'gpt-4o');
+
+      expect(result).toMatchObject({
+        object: 'response',
+        status: 'completed',
+        model: 'gpt-4o',
+        output: [
+          { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Checking.' }] },
+          { type: 'function_call', call_id: 'call_1', name: 'weather', arguments: '{}' },
+        ],
+        usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+      });
+      expect(transformPuterToResponses({ finish_reason: 'length' }).incomplete_details).toEqual({ reason: 'max_output_tokens' });
+    });
+
+    it('should emit typed streaming events', () => {
+      const state = createResponsesStreamState('gpt-4o');
+      const events = parseEvents([
+        transformPuterStreamToResponses({ text: 'Hel' }, state),
+        transformPuterStreamToResponses({ text: 'lo' }, state),
+        transformPuterStreamToResponses({
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{}' } }],
+        }, state),
+        transformPuterStreamToResponses({ done: true }, state),
+      ].join(''));
+
+      expect(events.map(event => event.type)).toEqual([
+        'response.created',
+        'response.in_progress',
+        'response.output_item.added',
+        'response.content_part.added',
+        'response.output_text.delta',
+        'response.output_text.delta',
+        'response.output_text.done',
+        'response.content_part.done',
+        'response.output_item.done',
+        'response.output_item.added',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.done',
+        'response.output_item.done',
+        'response.completed',
+      ]);
+      expect(events.map(event => event.sequence_number)).toEqual(events.map((_, index) => index));
+      expect(events[6].text).toBe('Hello');
+      expect(events[9].output_index).toBe(1);
+      expect(events.at(-1).response.output).toHaveLength(2);
+      expect(finishResponsesStream(state)).toBe('');
+    });
+
+    it('should stream a function call split across chunks as one item', () => {
+      const state = createResponsesStreamState('gpt-4o');
+      const events = parseEvents(splitToolCall.map(chunk => transformPuterStreamToResponses(chunk, state)).join(''));
+
+      expect(events.filter(event => event.type === 'response.output_item.added')).toHaveLength(1);
+      expect(events.find(event => event.type === 'response.function_call_arguments.done').arguments)
+        .toBe('{"city":"Paris"}');
+      expect(events.at(-1).response.output).toEqual([
+        expect.objectContaining({ type: 'function_call', call_id: 'call_1', name: 'weather', arguments: '{"city":"Paris"}' }),
+      ]);
+    });
+
+    it('should stream reasoning as a summary item', () => {
+      const state = createResponsesStreamState();
+      transformPuterStreamToResponses({ reasoning: 'Hmm' }, state);
+      const events = parseEvents(finishResponsesStream(state, 'length'));
+
+      expect(events.map(event => event.type)).toEqual([
+        'response.reasoning_summary_text.done',
+        'response.reasoning_summary_part.done',
+        'response.output_item.done',
+        'response.incomplete',
+      ]);
+      expect(events[2].item).toMatchObject({ type: 'reasoning', summary: [{ type: 'summary_text', text: 'Hmm' }] });
+    });
+  });
+
   describe('createPuterFetch', () => {
     let originalFetch: typeof fetch;
 
+    // Puter API mock: answers the user-app-token handshake, and /drivers/call with `driverResponse`
+    const mockPuterApi = (driverResponse: () => Response) => vi.fn(async (input: RequestInfo | URL) => {
+      if (String(input).endsWith('/auth/get-user-app-token')) {
+        return new Response(JSON.stringify({ token: 'user-app-token' }));
+      }
+      return driverResponse();
+    }) as unknown as typeof fetch;
+
     beforeEach(() => {
       originalFetch = global.fetch;
     });
@@ -442,12 +834,10 @@ describe('Provider', () => {
         },
       };
 
-      global.fetch = vi.fn().mockResolvedValue(
-        new Response(JSON.stringify(mockPuterResponse), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' },
-        })
-      );
+      global.fetch = mockPuterApi(() => new Response(JSON.stringify(mockPuterResponse), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }));
 
       const puterFetch = createPuterFetch('test-token');
       const result = await puterFetch(
@@ -473,5 +863,184 @@ describe('Provider', () => {
       expect(responseBody.candidates).toBeDefined();
       expect(responseBody.candidates[0].content.parts[0].text).toBe('Hello!');
     });
+
+    it('should authenticate with a user-app-token and Origin header', async () => {
+      global.fetch = mockPuterApi(() => new Response(JSON.stringify({
+        result: { message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' },
+      })));
+
+      const puterFetch = createPuterFetch('test-token');
+      const request = {
+        method: 'POST',
+        body: JSON.stringify({ model: 'puter-gpt-4o', messages: [{ role: 'user', content: 'Hi' }] }),
+      };
+      await puterFetch('http://localhost:8080/v1/chat/completions', request);
+      await puterFetch('http://localhost:8080/v1/chat/completions', request);
+
+      const calls = vi.mocked(global.fetch).mock.calls;
+      const tokenCalls = calls.filter(([url]) => String(url).endsWith('/auth/get-user-app-token'));
+      const driverCalls = calls.filter(([url]) => String(url).endsWith('/drivers/call'));
+
+      // The user-app-token is fetched once and reused
+      expect(tokenCalls).toHaveLength(1);
+      expect(tokenCalls[0][1]?.headers).toMatchObject({ Authorization: 'Bearer test-token' });
+      expect(driverCalls).toHaveLength(2);
+      expect(driverCalls[0][1]?.headers).toMatchObject({ Origin: 'http://localhost:5500' });
+      expect(JSON.parse(driverCalls[0][1]?.body as string)).toMatchObject({
+        auth_token: 'user-app-token',
+        args: { model: 'gpt-4o' },
+      });
+    });
+
+    it('should serve Anthropic /v1/messages requests', async () => {
+      const lines = [{ text: 'Hi' }, { text: ' there', done: true, finish_reason: 'stop' }]
+        .map(chunk => JSON.stringify(chunk)).join('\n');
+      global.fetch = mockPuterApi(() => new Response(lines));
+
+      const puterFetch = createPuterFetch('test-token');
+      const result = await puterFetch('http://localhost:8080/v1/messages', {
+        method: 'POST',
+        body: JSON.stringify({
+          model: 'claude-sonnet-4-5',
+          max_tokens: 100,
+          stream: true,
+          messages: [{ role: 'user', content: 'Hi' }],
+        }),
+      });
+      const sse = await result.text();
+
+      expect(result.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(sse).toContain('event: message_start');
+      expect(sse).toContain('"text_delta","text":" there"');
+      expect(sse.trim().endsWith('data: {"type":"message_stop"}')).toBe(true);
+      expect(sse).not.toContain('[DONE]');
+
+      global.fetch = mockPuterApi(() => new Response('rate limited', { status: 429 }));
+      const error = await createPuterFetch('test-token', { max_retries: 0 })('http://localhost:8080/v1/messages', {
+        method: 'POST',
+        body: JSON.stringify({ model: 'claude-sonnet-4-5', messages: [] }),
+      });
+      expect(error.status).toBe(429);
+      expect((await error.json()).error.type).toBe('rate_limit_error');
+    });
+
+    it('should stream tool calls and finish with usage for OpenAI requests', async () => {
+      const lines = [
+        { type: 'text', text: 'Checking.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris' } },
+        { type: 'usage', usage: { prompt: 5, completion: 7 } },
+      ].map(chunk => JSON.stringify(chunk)).join('\n');
+      global.fetch = mockPuterApi(() => new Response(lines));
+
+      const result = await createPuterFetch('test-token')('http://localhost:8080/v1/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({ model: 'puter-claude-sonnet-4-5', stream: true, messages: [{ role: 'user', content: 'Hi' }] }),
+      });
+      const events = (await result.text()).split('\n\n').filter(Boolean);
+      const final = JSON.parse(events.at(-2)!.replace('data: ', ''));
+
+      expect(events.at(-1)).toBe('data: [DONE]');
+      expect(final.model).toBe('claude-sonnet-4-5');
+      expect(final.choices[0].finish_reason).toBe('tool_calls');
+      expect(final.usage).toEqual({ prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 });
+      expect(events.some(event => event.includes('"name":"weather"'))).toBe(true);
+    });
+
+    it('should serve Responses API requests', async () => {
+      global.fetch = mockPuterApi(() => new Response(JSON.stringify({
+        result: { message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' },
+      })));
+
+      const result = await createPuterFetch('test-token')('http://localhost:8080/v1/responses', {
+        method: 'POST',
+        body: JSON.stringify({ model: 'puter-gpt-4o', input: 'Hi' }),
+      });
+      const body = await result.json();
+
+      expect(body.object).toBe('response');
+      expect(body.model).toBe('gpt-4o');
+      expect(body.output[0].content[0].text).toBe('Hi');
+    });
+
+    it('should return Puter errors and fetch a new token after a 403', async () => {
+      global.fetch = mockPuterApi(() => new Response('{"error":{"code":"forbidden"}}', {
+        status: 403,
+        headers: { 'retry-after': '30' },
+      }));
+
+      const puterFetch = createPuterFetch('test-token');
+      const request = {
+        method: 'POST',
+        body: JSON.stringify({ model: 'puter-gpt-4o', messages: [{ role: 'user', content: 'Hi' }] }),
+      };
+      const result = await puterFetch('http://localhost:8080/v1/chat/completions', request);
+
+      expect(result.status).toBe(403);
+      expect(result.headers.get('retry-after')).toBe('30');
+      expect((await result.json()).error.code).toBe(403);
+
+      await puterFetch('http://localhost:8080/v1/chat/completions', request);
+      const tokenCalls = vi.mocked(global.fetch).mock.calls
+        .filter(([url]) => String(url).endsWith('/auth/get-user-app-token'));
+      expect(tokenCalls).toHaveLength(2);
+    });
+
+    describe('aborts and timeouts', () => {
+      const request = (signal?: AbortSignal, stream = false) => ({
+        method: 'POST',
+        body: JSON.stringify({ model: 'puter-gpt-4o', stream, messages: [{ role: 'user', content: 'Hi' }] }),
+        signal,
+      });
+      // Driver call that never answers until its signal aborts
+      const hangingDriver = () => vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+        if (String(input).endsWith('/auth/get-user-app-token')) {
+          return new Response(JSON.stringify({ token: 'user-app-token' }));
+        }
+        return new Promise<Response>((_, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal!.reason), { once: true });
+        });
+      }) as unknown as typeof fetch;
+
+      it('should reject with an AbortError when the caller aborts', async () => {
+        global.fetch = hangingDriver();
+        const controller = new AbortController();
+        const pending = createPuterFetch('test-token', { max_retries: 0 })('http://localhost:8080/v1/chat/completions', request(controller.signal));
+        setTimeout(() => controller.abort(), 10);
+
+        await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      });
+
+      it('should return a 504 when api_timeout_ms runs out', async () => {
+        global.fetch = hangingDriver();
+        const result = await createPuterFetch('test-token', { max_retries: 0, api_timeout_ms: 20 })('http://localhost:8080/v1/chat/completions', request());
+
+        expect(result.status).toBe(504);
+        expect((await result.json()).error.message).toContain('timed out after 20ms');
+      });
+
+      it('should abort upstream when a started stream is cancelled', async () => {
+        let upstreamSignal: AbortSignal | undefined;
+        global.fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+          if (String(input).endsWith('/auth/get-user-app-token')) {
+            return new Response(JSON.stringify({ token: 'user-app-token' }));
+          }
+          upstreamSignal = init?.signal ?? undefined;
+          return new Response(new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode(JSON.stringify({ type: 'text', text: 'Hi' }) + '\n'));
+            },
+          }));
+        }) as unknown as typeof fetch;
+        const controller = new AbortController();
+
+        const result = await createPuterFetch('test-token')('http://localhost:8080/v1/chat/completions', request(controller.signal, true));
+        const reader = result.body!.getReader();
+        await reader.read();
+        controller.abort();
+
+        expect(upstreamSignal?.aborted).toBe(true);
+        await reader.cancel();
+      });
+    });
   });
 });
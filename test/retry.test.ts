@@ -9,6 +9,10 @@ import {
   isRetryableError,
   withRetry,
   RetryError,
+  raceWithAbort,
+  HttpStatusError,
+  parseRetryAfter,
+  createRetryFetch,
 } from '../src/retry.js';
 
 describe('calculateDelay', () => {
@@ -58,6 +62,27 @@ describe('sleep', () => {
     vi.advanceTimersByTime(1000);
     await expect(promise).resolves.toBeUndefined();
   });
+
+  it('should reject with AbortError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const promise = sleep(1000, controller.signal);
+    controller.abort();
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('raceWithAbort', () => {
+  it('should resolve with the promise result when not aborted', async () => {
+    const controller = new AbortController();
+    await expect(raceWithAbort(Promise.resolve('ok'), controller.signal)).resolves.toBe('ok');
+  });
+
+  it('should reject immediately when the signal aborts', async () => {
+    const controller = new AbortController();
+    const promise = raceWithAbort(new Promise(() => {}), controller.signal);
+    controller.abort();
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
 });
 
 describe('isRetryableError', () => {
@@ -217,6 +242,104 @@ describe('withRetry', () => {
     expect(onRetry).toHaveBeenNthCalledWith(1, 1, expect.any(Error), 100);
     expect(onRetry).toHaveBeenNthCalledWith(2, 2, expect.any(Error), 200);
   });
+
+  it('should not start when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const operation = vi.fn().mockResolvedValue('success');
+    
+    await expect(withRetry(operation, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should stop retrying when aborted during backoff', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new Error('Puter API error (500): Error'));
+    
+    const promise = withRetry(operation, { 
+      maxRetries: 3, 
+      initialDelay: 1000, 
+      jitter: false,
+      signal: controller.signal,
+    });
+    const assertion = expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(5000);
+    
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.UTC(2026, 0, 1);
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfter(new Headers({ 'Retry-After': '30' }), now)).toBe(30000);
+    expect(parseRetryAfter(new Headers({ 'Retry-After': new Date(now + 5000).toUTCString() }), now)).toBe(5000);
+  });
+
+  it('should parse X-RateLimit-Reset timestamps and delays', () => {
+    expect(parseRetryAfter(new Headers({ 'X-RateLimit-Reset': String(now / 1000 + 60) }), now)).toBe(60000);
+    expect(parseRetryAfter(new Headers({ 'X-RateLimit-Reset': String(now + 2000) }), now)).toBe(2000);
+    expect(parseRetryAfter(new Headers({ 'X-RateLimit-Reset': '10' }), now)).toBe(10000);
+  });
+
+  it('should prefer Retry-After and ignore unusable values', () => {
+    expect(parseRetryAfter(new Headers({ 'Retry-After': '1', 'X-RateLimit-Reset': '10' }), now)).toBe(1000);
+    expect(parseRetryAfter(new Headers({ 'Retry-After': 'soon' }), now)).toBeUndefined();
+    expect(parseRetryAfter(new Headers(), now)).toBeUndefined();
+  });
+});
+
+describe('server retry hints', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should wait for the Retry-After delay instead of the backoff', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new HttpStatusError('Puter API error (429): slow down', 429, 5000))
+      .mockResolvedValueOnce('success');
+    const onRetry = vi.fn();
+
+    const promise = withRetry(operation, { initialDelay: 100, jitter: false, onRetry });
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toBe('success');
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(HttpStatusError), 5000);
+  });
+
+  it('should stop retrying when the hint exceeds maxDelay', async () => {
+    const operation = vi.fn()
+      .mockRejectedValue(new HttpStatusError('Puter API error (429): slow down', 429, 120000));
+
+    await expect(withRetry(operation, { maxDelay: 30000 })).rejects.toThrow('(429)');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read the hint from responses in createRetryFetch', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 503, headers: { 'Retry-After': '2' } }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const onRetry = vi.fn();
+
+    const promise = createRetryFetch({ initialDelay: 100, jitter: false, onRetry })('https://api.puter.com');
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect((await promise).status).toBe(200);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.objectContaining({ status: 503, retryAfterMs: 2000 }), 2000);
+  });
 });
 
 describe('RetryError', () => {
@@ -0,0 +1,96 @@
+/**
+ * Tests for at-rest token encryption
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import {
+  encryptToken,
+  decryptToken,
+  deriveTokenKey,
+  generateSalt,
+  getKeySecret,
+  getKeySource,
+  isEncryptedToken,
+  TokenDecryptionError,
+  PASSPHRASE_ENV_VAR,
+  MACHINE_KEY_FILE,
+} from '../src/token-crypto.js';
+
+describe('encryptToken / decryptToken', () => {
+  const salt = generateSalt();
+  let key: Buffer;
+
+  beforeAll(async () => {
+    key = await deriveTokenKey('correct horse battery staple', salt);
+  });
+
+  it('should round-trip a token', () => {
+    const encrypted = encryptToken('puter-token-123', key);
+    
+    expect(isEncryptedToken(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('puter-token-123');
+    expect(decryptToken(encrypted, key)).toBe('puter-token-123');
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(encryptToken('same', key)).not.toBe(encryptToken('same', key));
+  });
+
+  it('should reject the wrong key', async () => {
+    const encrypted = encryptToken('puter-token-123', key);
+    const wrongKey = await deriveTokenKey('wrong passphrase', salt);
+    
+    expect(() => decryptToken(encrypted, wrongKey)).toThrow(TokenDecryptionError);
+  });
+
+  it('should reject plaintext values', () => {
+    expect(isEncryptedToken('plain-token')).toBe(false);
+    expect(() => decryptToken('plain-token', key)).toThrow(TokenDecryptionError);
+  });
+});
+
+describe('key sources', () => {
+  let testDir: string;
+  const originalPassphrase = process.env[PASSPHRASE_ENV_VAR];
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `puter-crypto-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    delete process.env[PASSPHRASE_ENV_VAR];
+  });
+
+  afterEach(async () => {
+    if (originalPassphrase === undefined) {
+      delete process.env[PASSPHRASE_ENV_VAR];
+    } else {
+      process.env[PASSPHRASE_ENV_VAR] = originalPassphrase;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should prefer the passphrase env var', () => {
+    expect(getKeySource()).toBe('machine');
+    process.env[PASSPHRASE_ENV_VAR] = 'secret';
+    expect(getKeySource()).toBe('passphrase');
+  });
+
+  it('should require the passphrase for passphrase-encrypted stores', async () => {
+    await expect(getKeySecret('passphrase', testDir)).rejects.toThrow(PASSPHRASE_ENV_VAR);
+  });
+
+  it('should create a private machine key only when asked', async () => {
+    await expect(getKeySecret('machine', testDir)).rejects.toThrow(TokenDecryptionError);
+    
+    const created = await getKeySecret('machine', testDir, true);
+    const loaded = await getKeySecret('machine', testDir);
+    
+    expect(loaded).toBe(created);
+    if (process.platform !== 'win32') {
+      const stat = await fs.stat(path.join(testDir, MACHINE_KEY_FILE));
+      expect(stat.mode & 0o777).toBe(0o600);
+    }
+  });
+});